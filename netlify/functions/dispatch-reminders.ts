@@ -0,0 +1,23 @@
+// Netlify scheduled function: asks the app to send the reminders that are due
+export const config = {
+    schedule: '*/5 * * * *',
+};
+
+export default async function dispatchReminders(): Promise<Response> {
+    const siteUrl = process.env.URL;
+    const secret = process.env.REMINDER_CRON_SECRET;
+    if (!siteUrl || !secret) {
+        console.warn('URL or REMINDER_CRON_SECRET is missing, skipping reminder dispatch.');
+        return new Response(null, { status: 204 });
+    }
+
+    const response = await fetch(`${siteUrl}/api/reminders/dispatch`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${secret}` },
+    });
+    const body = await response.text();
+    if (!response.ok) {
+        console.error('Reminder dispatch failed:', response.status, body);
+    }
+    return new Response(body, { status: response.status });
+}
@@ -0,0 +1,46 @@
+// Service worker for reminder notifications. Pushes carry a JSON payload built by src/lib/reminders.ts:
+// { title, body, url, tag }
+
+self.addEventListener('install', () => {
+    self.skipWaiting();
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', event => {
+    if (!event.data) return;
+
+    let notification;
+    try {
+        notification = event.data.json();
+    } catch {
+        notification = { title: 'Activity Tracker', body: event.data.text(), url: '/' };
+    }
+
+    event.waitUntil(
+        self.registration.showNotification(notification.title, {
+            body: notification.body,
+            tag: notification.tag,
+            icon: '/favicon.ico',
+            data: { url: notification.url || '/' },
+        })
+    );
+});
+
+// Focus an open tab of the app on the notification's page, or open a new one
+self.addEventListener('notificationclick', event => {
+    event.notification.close();
+    const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+    event.waitUntil(
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+            const existing = windows.find(client => client.url.startsWith(self.location.origin));
+            if (existing) {
+                return existing.navigate(url).then(client => (client ?? existing).focus());
+            }
+            return self.clients.openWindow(url);
+        })
+    );
+});
@@ -0,0 +1,451 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+
+import { supabase } from '@/lib/supabase';
+import {
+    formatActivityValue,
+    formatTarget,
+    getSuccessDays,
+    getUnitLabel,
+    isArchived,
+    isAvoidHabit,
+    isQuantitative,
+    isRowScheduledOn,
+    rowFromRecord,
+    type ActivityRow,
+    type ActivityRowRecord,
+} from '@/lib/activities';
+import {
+    COMPLETION_RATE_PERIODS,
+    getCompletionRateForPeriod,
+    getHistoryByMonth,
+    getWeekdayDistribution,
+    searchDayNotes,
+} from '@/lib/activityStats';
+import { applyCompletions, getCompletions } from '@/lib/completions';
+import {
+    formatDateKey,
+    formatISOWeekParam,
+    getToday,
+    getWeekAnchor,
+    getWeekStartDate,
+    parseDateKey,
+    toWeekStartDay,
+} from '@/lib/dates';
+import { getUserPreferences, type UserPreferences } from '@/lib/meals';
+import { getRestPeriods, isRestDay, type RestPeriod } from '@/lib/restDays';
+import { formatSchedule } from '@/lib/schedules';
+import { formatStreakRange, getActivityStreakStats, type Streak } from '@/lib/streaks';
+import ActivityIcon from '@/components/ActivityIcon';
+
+type IconProps = React.SVGProps<SVGSVGElement>;
+
+function ArrowLeftIcon(props: IconProps) {
+    return (
+        <svg
+            viewBox='0 0 24 24'
+            fill='none'
+            stroke='currentColor'
+            strokeWidth='2'
+            strokeLinecap='round'
+            strokeLinejoin='round'
+            {...props}
+        >
+            <path d='M18 12H6' />
+            <path d='m9 5-7 7 7 7' />
+        </svg>
+    );
+}
+
+const formatRate = (rate: number | null): string => (rate === null ? '–' : `${Math.round(rate * 100)}%`);
+
+function StreakCard({ label, streak }: { label: string; streak: Streak | null }) {
+    return (
+        <div className='bg-slate-800 rounded-lg p-3 flex flex-col items-center'>
+            <div className='text-sm text-slate-300'>{label}</div>
+            <div className='text-2xl font-bold text-white'>
+                {streak?.length ?? 0} {streak?.length === 1 ? 'day' : 'days'}
+            </div>
+            <div className='text-xs text-slate-400'>{streak ? formatStreakRange(streak) : 'No streak yet'}</div>
+        </div>
+    );
+}
+
+export default function ActivityDetailPage() {
+    const { id } = useParams<{ id: string }>();
+    const [user, setUser] = useState<User | null>(null);
+    const [row, setRow] = useState<ActivityRow | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [description, setDescription] = useState('');
+    const [isSavingDescription, setIsSavingDescription] = useState(false);
+    const [descriptionError, setDescriptionError] = useState<string | null>(null);
+    const [restPeriods, setRestPeriods] = useState<RestPeriod[]>([]);
+    const [userPreferences, setUserPreferences] = useState<UserPreferences | null>(null);
+    const [noteQuery, setNoteQuery] = useState('');
+
+    const freezesPerMonth = userPreferences?.streak_freezes_per_month ?? 0;
+    const weekStartsOn = toWeekStartDay(userPreferences?.week_start);
+    const todayKey = formatDateKey(getToday(userPreferences?.timezone));
+
+    useEffect(() => {
+        supabase.auth.getSession().then(({ data: { session } }) => {
+            setUser(session?.user ?? null);
+            if (!session?.user) setIsLoading(false);
+        });
+
+        const {
+            data: { subscription },
+        } = supabase.auth.onAuthStateChange((_event, session) => {
+            setUser(session?.user ?? null);
+        });
+
+        return () => subscription.unsubscribe();
+    }, []);
+
+    useEffect(() => {
+        if (!user || !id) return;
+
+        const load = async () => {
+            setIsLoading(true);
+            try {
+                const { data, error } = await supabase
+                    .from('activity_rows')
+                    .select('*')
+                    .eq('user_id', user.id)
+                    .eq('id', id)
+                    .maybeSingle();
+
+                if (error) throw error;
+                if (!data) {
+                    setRow(null);
+                    return;
+                }
+
+                let loadedRow = rowFromRecord(data as ActivityRowRecord);
+                const [completions, periods, preferences] = await Promise.all([
+                    getCompletions(user.id, loadedRow.id),
+                    getRestPeriods(user.id),
+                    getUserPreferences(user.id),
+                ]);
+                if (completions) {
+                    loadedRow = applyCompletions(loadedRow, completions);
+                }
+                setRestPeriods(periods);
+                setUserPreferences(preferences);
+                setRow(loadedRow);
+                setDescription(loadedRow.description ?? '');
+            } catch (error) {
+                console.error('Failed to load activity:', error);
+                setRow(null);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        load();
+    }, [user, id]);
+
+    const streaks = useMemo(
+        () =>
+            row
+                ? getActivityStreakStats(row, parseDateKey(todayKey), {
+                      isScheduled: date =>
+                          isRowScheduledOn(row, date) && !isRestDay(restPeriods, row.id, formatDateKey(date)),
+                      freezesPerMonth,
+                  })
+                : null,
+        [row, restPeriods, freezesPerMonth, todayKey]
+    );
+    const weekdayDistribution = useMemo(
+        () => (row ? getWeekdayDistribution(row, weekStartsOn) : []),
+        [row, weekStartsOn]
+    );
+    const history = useMemo(() => (row ? getHistoryByMonth(row) : []), [row]);
+    const hasNotes = row ? Object.keys(row.dayNotes).length > 0 : false;
+    const notes = useMemo(() => (row ? searchDayNotes([row], noteQuery) : []), [row, noteQuery]);
+
+    const saveDescription = async () => {
+        if (!user || !row) return;
+
+        const nextDescription = description.trim() || null;
+        setIsSavingDescription(true);
+        setDescriptionError(null);
+        const { error } = await supabase
+            .from('activity_rows')
+            .update({ description: nextDescription })
+            .eq('id', row.id)
+            .eq('user_id', user.id);
+
+        if (error) {
+            console.error('Error saving activity description:', error);
+            setDescriptionError('Could not save the description. Please try again.');
+        } else {
+            setRow({ ...row, description: nextDescription });
+        }
+        setIsSavingDescription(false);
+    };
+
+    if (isLoading) {
+        return (
+            <div className='min-h-screen bg-slate-800 flex items-center justify-center'>
+                <div className='text-white text-xl'>Loading...</div>
+            </div>
+        );
+    }
+
+    if (!user) {
+        return (
+            <div className='min-h-screen bg-slate-800 flex items-center justify-center'>
+                <div className='text-white text-lg'>Please return to the home page to sign in.</div>
+            </div>
+        );
+    }
+
+    if (!row) {
+        return (
+            <div className='min-h-screen bg-slate-800 flex flex-col items-center justify-center gap-4'>
+                <div className='text-white text-lg'>This activity could not be found.</div>
+                <Link href='/' className='text-slate-300 hover:text-white underline'>
+                    Back to the tracker
+                </Link>
+            </div>
+        );
+    }
+
+    const unit = isQuantitative(row) ? getUnitLabel(row) : null;
+    const isAvoid = isAvoidHabit(row);
+    // Avoid rows count their clean days, since their logged days are slips
+    const totalDays = isAvoid ? getSuccessDays(row, parseDateKey(todayKey)).length : row.completedDays.length;
+    const maxWeekdayCount = Math.max(1, ...weekdayDistribution.map(day => day.count));
+    const isDescriptionChanged = (description.trim() || null) !== row.description;
+
+    return (
+        <div className='min-h-screen bg-slate-800'>
+            <div className='container mx-auto px-4 py-4 sm:py-8 max-w-4xl'>
+                <div className='grid gap-4 sm:grid-cols-[auto_minmax(0,1fr)_auto] sm:items-start sm:gap-8 mb-6'>
+                    <div className='hidden sm:block w-36'></div>
+                    <div className='text-center max-w-2xl mx-auto'>
+                        <div className='text-4xl sm:text-5xl mb-2'>
+                            <ActivityIcon row={row} className='px-2 py-1' />
+                        </div>
+                        <h1 className='text-2xl sm:text-4xl font-bold text-white mb-1'>{row.name}</h1>
+                        <p className='text-white/80 text-sm sm:text-base'>
+                            {isAvoid ? 'Avoiding · ' : ''}
+                            {formatSchedule(row.schedule)}
+                            {row.weeklyTarget !== null ? ` · ${formatTarget(row)}` : ''}
+                            {unit ? ` · measured in ${unit}` : ''}
+                            {isArchived(row) ? ' · Archived' : ''}
+                        </p>
+                    </div>
+                    <div className='flex flex-col items-start sm:items-end gap-2 w-full sm:w-36'>
+                        <Link
+                            href='/'
+                            className='w-full text-sm sm:text-base text-slate-300 hover:text-white border border-slate-600 hover:border-slate-400 px-3 py-2 rounded-lg transition-colors flex items-center justify-center gap-2'
+                        >
+                            <ArrowLeftIcon className='w-4 h-4' aria-hidden='true' />
+                            <span>Back</span>
+                        </Link>
+                    </div>
+                </div>
+
+                {/* Description */}
+                <div className='bg-slate-700 rounded-lg p-4 sm:p-6 mb-6'>
+                    <h2 className='text-white text-lg font-semibold mb-3'>Description</h2>
+                    <textarea
+                        value={description}
+                        onChange={event => setDescription(event.target.value)}
+                        placeholder='Why this habit matters, how you do it, what counts…'
+                        rows={3}
+                        className='w-full px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+                    />
+                    {descriptionError && <p className='text-red-400 text-sm mt-2'>{descriptionError}</p>}
+                    <div className='flex justify-end mt-2'>
+                        <button
+                            onClick={saveDescription}
+                            disabled={!isDescriptionChanged || isSavingDescription}
+                            className='px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed'
+                        >
+                            {isSavingDescription ? 'Saving...' : 'Save description'}
+                        </button>
+                    </div>
+                </div>
+
+                {/* Statistics */}
+                <div className='bg-slate-700 rounded-lg p-4 sm:p-6 mb-6'>
+                    <h2 className='text-white text-lg font-semibold mb-4'>Statistics</h2>
+                    <div className='grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4'>
+                        {COMPLETION_RATE_PERIODS.map(period => (
+                            <div key={period.label} className='bg-slate-800 rounded-lg p-3 flex flex-col items-center'>
+                                <div className='text-sm text-slate-300'>{period.label}</div>
+                                <div className='text-2xl font-bold text-white'>
+                                    {formatRate(
+                                        getCompletionRateForPeriod(
+                                            row,
+                                            period.days,
+                                            parseDateKey(todayKey),
+                                            restPeriods
+                                        )
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <div className='grid grid-cols-1 sm:grid-cols-3 gap-3'>
+                        <StreakCard label='Current streak' streak={streaks?.current ?? null} />
+                        <StreakCard label='Best streak' streak={streaks?.longest ?? null} />
+                        <div className='bg-slate-800 rounded-lg p-3 flex flex-col items-center'>
+                            <div className='text-sm text-slate-300'>{isAvoid ? 'Clean days' : 'Total'}</div>
+                            <div className='text-2xl font-bold text-white'>
+                                {totalDays} {totalDays === 1 ? 'day' : 'days'}
+                            </div>
+                            {isAvoid && (
+                                <div className='text-xs text-slate-400'>
+                                    {row.completedDays.length} {row.completedDays.length === 1 ? 'slip' : 'slips'}
+                                </div>
+                            )}
+                            {unit && (
+                                <div className='text-xs text-slate-400'>
+                                    {formatActivityValue(
+                                        Object.values(row.dayValues).reduce((sum, value) => sum + value, 0)
+                                    )}{' '}
+                                    {unit}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+
+                {/* Day of week distribution */}
+                <div className='bg-slate-700 rounded-lg p-4 sm:p-6 mb-6'>
+                    <h2 className='text-white text-lg font-semibold mb-4'>
+                        {isAvoid ? 'Slips by day of week' : 'By day of week'}
+                    </h2>
+                    <div className='grid grid-cols-7 gap-2 items-end h-40'>
+                        {weekdayDistribution.map(day => (
+                            <div key={day.label} className='flex flex-col items-center justify-end h-full gap-1'>
+                                <span className='text-xs text-slate-300'>{day.count}</span>
+                                <div
+                                    className={`w-full max-w-10 rounded-t ${row.color ? '' : 'bg-blue-500'}`}
+                                    style={{
+                                        height: `${(day.count / maxWeekdayCount) * 100}%`,
+                                        backgroundColor: row.color ?? undefined,
+                                    }}
+                                />
+                                <span className='text-xs text-slate-400'>{day.label}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Journal notes */}
+                {hasNotes && (
+                    <div className='bg-slate-700 rounded-lg p-4 sm:p-6 mb-6'>
+                        <div className='flex flex-wrap items-center justify-between gap-2 mb-4'>
+                            <h2 className='text-white text-lg font-semibold'>Notes</h2>
+                            <input
+                                type='search'
+                                value={noteQuery}
+                                onChange={event => setNoteQuery(event.target.value)}
+                                placeholder='Search notes'
+                                aria-label='Search notes'
+                                className='w-full sm:w-56 px-3 py-1 border border-slate-600 rounded-lg bg-slate-600 text-white text-sm placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+                            />
+                        </div>
+                        {notes.length === 0 ? (
+                            <p className='text-slate-300 text-sm'>No notes match your search.</p>
+                        ) : (
+                            <ul className='space-y-2 max-h-96 overflow-y-auto'>
+                                {notes.map(({ dateKey, note }) => (
+                                    <li key={dateKey} className='bg-slate-800 rounded-lg px-3 py-2'>
+                                        <div className='text-xs text-slate-400'>
+                                            {parseDateKey(dateKey).toLocaleDateString('en-US', {
+                                                weekday: 'short',
+                                                month: 'short',
+                                                day: 'numeric',
+                                                year: 'numeric',
+                                            })}
+                                            {unit
+                                                ? ` · ${formatActivityValue(row.dayValues[dateKey] ?? 0)} ${unit}`
+                                                : ''}
+                                        </div>
+                                        <p className='text-white text-sm mt-1 whitespace-pre-wrap break-words'>
+                                            {note}
+                                        </p>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
+                {/* History */}
+                <div className='bg-slate-700 rounded-lg p-4 sm:p-6 mb-6'>
+                    <h2 className='text-white text-lg font-semibold mb-4'>{isAvoid ? 'Slips' : 'History'}</h2>
+                    {history.length === 0 ? (
+                        <p className='text-slate-300 text-sm'>{isAvoid ? 'No slips logged.' : 'Nothing logged yet.'}</p>
+                    ) : (
+                        <div className='space-y-4'>
+                            {history.map(month => (
+                                <div key={month.key}>
+                                    <div className='flex items-baseline justify-between mb-2'>
+                                        <h3 className='text-white font-medium'>{month.label}</h3>
+                                        <span className='text-xs text-slate-400'>
+                                            {(() => {
+                                                const skippedCount = month.entries.filter(
+                                                    entry => entry.skipped
+                                                ).length;
+                                                const loggedCount = month.entries.length - skippedCount;
+                                                return `${loggedCount} ${loggedCount === 1 ? 'day' : 'days'}${
+                                                    skippedCount > 0 ? ` · ${skippedCount} skipped` : ''
+                                                }`;
+                                            })()}
+                                        </span>
+                                    </div>
+                                    <div className='flex flex-wrap gap-2'>
+                                        {month.entries.map(entry => {
+                                            const date = parseDateKey(entry.dateKey);
+                                            return (
+                                                <Link
+                                                    key={entry.dateKey}
+                                                    href={`/?week=${formatISOWeekParam(getWeekAnchor(getWeekStartDate(date, weekStartsOn)))}`}
+                                                    title={
+                                                        entry.skipped
+                                                            ? `Skipped${entry.reason ? `: ${entry.reason}` : ''} · open this week`
+                                                            : entry.note
+                                                              ? `${entry.note} · open this week`
+                                                              : 'Open this week'
+                                                    }
+                                                    className={`px-2 py-1 rounded text-xs transition-colors ${
+                                                        entry.skipped
+                                                            ? 'bg-amber-900/60 hover:bg-amber-800/60 text-amber-200'
+                                                            : 'bg-slate-600 hover:bg-slate-500 text-white'
+                                                    }`}
+                                                >
+                                                    {date.toLocaleDateString('en-US', {
+                                                        weekday: 'short',
+                                                        month: 'short',
+                                                        day: 'numeric',
+                                                    })}
+                                                    {entry.skipped
+                                                        ? ' · skipped'
+                                                        : unit
+                                                          ? ` · ${formatActivityValue(entry.value)} ${unit}`
+                                                          : ''}
+                                                    {entry.note ? ' 📝' : ''}
+                                                </Link>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,402 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+import Link from 'next/link';
+
+import { supabase } from '@/lib/supabase';
+import { rowFromRecord, type ActivityRow, type ActivityRowRecord } from '@/lib/activities';
+import { applyCompletions, getCompletions } from '@/lib/completions';
+import {
+    formatISOWeekParam,
+    getISOWeekNumber,
+    getISOWeekYear,
+    getToday,
+    getWeekAnchor,
+    getWeekDates,
+    getWeekStartDate,
+    parseDateKey,
+    toWeekStartDay,
+    type WeekStartDay,
+} from '@/lib/dates';
+import { getUserPreferences, type UserPreferences } from '@/lib/meals';
+import { getRestPeriods, type RestPeriod } from '@/lib/restDays';
+import {
+    getWeeklyAnalyses,
+    getWeeklyAnalysisVersions,
+    getWeekStats,
+    requestWeekAnalysis,
+    saveWeeklyAnalysis,
+    searchWeeklyAnalyses,
+    type WeeklyAnalysis,
+    type WeeklyAnalysisVersion,
+} from '@/lib/weeklyAnalyses';
+import { getRatingOption } from '@/lib/weeklyReviews';
+
+type IconProps = React.SVGProps<SVGSVGElement>;
+
+function ArrowLeftIcon(props: IconProps) {
+    return (
+        <svg
+            viewBox='0 0 24 24'
+            fill='none'
+            stroke='currentColor'
+            strokeWidth='2'
+            strokeLinecap='round'
+            strokeLinejoin='round'
+            {...props}
+        >
+            <path d='M18 12H6' />
+            <path d='m9 5-7 7 7 7' />
+        </svg>
+    );
+}
+
+const formatTimestamp = (value: string): string =>
+    new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Analyses are keyed by the Monday of their ISO week; the dates shown follow the user's week start
+const getAnalysisWeekDates = (weekKey: string, weekStartsOn: WeekStartDay): Date[] =>
+    getWeekDates(getWeekStartDate(parseDateKey(weekKey), weekStartsOn));
+
+const formatWeekRange = (dates: Date[]): string => {
+    const start = dates[0].toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    const end = dates[6].toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    return `${start} – ${end}`;
+};
+
+export default function WeeklyAnalysesPage() {
+    const [user, setUser] = useState<User | null>(null);
+    const [analyses, setAnalyses] = useState<WeeklyAnalysis[]>([]);
+    const [rows, setRows] = useState<ActivityRow[]>([]);
+    const [restPeriods, setRestPeriods] = useState<RestPeriod[]>([]);
+    const [userPreferences, setUserPreferences] = useState<UserPreferences | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [query, setQuery] = useState('');
+    const [regeneratingWeek, setRegeneratingWeek] = useState<string | null>(null);
+    const [regenerateError, setRegenerateError] = useState<{ weekStart: string; message: string } | null>(null);
+    // Previous versions are loaded when a week's history is first opened
+    const [versionsWeek, setVersionsWeek] = useState<string | null>(null);
+    const [versions, setVersions] = useState<Record<string, WeeklyAnalysisVersion[]>>({});
+
+    const today = getToday(userPreferences?.timezone);
+    const freezesPerMonth = userPreferences?.streak_freezes_per_month ?? 0;
+    const weekStartsOn = toWeekStartDay(userPreferences?.week_start);
+
+    useEffect(() => {
+        supabase.auth.getSession().then(({ data: { session } }) => {
+            setUser(session?.user ?? null);
+            if (!session?.user) setIsLoading(false);
+        });
+
+        const {
+            data: { subscription },
+        } = supabase.auth.onAuthStateChange((_event, session) => {
+            setUser(session?.user ?? null);
+        });
+
+        return () => subscription.unsubscribe();
+    }, []);
+
+    useEffect(() => {
+        if (!user) return;
+
+        const load = async () => {
+            setIsLoading(true);
+            setLoadError(null);
+            try {
+                const { data, error } = await supabase.from('activity_rows').select('*').eq('user_id', user.id);
+                if (error) throw error;
+
+                const [loadedAnalyses, completions, periods, preferences] = await Promise.all([
+                    getWeeklyAnalyses(user.id),
+                    getCompletions(user.id),
+                    getRestPeriods(user.id),
+                    getUserPreferences(user.id),
+                ]);
+                const loadedRows = (data as ActivityRowRecord[]).map(rowFromRecord);
+                setRows(completions ? loadedRows.map(row => applyCompletions(row, completions)) : loadedRows);
+                setAnalyses(loadedAnalyses);
+                setRestPeriods(periods);
+                setUserPreferences(preferences);
+            } catch (error) {
+                console.error('Failed to load weekly analyses:', error);
+                setLoadError('Could not load your weekly analyses. Please try again.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        load();
+    }, [user]);
+
+    const results = useMemo(() => searchWeeklyAnalyses(analyses, query), [analyses, query]);
+
+    const toggleVersions = async (weekStart: string) => {
+        if (!user) return;
+        if (versionsWeek === weekStart) {
+            setVersionsWeek(null);
+            return;
+        }
+
+        setVersionsWeek(weekStart);
+        if (versions[weekStart]) return;
+        try {
+            const loaded = await getWeeklyAnalysisVersions(user.id, weekStart);
+            setVersions(prev => ({ ...prev, [weekStart]: loaded }));
+        } catch {
+            setVersions(prev => ({ ...prev, [weekStart]: [] }));
+        }
+    };
+
+    // The week is analysed again from today's data; the analysis it replaces is kept as a previous version
+    const regenerate = async (analysis: WeeklyAnalysis) => {
+        if (!user) return;
+
+        setRegeneratingWeek(analysis.weekStart);
+        setRegenerateError(null);
+        try {
+            const analysisText = await requestWeekAnalysis({
+                rows,
+                weekDates: getAnalysisWeekDates(analysis.weekStart, weekStartsOn),
+                today,
+                restPeriods,
+                freezesPerMonth,
+                review: analysis.review,
+            });
+            if (!analysisText) throw new Error('The analysis came back empty');
+
+            const saved = await saveWeeklyAnalysis(user.id, analysis.weekStart, analysisText);
+            setAnalyses(prev => prev.map(item => (item.weekStart === saved.weekStart ? saved : item)));
+            // Refetched when the history is opened again
+            setVersions(prev => {
+                const next = { ...prev };
+                delete next[analysis.weekStart];
+                return next;
+            });
+            if (versionsWeek === analysis.weekStart) setVersionsWeek(null);
+        } catch (error) {
+            console.error('Error regenerating weekly analysis:', error);
+            setRegenerateError({
+                weekStart: analysis.weekStart,
+                message:
+                    error instanceof Error && error.message
+                        ? error.message
+                        : 'Could not regenerate the analysis. Please try again.',
+            });
+        } finally {
+            setRegeneratingWeek(null);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className='min-h-screen bg-slate-800 flex items-center justify-center'>
+                <div className='text-white text-xl'>Loading...</div>
+            </div>
+        );
+    }
+
+    if (!user) {
+        return (
+            <div className='min-h-screen bg-slate-800 flex items-center justify-center'>
+                <div className='text-white text-lg'>Please return to the home page to sign in.</div>
+            </div>
+        );
+    }
+
+    return (
+        <div className='min-h-screen bg-slate-800'>
+            <div className='container mx-auto px-4 py-4 sm:py-8 max-w-4xl'>
+                <div className='grid gap-4 sm:grid-cols-[auto_minmax(0,1fr)_auto] sm:items-start sm:gap-8 mb-6'>
+                    <div className='hidden sm:block w-36'></div>
+                    <div className='text-center max-w-2xl mx-auto'>
+                        <h1 className='text-2xl sm:text-4xl font-bold text-white mb-1'>Weekly Analyses</h1>
+                        <p className='text-white/80 text-sm sm:text-base'>
+                            Every week&apos;s AI summary, with the stats it was based on
+                        </p>
+                    </div>
+                    <div className='flex flex-col items-start sm:items-end gap-2 w-full sm:w-36'>
+                        <Link
+                            href='/'
+                            className='w-full text-sm sm:text-base text-slate-300 hover:text-white border border-slate-600 hover:border-slate-400 px-3 py-2 rounded-lg transition-colors flex items-center justify-center gap-2'
+                        >
+                            <ArrowLeftIcon className='w-4 h-4' aria-hidden='true' />
+                            <span>Back</span>
+                        </Link>
+                    </div>
+                </div>
+
+                <input
+                    type='search'
+                    value={query}
+                    onChange={event => setQuery(event.target.value)}
+                    placeholder='Search analyses and reviews, e.g. sleep'
+                    aria-label='Search analyses'
+                    className='w-full px-3 py-2 mb-6 border border-slate-600 rounded-lg bg-slate-600 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+                />
+
+                {loadError && <p className='text-red-400 text-sm mb-4'>{loadError}</p>}
+
+                {results.length === 0 ? (
+                    <div className='bg-slate-700 rounded-lg p-4 sm:p-6 text-slate-300 text-sm'>
+                        {query.trim()
+                            ? 'No analyses match your search.'
+                            : 'No weekly analyses yet. Complete a week on the tracker to get your first one.'}
+                    </div>
+                ) : (
+                    <ul className='space-y-4' aria-live='polite'>
+                        {results.map(analysis => {
+                            const weekDates = getAnalysisWeekDates(analysis.weekStart, weekStartsOn);
+                            const weekAnchor = getWeekAnchor(weekDates[0]);
+                            const stats = getWeekStats(rows, weekDates, today);
+                            const targetCount = stats.targetsMet.length + stats.targetsMissed.length;
+                            const rating = analysis.review ? getRatingOption(analysis.review.rating) : null;
+                            const isRegenerating = regeneratingWeek === analysis.weekStart;
+                            const weekVersions = versions[analysis.weekStart];
+
+                            return (
+                                <li key={analysis.weekStart} className='bg-slate-700 rounded-lg p-4 sm:p-6'>
+                                    <div className='flex flex-wrap items-start justify-between gap-2 mb-3'>
+                                        <div>
+                                            <Link
+                                                href={`/?week=${formatISOWeekParam(weekAnchor)}`}
+                                                className='text-white text-lg font-semibold hover:underline'
+                                            >
+                                                Week {getISOWeekNumber(weekAnchor)}, {getISOWeekYear(weekAnchor)}
+                                            </Link>
+                                            <div className='text-slate-400 text-xs'>
+                                                {formatWeekRange(weekDates)}
+                                                {analysis.generatedAt
+                                                    ? ` · generated ${formatTimestamp(analysis.generatedAt)}`
+                                                    : ''}
+                                            </div>
+                                        </div>
+                                        <div className='flex items-center gap-2'>
+                                            {analysis.isStale && (
+                                                <span
+                                                    className='text-xs px-2 py-1 rounded bg-amber-900/50 text-amber-200'
+                                                    title='The week was reopened after this analysis was written.'
+                                                >
+                                                    Out of date
+                                                </span>
+                                            )}
+                                            {rating && (
+                                                <span
+                                                    className='text-xs px-2 py-1 rounded bg-slate-600 text-white'
+                                                    title={`You rated this week ${rating.label.toLowerCase()}`}
+                                                >
+                                                    {rating.emoji} {rating.value}/5
+                                                </span>
+                                            )}
+                                        </div>
+                                    </div>
+
+                                    <div className='grid grid-cols-3 gap-2 mb-4 text-center'>
+                                        <div className='bg-slate-800 rounded-lg p-2'>
+                                            <div className='text-xs text-slate-300'>Activities</div>
+                                            <div className='text-lg font-bold text-white'>{stats.totalActivities}</div>
+                                        </div>
+                                        <div className='bg-slate-800 rounded-lg p-2'>
+                                            <div className='text-xs text-slate-300'>Active days</div>
+                                            <div className='text-lg font-bold text-white'>{stats.activeDays}/7</div>
+                                        </div>
+                                        <div
+                                            className='bg-slate-800 rounded-lg p-2'
+                                            title={
+                                                stats.targetsMissed.length > 0
+                                                    ? `Not met: ${stats.targetsMissed.join(', ')}`
+                                                    : undefined
+                                            }
+                                        >
+                                            <div className='text-xs text-slate-300'>Targets met</div>
+                                            <div className='text-lg font-bold text-emerald-400'>
+                                                {targetCount > 0 ? `${stats.targetsMet.length}/${targetCount}` : '–'}
+                                            </div>
+                                        </div>
+                                    </div>
+
+                                    <p className='text-slate-200 leading-relaxed whitespace-pre-wrap'>
+                                        {analysis.analysisText}
+                                    </p>
+
+                                    {analysis.review && (analysis.review.wentWell || analysis.review.toChange) && (
+                                        <div className='mt-3 rounded-lg bg-slate-800 px-3 py-2 text-sm space-y-1'>
+                                            {analysis.review.wentWell && (
+                                                <p className='text-slate-300 whitespace-pre-wrap break-words'>
+                                                    <span className='text-slate-400'>Went well:</span>{' '}
+                                                    {analysis.review.wentWell}
+                                                </p>
+                                            )}
+                                            {analysis.review.toChange && (
+                                                <p className='text-slate-300 whitespace-pre-wrap break-words'>
+                                                    <span className='text-slate-400'>To change:</span>{' '}
+                                                    {analysis.review.toChange}
+                                                </p>
+                                            )}
+                                        </div>
+                                    )}
+
+                                    <div className='flex flex-wrap items-center gap-2 mt-4 text-sm'>
+                                        <button
+                                            onClick={() => regenerate(analysis)}
+                                            disabled={regeneratingWeek !== null}
+                                            title='Analyse this week again with your current data'
+                                            className='px-3 py-1 rounded-md bg-sky-500/75 text-white hover:bg-sky-500 cursor-pointer disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed'
+                                        >
+                                            {isRegenerating ? 'Regenerating...' : 'Regenerate with current data'}
+                                        </button>
+                                        <button
+                                            onClick={() => toggleVersions(analysis.weekStart)}
+                                            aria-expanded={versionsWeek === analysis.weekStart}
+                                            className='px-3 py-1 rounded-md text-slate-300 hover:text-white cursor-pointer'
+                                        >
+                                            {versionsWeek === analysis.weekStart
+                                                ? 'Hide previous versions'
+                                                : 'Previous versions'}
+                                        </button>
+                                    </div>
+                                    {regenerateError?.weekStart === analysis.weekStart && (
+                                        <p className='text-red-400 text-sm mt-2'>{regenerateError.message}</p>
+                                    )}
+
+                                    {versionsWeek === analysis.weekStart && (
+                                        <div className='mt-3 border-t border-slate-600 pt-3'>
+                                            {!weekVersions ? (
+                                                <p className='text-slate-400 text-sm'>Loading previous versions...</p>
+                                            ) : weekVersions.length === 0 ? (
+                                                <p className='text-slate-400 text-sm'>
+                                                    This week hasn&apos;t been regenerated yet.
+                                                </p>
+                                            ) : (
+                                                <ul className='space-y-2'>
+                                                    {weekVersions.map(version => (
+                                                        <li
+                                                            key={version.id}
+                                                            className='bg-slate-800 rounded-lg px-3 py-2'
+                                                        >
+                                                            <div className='text-xs text-slate-400'>
+                                                                {version.generatedAt
+                                                                    ? `Generated ${formatTimestamp(version.generatedAt)} · `
+                                                                    : ''}
+                                                                replaced {formatTimestamp(version.replacedAt)}
+                                                            </div>
+                                                            <p className='text-slate-300 text-sm mt-1 whitespace-pre-wrap'>
+                                                                {version.analysisText}
+                                                            </p>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
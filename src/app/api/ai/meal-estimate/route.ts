@@ -0,0 +1,19 @@
+import { buildMealEstimatePrompt, MAX_MEAL_DESCRIPTION_LENGTH, parseMealEstimate } from '@/lib/ai';
+import { generateText, handleAiRequest } from '@/lib/aiServer';
+
+export const dynamic = 'force-dynamic';
+
+const parseDescription = (body: unknown): string | null => {
+    const description = (body as { description?: unknown } | null)?.description;
+    if (typeof description !== 'string') return null;
+    const trimmed = description.trim();
+    return trimmed && trimmed.length <= MAX_MEAL_DESCRIPTION_LENGTH ? trimmed : null;
+};
+
+// Estimates calories and macros from a free-text meal description
+export async function POST(request: Request) {
+    return handleAiRequest(request, 'meal-estimate', {
+        parse: parseDescription,
+        run: async description => parseMealEstimate(await generateText(buildMealEstimatePrompt(description))),
+    });
+}
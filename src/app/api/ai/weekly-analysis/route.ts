@@ -0,0 +1,12 @@
+import { generateText, handleAiRequest } from '@/lib/aiServer';
+import { buildWeekAnalysisPrompt, parseWeekAnalysisRequest } from '@/lib/weeklyAnalyses';
+
+export const dynamic = 'force-dynamic';
+
+// Summarises a week of activity data, which the browser sends along with the user's review
+export async function POST(request: Request) {
+    return handleAiRequest(request, 'weekly-analysis', {
+        parse: parseWeekAnalysisRequest,
+        run: async input => ({ analysis: await generateText(buildWeekAnalysisPrompt(input)) }),
+    });
+}
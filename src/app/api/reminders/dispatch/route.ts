@@ -0,0 +1,47 @@
+import { createClient } from '@supabase/supabase-js';
+import { dispatchReminders } from '@/lib/reminderDispatch';
+import { createMemoryDelivery } from '@/lib/reminders';
+import { createWebPushDelivery } from '@/lib/webPush';
+
+// node:crypto is needed to sign and encrypt web pushes
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Called every few minutes by the scheduled function in netlify/functions
+export async function POST(request: Request) {
+    const secret = process.env.REMINDER_CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!supabaseUrl || !serviceRoleKey) {
+        return Response.json({ error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' }, { status: 500 });
+    }
+    const client = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+    try {
+        // REMINDER_DELIVERY=memory returns the notifications instead of pushing them, for local development
+        if (process.env.REMINDER_DELIVERY === 'memory') {
+            const delivery = createMemoryDelivery();
+            const result = await dispatchReminders({ client, delivery });
+            return Response.json({ ...result, notifications: delivery.sent });
+        }
+
+        const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+        const privateKey = process.env.VAPID_PRIVATE_KEY;
+        if (!publicKey || !privateKey) {
+            return Response.json({ error: 'VAPID keys are not configured' }, { status: 500 });
+        }
+        const delivery = createWebPushDelivery({
+            publicKey,
+            privateKey,
+            subject: process.env.VAPID_SUBJECT || 'mailto:admin@example.com',
+        });
+        return Response.json(await dispatchReminders({ client, delivery }));
+    } catch (error) {
+        console.error('Failed to dispatch reminders:', error);
+        return Response.json({ error: 'Failed to dispatch reminders' }, { status: 500 });
+    }
+}
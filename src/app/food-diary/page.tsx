@@ -1,27 +1,47 @@
 'use client';
 
 import { Fragment, useEffect, useMemo, useRef, useState } from 'react';
-import { GoogleGenAI } from '@google/genai';
 import type { User } from '@supabase/supabase-js';
 import Link from 'next/link';
 
+import { estimateMeal, MAX_MEAL_DESCRIPTION_LENGTH } from '@/lib/ai';
 import { supabase } from '@/lib/supabase';
 import {
+    addDays,
+    getDateInTimeZone,
+    getTimeInTimeZone,
+    getToday,
+    getWeekDates,
+    getWeekdayLabels,
+    getWeekStartDate,
+    getZonedDayRange,
+    normalizeDateKey,
+    toWeekStartDay,
+    zonedTimeToInstant,
+    type WeekStartDay,
+} from '@/lib/dates';
+import {
+    applyPendingMeals,
     createSavedMeal,
     deleteMeal,
     getDailyTotalsForRange,
     getMealsForRange,
     getSavedMeals,
     getUserPreferences,
+    syncDeviceTimeZone,
     updateSavedMeal,
     type DailyTotals,
     type Meal,
     type MealInput,
     type SavedMeal,
     type UserPreferences,
-    upsertMeal,
 } from '@/lib/meals';
+import { mergeById, subscribeToUserTable } from '@/lib/realtime';
+import { getSyncQueue } from '@/lib/syncQueue';
+import type { AchievementContext } from '@/lib/achievements';
+import AchievementToast, { useAchievements } from '@/components/AchievementToast';
 import SettingsModal from '@/components/SettingsModal';
+import SyncStatusIndicator from '@/components/SyncStatusIndicator';
 
 interface TrendPoint {
     date: string;
@@ -130,12 +150,6 @@ function parseDateInput(value: string): Date {
     return new Date(year ?? 1970, (month ?? 1) - 1, day ?? 1);
 }
 
-function getLocalTimeHHMM(date: Date): string {
-    const hours = String(date.getHours()).padStart(2, '0');
-    const minutes = String(date.getMinutes()).padStart(2, '0');
-    return `${hours}:${minutes}`;
-}
-
 function normalizeTimeInput(value: string): string {
     if (!value) {
         return '00:00';
@@ -186,10 +200,10 @@ function parseNumberInput(value: string): number {
     return Number.isFinite(parsed) ? parsed : NaN;
 }
 
-function formatMealTime(value: string): string {
+function formatMealTime(value: string, timeZone: string | null): string {
     const parsed = new Date(value);
     if (!Number.isNaN(parsed.getTime())) {
-        return getLocalTimeHHMM(parsed);
+        return getTimeInTimeZone(parsed, timeZone);
     }
 
     const match = value.match(/\d{2}:\d{2}/);
@@ -205,20 +219,13 @@ function formatMealTime(value: string): string {
     return normalizeTimeInput(value);
 }
 
-function startOfMonday(date: Date): Date {
-    const monday = new Date(date);
-    const day = monday.getDay();
-    const diff = day === 0 ? -6 : 1 - day;
-    monday.setHours(0, 0, 0, 0);
-    monday.setDate(monday.getDate() + diff);
-    return monday;
-}
-
-function endOfSunday(date: Date): Date {
-    const sunday = new Date(startOfMonday(date));
-    sunday.setDate(sunday.getDate() + 6);
-    sunday.setHours(23, 59, 59, 999);
-    return sunday;
+// The week around a calendar date: meal_time bounds in the user's time zone, plus the dates the trend charts cover
+function getWeekWindow(date: Date, weekStartsOn: WeekStartDay, timeZone: string | null) {
+    const weekStart = getWeekStartDate(date, weekStartsOn);
+    const weekEnd = addDays(weekStart, 6);
+    const { start, end } = getZonedDayRange(weekStart, weekEnd, timeZone);
+    // Trends include the prior 6 weeks
+    return { start, end, trendStart: addDays(weekStart, -42), trendEnd: weekEnd };
 }
 
 const formatDateInput = (date: Date): string => formatDateKey(date);
@@ -230,12 +237,8 @@ function startOfMonth(date: Date): Date {
     return next;
 }
 
-function combineDateAndTime(date: Date, time: string): string {
-    const normalized = normalizeTimeInput(time || '12:00');
-    const [hours, minutes] = normalized.split(':').map(Number);
-    const combined = new Date(date);
-    combined.setHours(hours ?? 0, minutes ?? 0, 0, 0);
-    return combined.toISOString();
+function combineDateAndTime(date: Date, time: string, timeZone: string | null): string {
+    return zonedTimeToInstant(date, normalizeTimeInput(time || '12:00'), timeZone).toISOString();
 }
 
 // Macro colors for consistent styling across graphs and statistics
@@ -245,6 +248,24 @@ const MACRO_COLORS = {
     fats: '#eab308', // Yellow
 } as const;
 
+const toPendingMeal = (userId: string, meal: MealInput & { id: string }): Meal => ({
+    ...meal,
+    user_id: userId,
+    notes: meal.notes ?? null,
+});
+
+const getPendingMeals = async (userId: string, start: Date, end: Date): Promise<Meal[]> => {
+    const pending = await getSyncQueue().getPending();
+    return pending
+        .flatMap(operation =>
+            operation.kind === 'meal' && operation.userId === userId ? [toPendingMeal(userId, operation.meal)] : []
+        )
+        .filter(meal => {
+            const mealTime = new Date(meal.meal_time);
+            return mealTime >= start && mealTime <= end;
+        });
+};
+
 export default function FoodDiaryPage() {
     const [user, setUser] = useState<User | null>(null);
     const [meals, setMeals] = useState<Meal[]>([]);
@@ -253,7 +274,7 @@ export default function FoodDiaryPage() {
     const [isSaving, setIsSaving] = useState(false);
     const [isDeleting, setIsDeleting] = useState<string | null>(null);
     const [selectedDate, setSelectedDate] = useState<Date>(new Date());
-    const [mealTime, setMealTime] = useState<string>(normalizeTimeInput(getLocalTimeHHMM(new Date())));
+    const [mealTime, setMealTime] = useState<string>(normalizeTimeInput(getTimeInTimeZone(new Date())));
     const [mealName, setMealName] = useState('');
     const [calories, setCalories] = useState('');
     const [protein, setProtein] = useState('');
@@ -274,13 +295,21 @@ export default function FoodDiaryPage() {
     const [editingMealId, setEditingMealId] = useState<string | null>(null);
     const [showSettings, setShowSettings] = useState(false);
     const [userPreferences, setUserPreferences] = useState<UserPreferences | null>(null);
+    // Bumped after queued meals reach the server, so the week and its totals are reloaded
+    const [mealsVersion, setMealsVersion] = useState(0);
+
+    const weekStartsOn = toWeekStartDay(userPreferences?.week_start);
+    const timeZone = userPreferences?.timezone ?? null;
+    // Daily totals are grouped on the server, which follows the last device while no zone is chosen
+    const deviceTimeZone = userPreferences?.device_timezone ?? null;
 
+    // Read by the realtime handlers, which stay subscribed while the selected week changes
+    const selectedDateRef = useRef<Date>(selectedDate);
+    const calendarSettingsRef = useRef({ weekStartsOn, timeZone });
     const datePickerRef = useRef<HTMLDivElement | null>(null);
     const timePickerRef = useRef<HTMLDivElement | null>(null);
     const menuRefs = useRef<Record<string, HTMLDivElement | null>>({});
 
-    const ai = new GoogleGenAI({ apiKey: process.env.NEXT_PUBLIC_GEMINI_API_KEY ?? '' });
-
     useEffect(() => {
         supabase.auth.getSession().then(({ data: { session } }) => {
             setUser(session?.user ?? null);
@@ -302,25 +331,37 @@ export default function FoodDiaryPage() {
         const load = async () => {
             setIsLoading(true);
             try {
-                const start = startOfMonday(selectedDate);
-                const end = endOfSunday(selectedDate);
+                const { start, end, trendStart, trendEnd } = getWeekWindow(selectedDate, weekStartsOn, timeZone);
                 const mealsData = await getMealsForRange(user.id, start, end);
+                const dailyTotalsData = await getDailyTotalsForRange(user.id, trendStart, trendEnd);
 
-                const trendStart = new Date(start);
-                trendStart.setDate(trendStart.getDate() - 42); // prior 6 weeks
-                const dailyTotalsData = await getDailyTotalsForRange(user.id, trendStart, end);
-
-                setMeals(mealsData);
+                setMeals(applyPendingMeals(mealsData, await getPendingMeals(user.id, start, end)));
                 setDailyTotals(dailyTotalsData);
             } catch (error) {
                 console.error('Failed to load food diary data:', error);
+                // Offline: still show meals logged on this device that are waiting to sync
+                const { start, end } = getWeekWindow(selectedDate, weekStartsOn, timeZone);
+                const pendingMeals = await getPendingMeals(user.id, start, end);
+                setMeals(pendingMeals);
             } finally {
                 setIsLoading(false);
             }
         };
 
         load();
-    }, [user, selectedDate]);
+    }, [user, selectedDate, mealsVersion, weekStartsOn, timeZone, deviceTimeZone]);
+
+    // Reload once meals queued while offline (or after a failed save) have been replayed
+    useEffect(() => {
+        const queue = getSyncQueue();
+        let hadPendingChanges = queue.getState().status !== 'synced';
+        return queue.subscribe(state => {
+            if (state.status === 'synced' && hadPendingChanges) {
+                setMealsVersion(version => version + 1);
+            }
+            hadPendingChanges = state.status === 'offline' || state.status === 'error';
+        });
+    }, []);
 
     useEffect(() => {
         if (!user) return;
@@ -342,12 +383,14 @@ export default function FoodDiaryPage() {
         if (!user) return;
 
         const loadPreferences = async () => {
+            // getUserPreferences logs its own errors and falls back to null
+            const preferences = await getUserPreferences(user.id);
+            setUserPreferences(preferences);
             try {
-                const preferences = await getUserPreferences(user.id);
-                setUserPreferences(preferences);
+                // While the time zone follows this device, store it so the daily totals use the same days
+                setUserPreferences(await syncDeviceTimeZone(user.id, preferences));
             } catch {
-                // Error is already logged in getUserPreferences, just handle gracefully
-                setUserPreferences(null);
+                // Error is already logged in upsertUserPreferences; the totals keep their previous grouping
             }
         };
 
@@ -356,8 +399,78 @@ export default function FoodDiaryPage() {
 
     useEffect(() => {
         setDatePickerMonth(startOfMonth(selectedDate));
+        selectedDateRef.current = selectedDate;
     }, [selectedDate]);
 
+    useEffect(() => {
+        calendarSettingsRef.current = { weekStartsOn, timeZone };
+    }, [weekStartsOn, timeZone]);
+
+    const getSelectedWeekWindow = () =>
+        getWeekWindow(
+            selectedDateRef.current,
+            calendarSettingsRef.current.weekStartsOn,
+            calendarSettingsRef.current.timeZone
+        );
+
+    // Changes made on other devices are merged in place, without the loading screen that would reset the form
+    useEffect(() => {
+        if (!user) return;
+
+        const refreshDailyTotals = async () => {
+            const { trendStart, trendEnd } = getSelectedWeekWindow();
+            try {
+                setDailyTotals(await getDailyTotalsForRange(user.id, trendStart, trendEnd));
+            } catch (error) {
+                console.error('Failed to refresh daily totals:', error);
+            }
+        };
+
+        const unsubscribeMeals = subscribeToUserTable<Meal>('meals', user.id, async change => {
+            if (change.eventType === 'DELETE') {
+                const mealId = change.old.id;
+                if (!mealId) return;
+                setMeals(prev => prev.filter(meal => meal.id !== mealId));
+                void refreshDailyTotals();
+                return;
+            }
+
+            // A local save of the same meal that hasn't synced yet wins
+            const meal = change.new;
+            const pending = await getSyncQueue().getPending();
+            if (pending.some(operation => operation.kind === 'meal' && operation.meal.id === meal.id)) return;
+
+            const mealTime = new Date(meal.meal_time);
+            const { start, end } = getSelectedWeekWindow();
+            const isInSelectedWeek = mealTime >= start && mealTime <= end;
+            setMeals(prev =>
+                isInSelectedWeek ? applyPendingMeals(prev, [meal]) : prev.filter(existing => existing.id !== meal.id)
+            );
+            void refreshDailyTotals();
+        });
+
+        const unsubscribeSavedMeals = subscribeToUserTable<SavedMeal>('saved_meals', user.id, change => {
+            if (change.eventType === 'DELETE') {
+                const savedMealId = change.old.id;
+                setSavedMeals(prev => prev.filter(meal => meal.id !== savedMealId));
+                return;
+            }
+            setSavedMeals(prev => mergeById(prev, change.new).sort((a, b) => a.meal_name.localeCompare(b.meal_name)));
+        });
+
+        const unsubscribePreferences = subscribeToUserTable<UserPreferences>('user_preferences', user.id, change => {
+            if (change.eventType !== 'DELETE') {
+                setUserPreferences(change.new);
+            }
+        });
+
+        return () => {
+            unsubscribeMeals();
+            unsubscribeSavedMeals();
+            unsubscribePreferences();
+        };
+    }, [user]);
+
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
             if (menuOpenMealId) {
@@ -403,14 +516,14 @@ export default function FoodDiaryPage() {
     const mealsByDay = useMemo(() => {
         const grouped: Record<string, Meal[]> = {};
         meals.forEach(meal => {
-            const day = formatDateKey(new Date(meal.meal_time));
+            const day = formatDateKey(getDateInTimeZone(new Date(meal.meal_time), timeZone));
             if (!grouped[day]) {
                 grouped[day] = [];
             }
             grouped[day].push(meal);
         });
         return grouped;
-    }, [meals]);
+    }, [meals, timeZone]);
 
     const computedTotalsByDay = useMemo(() => {
         const totals: Record<string, DailyTotals> = {};
@@ -445,7 +558,7 @@ export default function FoodDiaryPage() {
     const totalsByDay = useMemo(() => {
         const dictionary: Record<string, DailyTotals> = {};
         dailyTotals.forEach(total => {
-            const key = formatDateKey(new Date(total.meal_day));
+            const key = normalizeDateKey(total.meal_day);
             dictionary[key] = total;
         });
 
@@ -456,23 +569,29 @@ export default function FoodDiaryPage() {
         return dictionary;
     }, [dailyTotals, computedTotalsByDay]);
 
+    const achievementContext = useMemo<AchievementContext>(
+        () => ({
+            today: getToday(timeZone),
+            dailyTotals: Object.values(totalsByDay),
+            preferences: userPreferences,
+        }),
+        [timeZone, totalsByDay, userPreferences]
+    );
+    const achievements = useAchievements(user?.id ?? null, achievementContext);
+
     const selectedDayKey = formatDateKey(selectedDate);
     const totalsForSelectedDay = totalsByDay[selectedDayKey];
 
-    const currentWeek = useMemo(() => {
-        const start = startOfMonday(selectedDate);
-        return Array.from({ length: 7 }, (_v, index) => {
-            const date = new Date(start);
-            date.setDate(start.getDate() + index);
-            return date;
-        });
-    }, [selectedDate]);
+    const currentWeek = useMemo(
+        () => getWeekDates(getWeekStartDate(selectedDate, weekStartsOn)),
+        [selectedDate, weekStartsOn]
+    );
+    const todayKey = formatDateKey(getToday(timeZone));
 
     const weeklyAverages = useMemo(() => {
         // Get the last 7 days (excluding today)
         const last7Days: Date[] = [];
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
+        const today = getToday(timeZone);
         for (let i = 1; i <= 7; i += 1) {
             const date = new Date(today);
             date.setDate(today.getDate() - i);
@@ -515,11 +634,11 @@ export default function FoodDiaryPage() {
             avgCarbs: Math.round(totals.carbs / daysWithData),
             avgFats: Math.round(totals.fats / daysWithData),
         };
-    }, [totalsByDay]);
+    }, [totalsByDay, timeZone]);
 
     const dailyTrend: TrendPoint[] = useMemo(() => {
         const trend = dailyTotals.map(total => ({
-            date: formatDateKey(new Date(total.meal_day)),
+            date: normalizeDateKey(total.meal_day),
             calories: total.total_calories ?? 0,
             protein: total.total_protein ?? 0,
             carbs: total.total_carbs ?? 0,
@@ -567,15 +686,9 @@ export default function FoodDiaryPage() {
     }, [dailyTrend]);
 
     const calendarDays = useMemo(() => {
-        const start = startOfMonday(datePickerMonth);
-        const days: Date[] = [];
-        for (let index = 0; index < 42; index += 1) {
-            const day = new Date(start);
-            day.setDate(start.getDate() + index);
-            days.push(day);
-        }
-        return days;
-    }, [datePickerMonth]);
+        const start = getWeekStartDate(datePickerMonth, weekStartsOn);
+        return Array.from({ length: 42 }, (_v, index) => addDays(start, index));
+    }, [datePickerMonth, weekStartsOn]);
 
     const timeOptions = useMemo(() => {
         const options: string[] = [];
@@ -596,7 +709,7 @@ export default function FoodDiaryPage() {
         setCarbs('');
         setFats('');
         setNotes('');
-        setMealTime(normalizeTimeInput(getLocalTimeHHMM(new Date())));
+        setMealTime(normalizeTimeInput(getTimeInTimeZone(new Date(), timeZone)));
         setMealDescription('');
         setAiEstimateError(null);
         setSelectedSavedMealId('');
@@ -611,9 +724,8 @@ export default function FoodDiaryPage() {
         setCarbs(String(meal.carbs));
         setFats(String(meal.fats));
         setNotes(meal.notes || '');
-        const mealDate = new Date(meal.meal_time);
-        setSelectedDate(mealDate);
-        setMealTime(formatMealTime(meal.meal_time));
+        setSelectedDate(getDateInTimeZone(new Date(meal.meal_time), timeZone));
+        setMealTime(formatMealTime(meal.meal_time, timeZone));
         setMenuOpenMealId(null);
         // Scroll to form
         window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -709,54 +821,23 @@ export default function FoodDiaryPage() {
     const handleAnalyzeMeal = async () => {
         if (!mealDescription.trim()) return;
 
-        if (!process.env.NEXT_PUBLIC_GEMINI_API_KEY) {
-            setAiEstimateError(
-                'Meal analysis requires a Gemini API key. Add NEXT_PUBLIC_GEMINI_API_KEY to enable this feature.'
-            );
-            return;
-        }
-
         setIsAnalyzingMeal(true);
         setAiEstimateError(null);
 
         try {
-            const prompt = `You estimate nutrition facts. Return JSON like {"calories":120, "protein":8, "carbs":15, "fats":4} with whole numbers.
-If data is missing, best-guess typical values. Description: ${mealDescription.trim()}`;
-
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.0-flash-001',
-                contents: prompt,
-            });
-
-            let rawText = response.text ?? '';
-
-            if (!rawText && response.candidates?.length) {
-                const firstCandidate = response.candidates[0];
-                rawText =
-                    firstCandidate.content?.parts
-                        ?.map(part => ('text' in part && typeof part.text === 'string' ? part.text : ''))
-                        .join('') ?? '';
-            }
-
-            const jsonMatch = rawText.match(/\{[\s\S]*\}/);
-            if (!jsonMatch) {
-                throw new Error('Unable to parse AI response');
-            }
-
-            const parsed = JSON.parse(jsonMatch[0]) as Partial<
-                Record<'calories' | 'protein' | 'carbs' | 'fats', unknown>
-            >;
+            const estimate = await estimateMeal(mealDescription.trim());
 
-            const sanitize = (value: unknown) =>
-                typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.round(value) : 0;
-
-            setCalories(String(sanitize(parsed.calories)));
-            setProtein(String(sanitize(parsed.protein)));
-            setCarbs(String(sanitize(parsed.carbs)));
-            setFats(String(sanitize(parsed.fats)));
+            setCalories(String(estimate.calories));
+            setProtein(String(estimate.protein));
+            setCarbs(String(estimate.carbs));
+            setFats(String(estimate.fats));
         } catch (error) {
             console.error('Failed to analyze meal with AI:', error);
-            setAiEstimateError('Unable to analyze the meal description. Please adjust the details and try again.');
+            setAiEstimateError(
+                error instanceof Error && error.message
+                    ? error.message
+                    : 'Unable to analyze the meal description. Please adjust the details and try again.'
+            );
         } finally {
             setIsAnalyzingMeal(false);
         }
@@ -781,8 +862,8 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
         const parsedCarbs = Math.round(parsedCarbsRaw);
         const parsedFats = Math.round(parsedFatsRaw);
 
-        const mealInput: MealInput & { id?: string } = {
-            meal_time: combineDateAndTime(selectedDate, mealTime || '12:00'),
+        const mealInput: MealInput = {
+            meal_time: combineDateAndTime(selectedDate, mealTime || '12:00', timeZone),
             meal_name: mealName.trim(),
             calories: parsedCalories,
             protein: parsedProtein,
@@ -791,20 +872,24 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
             notes: notes.trim() || undefined,
         };
 
-        // If editing, include the meal ID
-        if (editingMealId) {
-            mealInput.id = editingMealId;
-        }
-
         setIsSaving(true);
         try {
-            await upsertMeal(user.id, mealInput);
-            const start = startOfMonday(selectedDate);
-            const end = endOfSunday(selectedDate);
+            // New meals get their id up front, so replaying a queued save can't insert the meal twice
+            const meal = { ...mealInput, id: editingMealId ?? crypto.randomUUID() };
+            const queue = getSyncQueue();
+            await queue.enqueue({ kind: 'meal', userId: user.id, meal });
+
+            const pending = await queue.getPending();
+            if (pending.some(operation => operation.kind === 'meal' && operation.meal.id === meal.id)) {
+                // Not synced yet: show it right away, the totals catch up once the queue is replayed
+                setMeals(prev => applyPendingMeals(prev, [toPendingMeal(user.id, meal)]));
+                resetForm();
+                return;
+            }
+
+            const { start, end, trendStart, trendEnd } = getWeekWindow(selectedDate, weekStartsOn, timeZone);
             const updatedMeals = await getMealsForRange(user.id, start, end);
-            const trendStart = new Date(start);
-            trendStart.setDate(trendStart.getDate() - 42);
-            const updatedTotals = await getDailyTotalsForRange(user.id, trendStart, end);
+            const updatedTotals = await getDailyTotalsForRange(user.id, trendStart, trendEnd);
             setMeals(updatedMeals);
             setDailyTotals(updatedTotals);
             resetForm();
@@ -820,12 +905,9 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
         setIsDeleting(mealId);
         try {
             await deleteMeal(user.id, mealId);
-            const start = startOfMonday(selectedDate);
-            const end = endOfSunday(selectedDate);
+            const { start, end, trendStart, trendEnd } = getWeekWindow(selectedDate, weekStartsOn, timeZone);
             const updatedMeals = await getMealsForRange(user.id, start, end);
-            const trendStart = new Date(start);
-            trendStart.setDate(trendStart.getDate() - 42);
-            const updatedTotals = await getDailyTotalsForRange(user.id, trendStart, end);
+            const updatedTotals = await getDailyTotalsForRange(user.id, trendStart, trendEnd);
             setMeals(updatedMeals);
             setDailyTotals(updatedTotals);
         } catch (error) {
@@ -866,6 +948,7 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
                         </p>
                     </div>
                     <div className='flex flex-col items-start sm:items-end gap-2 w-full sm:w-36'>
+                        <SyncStatusIndicator />
                         <Link
                             href='/'
                             className='w-full text-sm sm:text-base text-slate-300 hover:text-white border border-slate-600 hover:border-slate-400 px-3 py-2 rounded-lg transition-colors flex items-center justify-center gap-2'
@@ -967,7 +1050,7 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
                                             </button>
                                         </div>
                                         <div className='grid grid-cols-7 gap-1 text-center text-xs text-slate-300'>
-                                            {['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].map(weekday => (
+                                            {getWeekdayLabels(weekStartsOn).map(weekday => (
                                                 <div key={weekday} className='py-1'>
                                                     {weekday}
                                                 </div>
@@ -978,7 +1061,7 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
                                                 const dayKey = formatDateKey(day);
                                                 const isCurrentMonth = day.getMonth() === datePickerMonth.getMonth();
                                                 const isSelected = dayKey === formatDateKey(selectedDate);
-                                                const isToday = dayKey === formatDateKey(new Date());
+                                                const isToday = dayKey === todayKey;
 
                                                 let classes =
                                                     'w-full rounded-md px-0 py-2 text-sm font-medium transition-colors flex items-center justify-center';
@@ -1078,6 +1161,7 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
                             <textarea
                                 value={mealDescription}
                                 onChange={event => setMealDescription(event.target.value)}
+                                maxLength={MAX_MEAL_DESCRIPTION_LENGTH}
                                 rows={3}
                                 placeholder='e.g., Grilled salmon with brown rice and steamed broccoli, medium portion'
                                 className='w-full px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white placeholder-slate-400'
@@ -1311,10 +1395,12 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
                                                     return (
                                                         <tr key={meal.id} className='border-t border-slate-600/50'>
                                                             <td className='px-3 py-2 text-slate-200'>
-                                                                {mealDate.toLocaleDateString()}
+                                                                {mealDate.toLocaleDateString(undefined, {
+                                                                    timeZone: timeZone ?? undefined,
+                                                                })}
                                                             </td>
                                                             <td className='px-3 py-2 text-slate-200'>
-                                                                {formatMealTime(meal.meal_time)}
+                                                                {formatMealTime(meal.meal_time, timeZone)}
                                                             </td>
                                                             <td className='px-3 py-2 text-white font-medium'>
                                                                 {meal.meal_name}
@@ -1447,7 +1533,7 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
                                                     ? (point.calories / maxTrendCalories) * chartHeight
                                                     : 0;
                                             const y = topPadding + (chartHeight - height);
-                                            const isToday = formatDateKey(new Date()) === point.date;
+                                            const isToday = todayKey === point.date;
 
                                             return (
                                                 <circle
@@ -1480,7 +1566,7 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
                                 </div>
                                 <div className='flex justify-between mt-3'>
                                     {dailyTrend.map(point => {
-                                        const trendDate = new Date(point.date);
+                                        const trendDate = parseDateInput(point.date);
                                         const label = trendDate.toLocaleDateString(undefined, {
                                             month: 'short',
                                             day: 'numeric',
@@ -1554,7 +1640,7 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
                                                     ? (point.protein / maxTrendProtein) * chartHeight
                                                     : 0;
                                             const y = topPadding + (chartHeight - height);
-                                            const isToday = formatDateKey(new Date()) === point.date;
+                                            const isToday = todayKey === point.date;
 
                                             return (
                                                 <circle
@@ -1587,7 +1673,7 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
                                 </div>
                                 <div className='flex justify-between mt-3'>
                                     {dailyTrend.map(point => {
-                                        const trendDate = new Date(point.date);
+                                        const trendDate = parseDateInput(point.date);
                                         const label = trendDate.toLocaleDateString(undefined, {
                                             month: 'short',
                                             day: 'numeric',
@@ -1655,7 +1741,7 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
                                             const height =
                                                 maxTrendCarbs > 0 ? (point.carbs / maxTrendCarbs) * chartHeight : 0;
                                             const y = topPadding + (chartHeight - height);
-                                            const isToday = formatDateKey(new Date()) === point.date;
+                                            const isToday = todayKey === point.date;
 
                                             return (
                                                 <circle
@@ -1688,7 +1774,7 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
                                 </div>
                                 <div className='flex justify-between mt-3'>
                                     {dailyTrend.map(point => {
-                                        const trendDate = new Date(point.date);
+                                        const trendDate = parseDateInput(point.date);
                                         const label = trendDate.toLocaleDateString(undefined, {
                                             month: 'short',
                                             day: 'numeric',
@@ -1756,7 +1842,7 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
                                             const height =
                                                 maxTrendFats > 0 ? (point.fats / maxTrendFats) * chartHeight : 0;
                                             const y = topPadding + (chartHeight - height);
-                                            const isToday = formatDateKey(new Date()) === point.date;
+                                            const isToday = todayKey === point.date;
 
                                             return (
                                                 <circle
@@ -1789,7 +1875,7 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
                                 </div>
                                 <div className='flex justify-between mt-3'>
                                     {dailyTrend.map(point => {
-                                        const trendDate = new Date(point.date);
+                                        const trendDate = parseDateInput(point.date);
                                         const label = trendDate.toLocaleDateString(undefined, {
                                             month: 'short',
                                             day: 'numeric',
@@ -1820,6 +1906,8 @@ If data is missing, best-guess typical values. Description: ${mealDescription.tr
                     setUserPreferences(preferences);
                 }}
             />
+
+            <AchievementToast achievements={achievements.toasts} onDismiss={achievements.dismissToast} />
         </div>
     );
 }
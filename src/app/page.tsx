@@ -1,21 +1,146 @@
 'use client';
 
 import Link from 'next/link';
-import { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI } from '@google/genai';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Fragment, Suspense, useState, useEffect, useMemo, useRef } from 'react';
 import { supabase } from '@/lib/supabase';
+import { disablePushNotifications } from '@/lib/pushNotifications';
+import {
+    addDays,
+    formatDateKey,
+    formatISOWeekParam,
+    getISOWeekKey,
+    getISOWeekNumber,
+    getToday,
+    getWeekAnchor,
+    getWeekDates,
+    getWeekStartDate,
+    normalizeDateKey,
+    parseDateKey,
+    parseISOWeekParam,
+    toWeekStartDay,
+} from '@/lib/dates';
+import {
+    HABIT_TYPES,
+    MEASUREMENT_TYPES,
+    createActivityRow,
+    formatActivityValue,
+    formatTarget,
+    getDayStatus,
+    getDayValue,
+    getRowColor,
+    getSuccessDays,
+    getTargetProgress,
+    getUnitLabel,
+    isArchived,
+    isAvoidHabit,
+    isQuantitative,
+    isRowScheduledOn,
+    isSkippedOn,
+    rowFromRecord,
+    rowToRecord,
+    setDayNote,
+    setDaySkipped,
+    setDayValue,
+    sumDayValues,
+    type ActivityRow,
+    type ActivityRowRecord,
+    type HabitType,
+    type MeasurementType,
+    type TargetProgress,
+    type TargetStatus,
+} from '@/lib/activities';
+import { formatStreakRange, getActivityStreakStats, getStreakStats, type StreakStats } from '@/lib/streaks';
+import { getRowCompletionRate } from '@/lib/activityStats';
+import { formatSchedule } from '@/lib/schedules';
+import { buildActivityCsv, downloadFile } from '@/lib/export';
+import {
+    applyCompletions,
+    backfillLegacyCompletions,
+    getCompletions,
+    insertCompletions,
+    toCompletionRecords,
+    type ActivityCompletionRecord,
+    type CompletionChange,
+} from '@/lib/completions';
+import { subscribeToUserTable, type TableChange } from '@/lib/realtime';
+import {
+    getGroupNames,
+    getRowSections,
+    moveRowByStep,
+    moveRowNextTo,
+    moveRowToGroup,
+    normalizeGroupName,
+    sortRowsByGroup,
+    type DropPlacement,
+} from '@/lib/rowGroups';
+import { getSyncQueue } from '@/lib/syncQueue';
+import {
+    applyCellEdits,
+    getCellKey,
+    getCellRange,
+    getClearEdits,
+    getCopyLastWeekEdits,
+    getMarkCompleteEdits,
+    getUndoEdits,
+    toCompletionChanges,
+    type AppliedBulkEdit,
+    type CellEdit,
+    type CellRef,
+} from '@/lib/bulkEdits';
+import {
+    getDailyTotalsForRange,
+    getUserPreferences,
+    syncDeviceTimeZone,
+    upsertUserPreferences,
+    type DailyTotals,
+    type UserPreferences,
+} from '@/lib/meals';
+import type { AchievementContext } from '@/lib/achievements';
+import {
+    createRestPeriod,
+    deleteRestPeriod,
+    getRestPeriodOn,
+    getRestPeriods,
+    isRestDay,
+    type RestPeriod,
+    type RestPeriodInput,
+} from '@/lib/restDays';
+import {
+    buildFallbackAnalysis,
+    getWeeklyAnalysis,
+    getWeekStats,
+    requestWeekAnalysis,
+    saveWeeklyAnalysis,
+    type WeekAnalysisInput,
+} from '@/lib/weeklyAnalyses';
+import { getWeekStatus, isWeekLocked, markWeekCompleted, reopenWeek, type WeekStatus } from '@/lib/weekStatus';
+import { getRatingOption, getWeeklyReview, saveWeeklyReview, type WeeklyReview } from '@/lib/weeklyReviews';
+import AchievementToast, { useAchievements } from '@/components/AchievementToast';
+import AchievementsModal from '@/components/AchievementsModal';
+import ActivityIcon from '@/components/ActivityIcon';
+import ActivitySettingsModal, { type ActivitySettings } from '@/components/ActivitySettingsModal';
+import ArchivedActivitiesModal from '@/components/ArchivedActivitiesModal';
+import ColorPicker from '@/components/ColorPicker';
+import EmojiPicker from '@/components/EmojiPicker';
+import NotesModal from '@/components/NotesModal';
+import RemindersModal from '@/components/RemindersModal';
+import RestDaysModal from '@/components/RestDaysModal';
+import SettingsModal from '@/components/SettingsModal';
+import SyncStatusIndicator, { useSyncState } from '@/components/SyncStatusIndicator';
+import WeeklyReviewModal from '@/components/WeeklyReviewModal';
+import YearHeatmap from '@/components/YearHeatmap';
 import AuthForm from '@/components/AuthForm';
 import type { User } from '@supabase/supabase-js';
 
-interface ActivityRow {
-    id: string;
-    name: string;
-    emoji: string;
-    completedDays: string[];
-}
-
 type IconProps = React.SVGProps<SVGSVGElement>;
 
+const TARGET_STATUS_STYLES: Record<TargetStatus, { label: string; className: string }> = {
+    met: { label: 'Target met', className: 'bg-green-500/20 text-green-300' },
+    'on-track': { label: 'On track', className: 'bg-blue-500/20 text-blue-300' },
+    behind: { label: 'Behind', className: 'bg-amber-500/20 text-amber-300' },
+};
+
 function ArrowRightIcon(props: IconProps) {
     return (
         <svg
@@ -33,49 +158,134 @@ function ArrowRightIcon(props: IconProps) {
     );
 }
 
-const formatDateKey = (date: Date): string => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-};
+function XIcon(props: IconProps) {
+    return (
+        <svg
+            viewBox='0 0 24 24'
+            fill='none'
+            stroke='currentColor'
+            strokeWidth='2'
+            strokeLinecap='round'
+            strokeLinejoin='round'
+            {...props}
+        >
+            <path d='M18 6 6 18' />
+            <path d='m6 6 12 12' />
+        </svg>
+    );
+}
 
-const normalizeDateKey = (value: string): string => {
-    if (!value) return value;
-    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
-        return value;
-    }
+// Collapsed groups are a per-device view setting, so they live in localStorage rather than the database
+const COLLAPSED_GROUPS_KEY = 'collapsedActivityGroups';
 
-    const parsed = new Date(value);
-    if (Number.isNaN(parsed.getTime())) {
-        return value;
-    }
+type DropTarget = { kind: 'row'; rowId: string; placement: DropPlacement } | { kind: 'group'; group: string };
 
-    parsed.setHours(0, 0, 0, 0);
-    return formatDateKey(parsed);
-};
+// How many bulk edits can be undone in a row
+const MAX_BULK_EDIT_HISTORY = 20;
 
-export default function Home() {
+const formatDayCount = (count: number): string => `${count} ${count === 1 ? 'day' : 'days'}`;
+
+function ActivityTracker() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
     const [user, setUser] = useState<User | null>(null);
     const [activityRows, setActivityRows] = useState<ActivityRow[]>([]);
-    const [currentWeek, setCurrentWeek] = useState<Date[]>([]);
     const [newRowName, setNewRowName] = useState<string>('');
     const [newRowEmoji, setNewRowEmoji] = useState<string>('🏃');
     const [showAddRow, setShowAddRow] = useState<boolean>(false);
-    const [showEmojiPicker, setShowEmojiPicker] = useState<boolean>(false);
+    const [newRowColor, setNewRowColor] = useState<string | null>(null);
+    const [newRowHabitType, setNewRowHabitType] = useState<HabitType>('build');
+    const [newRowMeasurementType, setNewRowMeasurementType] = useState<MeasurementType>('boolean');
+    const [newRowUnit, setNewRowUnit] = useState<string>('');
+    const [newRowGroup, setNewRowGroup] = useState<string>('');
+    const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
+    const [draggingRowId, setDraggingRowId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+    const [reorderAnnouncement, setReorderAnnouncement] = useState<string>('');
+    // The open cell editor logs a value, gives the reason for a skip, or edits a logged day's note
+    const [editingCell, setEditingCell] = useState<{
+        rowId: string;
+        dateKey: string;
+        mode: 'value' | 'skip' | 'note';
+    } | null>(null);
+    const [editingValue, setEditingValue] = useState<string>('');
+    const [editingNote, setEditingNote] = useState<string>('');
+    // Cells picked for a bulk edit: the corner the selection started from and the one it reaches to
+    const [cellSelection, setCellSelection] = useState<{ anchor: CellRef; focus: CellRef } | null>(null);
+    const [bulkAmount, setBulkAmount] = useState<string>('');
+    // Applied bulk edits, newest last, so they can be undone one after another
+    const [bulkEditHistory, setBulkEditHistory] = useState<AppliedBulkEdit[]>([]);
+    const [trendActivityId, setTrendActivityId] = useState<string>('');
+    const [settingsRowId, setSettingsRowId] = useState<string | null>(null);
+    const [showArchived, setShowArchived] = useState<boolean>(false);
+    const [showRestDays, setShowRestDays] = useState<boolean>(false);
+    const [restPeriods, setRestPeriods] = useState<RestPeriod[]>([]);
+    const [userPreferences, setUserPreferences] = useState<UserPreferences | null>(null);
+    const [showSettings, setShowSettings] = useState<boolean>(false);
+    const [showAchievements, setShowAchievements] = useState<boolean>(false);
+    const [showReminders, setShowReminders] = useState<boolean>(false);
+    const [showNotes, setShowNotes] = useState<boolean>(false);
+    // The last year of food totals, for the food diary achievements
+    const [dailyTotals, setDailyTotals] = useState<DailyTotals[] | undefined>(undefined);
     const [isLoading, setIsLoading] = useState<boolean>(true);
     const [aiAnalysis, setAiAnalysis] = useState<string>('');
     const [isGeneratingAnalysis, setIsGeneratingAnalysis] = useState<boolean>(false);
-    const [weekCompleted, setWeekCompleted] = useState<boolean>(false);
+    const [weekStatus, setWeekStatus] = useState<WeekStatus | null>(null);
+    const [isUpdatingWeekStatus, setIsUpdatingWeekStatus] = useState<boolean>(false);
+    // The week was reopened after its analysis was written, so the analysis may no longer match the data
+    const [isAnalysisStale, setIsAnalysisStale] = useState<boolean>(false);
+    const [weeklyReview, setWeeklyReview] = useState<WeeklyReview | null>(null);
+    const [showWeeklyReview, setShowWeeklyReview] = useState<boolean>(false);
+    // Focus activities picked in the previous week's review
+    const [weekFocusIds, setWeekFocusIds] = useState<string[]>([]);
     const [showAnalysis, setShowAnalysis] = useState(false);
     const [menuOpenRowId, setMenuOpenRowId] = useState<string | null>(null);
     const [needsMigration, setNeedsMigration] = useState<boolean>(false);
     const [isLoadingFromDB, setIsLoadingFromDB] = useState<boolean>(false);
-
-    // Initialize Gemini AI client
-    const ai = new GoogleGenAI({ apiKey: process.env.NEXT_PUBLIC_GEMINI_API_KEY ?? '' });
-
-    const emojiLibrary = ['🏃', '🚶', '🏋️', '🚴', '🏊', '🏒', '⚽', '🎾', '🥏', '⛷️', '🕺', '🧹', '❓'];
+    // Last saved activity_rows record per row id, so the save effect only writes rows that changed
+    const savedRowRecordsRef = useRef<Map<string, string>>(new Map());
+    // Completion id -> cell, since realtime deletes only carry the deleted record's id
+    const completionCellsRef = useRef<Map<string, { activityId: string; dateKey: string }>>(new Map());
+    // Drag handles by row id, so keyboard moves can keep focus on the row that moved
+    const dragHandleRefs = useRef<{ [key: string]: HTMLButtonElement | null }>({});
+    const focusAfterMoveRowIdRef = useRef<string | null>(null);
+    // A press on a cell that may turn into a drag selection, and the last cell clicked as the shift-click anchor
+    const cellDragRef = useRef<{ anchor: CellRef; moved: boolean } | null>(null);
+    const lastClickedCellRef = useRef<CellRef | null>(null);
+    const syncState = useSyncState();
+
+    const freezesPerMonth = userPreferences?.streak_freezes_per_month ?? 0;
+    const weekStartsOn = toWeekStartDay(userPreferences?.week_start);
+    // "Today" follows the stored time zone, so ticks land on the same day on every device
+    const timeZone = userPreferences?.timezone ?? null;
+    const today = getToday(timeZone);
+    const todayKey = formatDateKey(today);
+
+    const achievementContext = useMemo<AchievementContext | null>(
+        () =>
+            isLoadingFromDB
+                ? null
+                : {
+                      today: parseDateKey(todayKey),
+                      rows: activityRows,
+                      restPeriods,
+                      freezesPerMonth,
+                      weekStartsOn,
+                      dailyTotals,
+                      preferences: userPreferences,
+                  },
+        [
+            isLoadingFromDB,
+            todayKey,
+            activityRows,
+            restPeriods,
+            freezesPerMonth,
+            weekStartsOn,
+            dailyTotals,
+            userPreferences,
+        ]
+    );
+    const achievements = useAchievements(user?.id ?? null, achievementContext);
 
     // Check auth session on mount
     useEffect(() => {
@@ -93,33 +303,205 @@ export default function Home() {
         return () => subscription.unsubscribe();
     }, []);
 
-    // Initialize current week dates
     useEffect(() => {
-        const today = new Date();
-        const startOfWeek = new Date(today);
-        startOfWeek.setHours(0, 0, 0, 0);
-        const dayOfWeek = today.getDay();
-        const daysToMonday = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
-        startOfWeek.setDate(today.getDate() + daysToMonday);
-
-        const weekDates = [];
-        for (let i = 0; i < 7; i++) {
-            const date = new Date(startOfWeek);
-            date.setDate(startOfWeek.getDate() + i);
-            weekDates.push(date);
+        try {
+            const saved = JSON.parse(localStorage.getItem(COLLAPSED_GROUPS_KEY) ?? '[]');
+            if (Array.isArray(saved)) setCollapsedGroups(saved.filter(group => typeof group === 'string'));
+        } catch {
+            // Ignore a corrupt value; every group starts expanded
         }
-        setCurrentWeek(weekDates);
     }, []);
 
+    // The selected week lives in the URL (`?week=2026-W42`) so it can be shared and survives reloads
+    const weekParam = searchParams.get('week');
+    const weekStart = useMemo(() => {
+        const parsed = weekParam ? parseISOWeekParam(weekParam) : null;
+        return getWeekStartDate(parsed ?? parseDateKey(todayKey), weekStartsOn);
+    }, [weekParam, weekStartsOn, todayKey]);
+    const currentWeek = useMemo(() => getWeekDates(weekStart), [weekStart]);
+    // Week statuses, reviews and analyses are saved under the ISO week, so changing the week start keeps them
+    const currentWeekKey = getISOWeekKey(weekStart);
+    const isViewingCurrentWeek = formatDateKey(weekStart) === formatDateKey(getWeekStartDate(today, weekStartsOn));
+
+    const goToWeek = (date: Date) => {
+        const target = getWeekStartDate(date, weekStartsOn);
+        if (formatDateKey(target) === formatDateKey(getWeekStartDate(today, weekStartsOn))) {
+            router.replace('/', { scroll: false });
+        } else {
+            router.replace(`/?week=${formatISOWeekParam(getWeekAnchor(target))}`, { scroll: false });
+        }
+    };
+
+    const openWeekOfDate = (date: Date) => {
+        goToWeek(date);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
     // Load activity rows from Supabase when user is logged in
     useEffect(() => {
         if (user) {
             loadActivityRows();
             checkForMigration();
+            loadRestDays();
+            loadDailyTotals();
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [user]);
 
+    // The server rejected a queued tick (e.g. the activity was deleted on another device), so show its copy instead
+    useEffect(() => {
+        if (!user) return;
+        return getSyncQueue().onRejected(operation => {
+            if (operation.kind === 'completion' || operation.kind === 'completions') {
+                loadActivityRowsRef.current();
+            }
+        });
+    }, [user]);
+
+    // Changes made on other devices are merged in as they happen
+    useEffect(() => {
+        if (!user) return;
+
+        const unsubscribeRows = subscribeToUserTable<ActivityRowRecord>('activity_rows', user.id, change => {
+            if (change.eventType === 'DELETE') {
+                const rowId = change.old.id;
+                if (!rowId) return;
+                savedRowRecordsRef.current.delete(rowId);
+                setActivityRows(prev => prev.filter(row => row.id !== rowId));
+                return;
+            }
+            remoteChangeHandlersRef.current.row(change.new);
+        });
+
+        const unsubscribeCompletions = subscribeToUserTable<ActivityCompletionRecord>(
+            'activity_completions',
+            user.id,
+            change => {
+                void remoteChangeHandlersRef.current.completion(change);
+            }
+        );
+
+        const unsubscribePreferences = subscribeToUserTable<UserPreferences>('user_preferences', user.id, change => {
+            if (change.eventType !== 'DELETE') {
+                setUserPreferences(change.new);
+            }
+        });
+
+        return () => {
+            unsubscribeRows();
+            unsubscribeCompletions();
+            unsubscribePreferences();
+        };
+    }, [user]);
+
+    // Rows whose saved record differs only by position are treated as saved, so a remote reorder isn't echoed back
+    const markOrderAsSaved = (rows: ActivityRow[], userId: string) => {
+        rows.forEach((row, index) => {
+            const saved = savedRowRecordsRef.current.get(row.id);
+            if (!saved) return;
+            const record = JSON.stringify(rowToRecord(row, userId, index));
+            if (JSON.stringify({ ...JSON.parse(saved), order_index: index }) === record) {
+                savedRowRecordsRef.current.set(row.id, record);
+            }
+        });
+    };
+
+    const applyRemoteRowRecord = (record: ActivityRowRecord) => {
+        if (!user) return;
+
+        setActivityRows(prev => {
+            const index = prev.findIndex(row => row.id === record.id);
+            const local = index === -1 ? null : prev[index];
+            // Keep local settings that haven't been saved yet; they will overwrite the server copy when they are
+            if (
+                local &&
+                savedRowRecordsRef.current.get(local.id) !== JSON.stringify(rowToRecord(local, user.id, index))
+            ) {
+                return prev;
+            }
+
+            // Completions arrive through their own subscription, so the local ones are kept
+            const incoming = rowFromRecord(record);
+            const merged: ActivityRow = {
+                ...incoming,
+                completedDays: local?.completedDays ?? [],
+                dayValues: local?.dayValues ?? {},
+                skippedDays: local?.skippedDays ?? {},
+                dayNotes: local?.dayNotes ?? {},
+            };
+            const remaining = prev.filter(row => row.id !== record.id);
+            remaining.splice(Math.min(Math.max(record.order_index, 0), remaining.length), 0, merged);
+            const next = sortRowsByGroup(remaining);
+
+            savedRowRecordsRef.current.set(
+                merged.id,
+                JSON.stringify(
+                    rowToRecord(
+                        merged,
+                        user.id,
+                        next.findIndex(row => row.id === merged.id)
+                    )
+                )
+            );
+            markOrderAsSaved(next, user.id);
+            return next;
+        });
+    };
+
+    const applyRemoteCompletion = async (change: TableChange<ActivityCompletionRecord>) => {
+        let cell: { activityId: string; dateKey: string } | undefined;
+        let value: number | null = null;
+        let note: string | null = null;
+        let skipReason: string | null | undefined;
+
+        if (change.eventType === 'DELETE') {
+            const completionId = change.old.id;
+            cell = completionId ? completionCellsRef.current.get(completionId) : undefined;
+            if (!cell || !completionId) return;
+            completionCellsRef.current.delete(completionId);
+        } else {
+            const record = change.new;
+            cell = { activityId: record.activity_id, dateKey: normalizeDateKey(record.completed_on) };
+            if (record.id) completionCellsRef.current.set(record.id, cell);
+            note = record.note ?? null;
+            if (record.status === 'skipped') {
+                skipReason = record.skip_reason ?? null;
+            } else {
+                value = record.value === null ? 1 : Number(record.value);
+            }
+        }
+
+        // A local change to the same cell that hasn't synced yet wins, since it overwrites the server when replayed
+        const pending = await getSyncQueue().getPending();
+        const { activityId, dateKey } = cell;
+        const touchesCell = (change: CompletionChange) =>
+            change.activityId === activityId && change.dateKey === dateKey;
+        if (
+            pending.some(operation =>
+                operation.kind === 'completions'
+                    ? operation.changes.some(touchesCell)
+                    : operation.kind === 'completion' && touchesCell(operation)
+            )
+        ) {
+            return;
+        }
+
+        setActivityRows(prev =>
+            prev.map(row => {
+                if (row.id !== activityId) return row;
+                return skipReason === undefined
+                    ? setDayNote(setDayValue(row, dateKey, value), dateKey, note)
+                    : setDayNote(setDaySkipped(row, dateKey, skipReason), dateKey, note);
+            })
+        );
+    };
+
+    // The realtime subscriptions are set up once per user and call the latest handlers, which see the current state
+    const remoteChangeHandlersRef = useRef({ row: applyRemoteRowRecord, completion: applyRemoteCompletion });
+    useEffect(() => {
+        remoteChangeHandlersRef.current = { row: applyRemoteRowRecord, completion: applyRemoteCompletion };
+    });
+
     const loadActivityRows = async () => {
         if (!user) return;
 
@@ -136,17 +518,86 @@ export default function Home() {
             return;
         }
 
-        setActivityRows(
-            data.map(row => ({
-                id: row.id,
-                name: row.name,
-                emoji: row.emoji,
-                completedDays: (row.completed_days || []).map(normalizeDateKey),
-            }))
+        // Rows of a group are kept together, in case another client saved them apart
+        let rows = sortRowsByGroup((data as ActivityRowRecord[]).map(rowFromRecord));
+        try {
+            // Until the completions table is migrated, the legacy arrays on each row are used as-is
+            await backfillLegacyCompletions(user.id, data as ActivityRowRecord[]);
+            const completions = await getCompletions(user.id);
+            if (completions) {
+                rows = rows.map(row => applyCompletions(row, completions));
+                completionCellsRef.current = new Map(
+                    completions.flatMap(completion =>
+                        completion.id
+                            ? [
+                                  [
+                                      completion.id,
+                                      { activityId: completion.activity_id, dateKey: completion.completed_on },
+                                  ],
+                              ]
+                            : []
+                    )
+                );
+            }
+        } catch (completionsError) {
+            console.error('Error loading activity completions:', completionsError);
+        }
+
+        savedRowRecordsRef.current = new Map(
+            rows.map((row, index) => [row.id, JSON.stringify(rowToRecord(row, user.id, index))])
         );
+        setActivityRows(rows);
         setIsLoadingFromDB(false);
     };
 
+    // Listeners registered once per user call the latest loadActivityRows, which sees the current state
+    const loadActivityRowsRef = useRef(loadActivityRows);
+    useEffect(() => {
+        loadActivityRowsRef.current = loadActivityRows;
+    });
+
+    const loadRestDays = async () => {
+        if (!user) return;
+
+        try {
+            const [periods, preferences] = await Promise.all([getRestPeriods(user.id), getUserPreferences(user.id)]);
+            setRestPeriods(periods);
+            setUserPreferences(preferences);
+            // While the time zone follows this device, store it so server-side day grouping matches this page
+            setUserPreferences(await syncDeviceTimeZone(user.id, preferences));
+        } catch (error) {
+            console.error('Error loading rest days:', error);
+        }
+    };
+
+    const loadDailyTotals = async () => {
+        if (!user) return;
+
+        try {
+            setDailyTotals(await getDailyTotalsForRange(user.id, addDays(today, -365), today));
+        } catch {
+            // Error is already logged in getDailyTotalsForRange; food achievements are checked in the food diary too
+        }
+    };
+
+    const addRestPeriod = async (period: RestPeriodInput) => {
+        if (!user) return;
+        const created = await createRestPeriod(user.id, period);
+        setRestPeriods(prev => [created, ...prev].sort((a, b) => b.startDate.localeCompare(a.startDate)));
+    };
+
+    const removeRestPeriod = async (periodId: string) => {
+        if (!user) return;
+        await deleteRestPeriod(user.id, periodId);
+        setRestPeriods(prev => prev.filter(period => period.id !== periodId));
+    };
+
+    const updateFreezesPerMonth = async (value: number) => {
+        if (!user) return;
+        const saved = await upsertUserPreferences(user.id, { streak_freezes_per_month: value });
+        setUserPreferences(saved);
+    };
+
     const checkForMigration = async () => {
         if (!user) return;
 
@@ -170,30 +621,31 @@ export default function Home() {
 
         try {
             const parsedRows = JSON.parse(savedRows);
-            const validRows = parsedRows.map((row: ActivityRow) => ({
-                id: row.id,
-                name: row.name,
-                emoji: row.emoji,
-                completedDays: row.completedDays || [],
-            }));
+            const validRows: ActivityRow[] = parsedRows.map((row: ActivityRow) =>
+                createActivityRow({
+                    id: row.id,
+                    name: row.name,
+                    emoji: row.emoji,
+                    completedDays: (row.completedDays || []).map(normalizeDateKey),
+                })
+            );
 
             // Migrate each row to Supabase
             for (let i = 0; i < validRows.length; i++) {
                 const row = validRows[i];
-                const { error } = await supabase.from('activity_rows').upsert(
-                    {
-                        id: row.id,
-                        user_id: user.id,
-                        name: row.name,
-                        emoji: row.emoji,
-                        completed_days: row.completedDays,
-                        order_index: i,
-                    },
-                    { onConflict: 'id' }
-                );
+                const { error } = await supabase
+                    .from('activity_rows')
+                    .upsert(rowToRecord(row, user.id, i), { onConflict: 'id' });
 
                 if (error) {
                     console.error('Error migrating row:', error);
+                    continue;
+                }
+
+                try {
+                    await insertCompletions(toCompletionRecords(row, user.id));
+                } catch (completionsError) {
+                    console.error('Error migrating completions:', completionsError);
                 }
             }
 
@@ -227,44 +679,47 @@ export default function Home() {
         }
     };
 
-    // Save activity rows to Supabase
+    // Save row settings, order and groups to Supabase. Completions are written one by one as they change,
+    // so only rows whose record differs from the last saved version are upserted here, in one batched write
     useEffect(() => {
-        console.log('Save effect triggered:', { user: !!user, rowsLength: activityRows.length, isLoadingFromDB });
-        if (user && activityRows.length > 0 && !isLoadingFromDB) {
-            activityRows.forEach(async (row, index) => {
-                try {
-                    console.log('Saving row:', {
-                        id: row.id,
-                        name: row.name,
-                        emoji: row.emoji,
-                        completedDays: row.completedDays,
-                        user_id: user.id,
-                    });
-                    const payload = {
-                        id: row.id,
-                        user_id: user.id,
-                        name: row.name,
-                        emoji: row.emoji,
-                        completed_days: row.completedDays,
-                        order_index: index,
-                    };
-                    console.log('Payload:', JSON.stringify(payload));
-                    const { error, data } = await supabase.from('activity_rows').upsert(payload, { onConflict: 'id' });
-
-                    if (error) {
-                        console.error('Error saving activity row');
-                        console.error('Error object:', error);
-                        console.error('Row being saved:', row);
-                        console.error('Response data:', data);
-                    } else {
-                        console.log('Successfully saved row:', row.id);
-                    }
-                } catch (err) {
-                    console.error('Exception saving activity row:', err);
+        if (!user || isLoadingFromDB) return;
+
+        const changedRecords = activityRows
+            .map((row, index) => rowToRecord(row, user.id, index))
+            .filter(record => savedRowRecordsRef.current.get(record.id) !== JSON.stringify(record));
+        if (changedRecords.length === 0) return;
+
+        changedRecords.forEach(record => savedRowRecordsRef.current.set(record.id, JSON.stringify(record)));
+        supabase
+            .from('activity_rows')
+            .upsert(changedRecords, { onConflict: 'id' })
+            .then(({ error }) => {
+                if (error) {
+                    console.error('Error saving activity rows:', error);
+                    // Forget the failed records so they are retried on the next change or once back online
+                    changedRecords.forEach(record => savedRowRecordsRef.current.delete(record.id));
                 }
             });
-        }
-    }, [activityRows, user, isLoadingFromDB]);
+    }, [activityRows, user, isLoadingFromDB, syncState.status]);
+
+    const activeRows = activityRows.filter(row => !isArchived(row));
+    const archivedRows = activityRows.filter(isArchived);
+    // Ticks on avoid rows are slips, so totals, the overall streak and the all-activities trend only count build rows
+    const buildRows = activityRows.filter(row => !isAvoidHabit(row));
+    const activeBuildRows = activeRows.filter(row => !isAvoidHabit(row));
+    const rowSections = getRowSections(activeRows);
+    const groupNames = getGroupNames(activityRows);
+    // Rows and days the grid shows, in order; a bulk selection spans these
+    const gridRows = rowSections.flatMap(section =>
+        section.group !== null && collapsedGroups.includes(section.group) ? [] : section.rows
+    );
+    const selectableDateKeys = currentWeek.filter(date => date <= today).map(date => formatDateKey(date));
+    const selectedCells = cellSelection
+        ? getCellRange(gridRows, selectableDateKeys, cellSelection.anchor, cellSelection.focus)
+        : [];
+    const selectedCellKeys = new Set(selectedCells.map(getCellKey));
+    const isCurrentWeekLocked = isWeekLocked(weekStatus);
+    const focusRows = activeRows.filter(row => weekFocusIds.includes(row.id));
 
     const isActivityCompleted = (rowId: string, date: Date): boolean => {
         const dateStr = formatDateKey(date);
@@ -273,140 +728,305 @@ export default function Home() {
         return row.completedDays.includes(dateStr);
     };
 
+    // Cells cycle through not done → done → skipped; a new skip opens the editor so a reason can be added.
+    // Avoid rows only toggle a slip, since there's nothing to excuse
     const toggleActivityCompletion = (rowId: string, date: Date) => {
-        const dateStr = formatDateKey(date);
-        setActivityRows(prev => {
-            return prev.map(row => {
-                if (row.id === rowId) {
-                    const isCompleted = row.completedDays.includes(dateStr);
-                    if (isCompleted) {
-                        return {
-                            ...row,
-                            completedDays: row.completedDays.filter(day => day !== dateStr),
-                        };
-                    } else {
-                        return {
-                            ...row,
-                            completedDays: [...row.completedDays, dateStr],
-                        };
-                    }
-                }
-                return row;
+        const row = activityRows.find(row => row.id === rowId);
+        if (!row) return;
+
+        const dateKey = formatDateKey(date);
+        const status = getDayStatus(row, dateKey);
+        if (status === 'done' && !isAvoidHabit(row)) {
+            skipActivityDay(rowId, dateKey, null);
+            setEditingCell({ rowId, dateKey, mode: 'skip' });
+            setEditingValue('');
+            return;
+        }
+        updateActivityValue(rowId, dateKey, status === 'missed' ? 1 : null);
+    };
+
+    // Queued locally first, so ticks made offline are replayed once the connection is back
+    const queueDayChange = (
+        row: ActivityRow,
+        dateKey: string,
+        value: number | null,
+        { note, skipped }: Pick<CompletionChange, 'note' | 'skipped'> = {}
+    ) => {
+        if (!user) return;
+        getSyncQueue()
+            .enqueue({
+                kind: 'completion',
+                userId: user.id,
+                activityId: row.id,
+                measurementType: row.measurementType,
+                dateKey,
+                value,
+                note,
+                skipped,
+            })
+            .catch(() => {
+                loadActivityRows(); // Reload on error
             });
-        });
     };
 
-    const getTotalActivities = (): number => {
-        return activityRows.reduce((total, row) => {
-            return total + (row.completedDays?.length || 0);
-        }, 0);
+    // Without a `note` the day keeps the one it has
+    const updateActivityValue = (rowId: string, dateKey: string, value: number | null, note?: string | null) => {
+        const row = activityRows.find(row => row.id === rowId);
+        if (!row) return;
+
+        const update = (current: ActivityRow) =>
+            setDayNote(
+                setDayValue(current, dateKey, value),
+                dateKey,
+                note === undefined ? (current.dayNotes[dateKey] ?? null) : note
+            );
+        setActivityRows(prev => prev.map(row => (row.id === rowId ? update(row) : row)));
+        queueDayChange(row, dateKey, value, { note: update(row).dayNotes[dateKey] ?? null });
     };
 
-    const getCurrentStreak = (): number => {
-        if (activityRows.length === 0) return 0;
+    const skipActivityDay = (rowId: string, dateKey: string, reason: string | null) => {
+        const row = activityRows.find(row => row.id === rowId);
+        if (!row) return;
+
+        setActivityRows(prev => prev.map(row => (row.id === rowId ? setDaySkipped(row, dateKey, reason) : row)));
+        queueDayChange(row, dateKey, null, { skipped: { reason } });
+    };
+
+    // Applies many cell edits at once and queues them as one batch, so they sync (and fail) together
+    const commitCellEdits = (edits: CellEdit[]) => {
+        if (!user || edits.length === 0) return;
+        setActivityRows(prev => applyCellEdits(prev, edits));
+        getSyncQueue()
+            .enqueue({
+                kind: 'completions',
+                userId: user.id,
+                batchId: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+                changes: toCompletionChanges(activityRows, edits),
+            })
+            .catch(() => {
+                loadActivityRows(); // Reload on error
+            });
+    };
+
+    const applyBulkEdit = (edits: CellEdit[], label: string) => {
+        if (edits.length === 0) return;
+        const undo = getUndoEdits(activityRows, edits);
+        commitCellEdits(edits);
+        setBulkEditHistory(prev => [...prev, { label, undo }].slice(-MAX_BULK_EDIT_HISTORY));
+        setCellSelection(null);
+    };
 
-        const allCompletedDays = activityRows.flatMap(row => row.completedDays || []);
-        if (allCompletedDays.length === 0) return 0;
+    // Completed weeks are read-only, so an edit made before its week was completed can't be undone either
+    const undoBulkEdit = async () => {
+        const lastEdit = bulkEditHistory[bulkEditHistory.length - 1];
+        if (!lastEdit || !user) return;
 
-        const normalizedDates = new Set(allCompletedDays.map(normalizeDateKey));
+        const editWeekKeys = new Set(
+            lastEdit.undo.map(edit => getISOWeekKey(getWeekStartDate(parseDateKey(edit.dateKey), weekStartsOn)))
+        );
+        try {
+            const statuses = await Promise.all(
+                Array.from(editWeekKeys).map(weekKey =>
+                    weekKey === currentWeekKey ? weekStatus : getWeekStatus(user.id, weekKey)
+                )
+            );
+            if (statuses.some(isWeekLocked)) {
+                alert('That week is completed. Reopen it to undo the change.');
+                return;
+            }
+        } catch {
+            alert('Could not undo the change. Please try again.');
+            return;
+        }
 
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
+        commitCellEdits(lastEdit.undo);
+        setBulkEditHistory(prev => prev.slice(0, -1));
+    };
 
-        const hasActivityOn = (date: Date) => normalizedDates.has(formatDateKey(date));
+    // The Ctrl/Cmd+Z listener calls the latest undoBulkEdit, which sees the current history and week status
+    const undoBulkEditRef = useRef(undoBulkEdit);
+    useEffect(() => {
+        undoBulkEditRef.current = undoBulkEdit;
+    });
+
+    // Shift-click extends the selection from where it started, or from the last clicked cell
+    const handleCellClick = (event: React.MouseEvent, cell: CellRef): boolean => {
+        const drag = cellDragRef.current;
+        cellDragRef.current = null;
+        // The press ended a drag selection; keyboard clicks (detail 0) never do
+        if (drag?.moved && event.detail > 0) return true;
+
+        if (event.shiftKey) {
+            setCellSelection(prev => ({ anchor: prev?.anchor ?? lastClickedCellRef.current ?? cell, focus: cell }));
+            return true;
+        }
+        lastClickedCellRef.current = cell;
+        setCellSelection(null);
+        return false;
+    };
 
-        // Streaks must include an activity logged today.
-        if (!hasActivityOn(today)) {
-            return 0;
+    const openValueEditor = (row: ActivityRow, date: Date) => {
+        const dateKey = formatDateKey(date);
+        if (isSkippedOn(row, dateKey)) {
+            setEditingCell({ rowId: row.id, dateKey, mode: 'skip' });
+            setEditingValue(row.skippedDays[dateKey] ?? '');
+            return;
         }
+        const value = getDayValue(row, dateKey);
+        setEditingCell({ rowId: row.id, dateKey, mode: 'value' });
+        setEditingValue(value > 0 ? String(value) : '');
+        setEditingNote(row.dayNotes[dateKey] ?? '');
+    };
 
-        const currentDate = new Date(today);
-        let streak = 0;
-        const maxDaysToCheck = 365; // Prevent infinite loops
+    // Notes belong to logged days, so empty and skipped cells have none to edit
+    const openNoteEditor = (row: ActivityRow, dateKey: string) => {
+        if (getDayStatus(row, dateKey) !== 'done') return;
+        setEditingCell({ rowId: row.id, dateKey, mode: 'note' });
+        setEditingNote(row.dayNotes[dateKey] ?? '');
+    };
 
-        for (let i = 0; i < maxDaysToCheck; i++) {
-            if (hasActivityOn(currentDate)) {
-                streak++;
-                currentDate.setDate(currentDate.getDate() - 1);
-            } else {
-                break;
+    const saveEditingValue = () => {
+        if (!editingCell) return;
+        if (editingCell.mode === 'skip') {
+            skipActivityDay(editingCell.rowId, editingCell.dateKey, editingValue.trim() || null);
+        } else if (editingCell.mode === 'note') {
+            const row = activityRows.find(row => row.id === editingCell.rowId);
+            if (row) {
+                updateActivityValue(row.id, editingCell.dateKey, getDayValue(row, editingCell.dateKey), editingNote);
             }
+        } else {
+            const parsed = Number(editingValue.replace(',', '.').trim());
+            updateActivityValue(
+                editingCell.rowId,
+                editingCell.dateKey,
+                editingValue.trim() ? parsed : null,
+                editingNote
+            );
         }
+        setEditingCell(null);
+    };
 
-        return streak;
+    const getTotalActivities = (): number => {
+        return buildRows.reduce((total, row) => {
+            return total + (row.completedDays?.length || 0);
+        }, 0);
     };
 
-    const getActiveDaysForWeek = (): number => {
-        const allCompletedDays = activityRows.flatMap(row => row.completedDays || []);
-        const uniqueDates = new Set(allCompletedDays.map(normalizeDateKey));
+    const getRowTargetProgress = (row: ActivityRow): TargetProgress | null => {
+        return getTargetProgress(row, currentWeek, today);
+    };
 
-        // Count only days in the current week
-        const weekDates = currentWeek.map(date => formatDateKey(date));
-        const activeDaysInWeek = weekDates.filter(dateStr => uniqueDates.has(dateStr));
+    const getTargetSummaryForWeek = (): { met: string[]; missed: string[] } => {
+        const { targetsMet, targetsMissed } = getWeekStats(activityRows, currentWeek, today);
+        return { met: targetsMet, missed: targetsMissed };
+    };
 
-        return activeDaysInWeek.length;
+    // Switching a row to avoid starts counting clean days from today, not from when the row was created
+    // A row moved to another group goes to the end of that group
+    const updateRowSettings = (rowId: string, settings: ActivitySettings) => {
+        setActivityRows(prev => {
+            const current = prev.find(row => row.id === rowId);
+            const rows =
+                current && current.group !== settings.group ? moveRowToGroup(prev, rowId, settings.group) : prev;
+            return rows.map(row => {
+                if (row.id !== rowId) return row;
+                const trackedSince =
+                    settings.habitType === 'avoid' ? (isAvoidHabit(row) ? row.trackedSince : todayKey) : null;
+                return { ...row, ...settings, trackedSince };
+            });
+        });
     };
 
-    const getTotalActivitiesForDay = (date: Date): number => {
-        const dateStr = formatDateKey(date);
-        return activityRows.reduce((total, row) => {
-            return total + (row.completedDays?.includes(dateStr) ? 1 : 0);
-        }, 0);
+    // A day counts towards the overall streak when any activity was logged on it,
+    // and only days where at least one activity was planned can break it
+    // A row is planned on a day when its schedule includes it, no rest day covers it and it wasn't skipped
+    const isRowPlannedOn = (row: ActivityRow, date: Date): boolean =>
+        isRowScheduledOn(row, date) &&
+        !isRestDay(restPeriods, row.id, formatDateKey(date)) &&
+        !isSkippedOn(row, formatDateKey(date));
+
+    const getCurrentStreak = (): number => {
+        const allCompletedDays = buildRows.flatMap(row => row.completedDays || []);
+        return (
+            getStreakStats(allCompletedDays, today, {
+                isScheduled: date => activeBuildRows.some(row => isRowPlannedOn(row, date)),
+                freezesPerMonth,
+            }).current?.length ?? 0
+        );
     };
 
-    const isToday = (date: Date): boolean => {
-        const today = new Date();
-        return date.toDateString() === today.toDateString();
+    const getRowStreakStats = (row: ActivityRow): StreakStats =>
+        getActivityStreakStats(row, today, {
+            isScheduled: date => isRowPlannedOn(row, date),
+            freezesPerMonth,
+        });
+
+    const getRowCompletionRateForWeek = (row: ActivityRow): number | null =>
+        getRowCompletionRate(row, currentWeek, today, restPeriods);
+
+    // Group subtotal rows pass the group's rows; the Total row counts every active build row
+    const getTotalActivitiesForDay = (date: Date, rows: ActivityRow[] = activeBuildRows): number => {
+        const dateStr = formatDateKey(date);
+        return rows.reduce((total, row) => {
+            return total + (!isAvoidHabit(row) && row.completedDays?.includes(dateStr) ? 1 : 0);
+        }, 0);
     };
 
-    // Weekly trend functions
-    const getWeekStartDate = (date: Date): Date => {
-        const startOfWeek = new Date(date);
-        const dayOfWeek = date.getDay(); // 0 = Sunday, 1 = Monday, etc.
-        const daysToMonday = dayOfWeek === 0 ? -6 : 1 - dayOfWeek; // Convert to Monday start
-        startOfWeek.setDate(date.getDate() + daysToMonday);
-        return startOfWeek;
+    // Quantities can't be added across units, so the Total row reports a sum per unit alongside the count
+    const getUnitTotalsForDays = (dateKeys: string[], rows: ActivityRow[] = activeBuildRows): string[] => {
+        const totals = new Map<string, number>();
+        rows.filter(row => !isAvoidHabit(row) && isQuantitative(row)).forEach(row => {
+            const unit = getUnitLabel(row);
+            totals.set(unit, (totals.get(unit) ?? 0) + sumDayValues(row, dateKeys));
+        });
+        return Array.from(totals.entries())
+            .filter(([, total]) => total > 0)
+            .map(([unit, total]) => `${formatActivityValue(total)} ${unit}`);
     };
 
-    const getWeeklyTrendData = (): { week: string; count: number }[] => {
-        if (activityRows.length === 0) return [];
+    const isToday = (date: Date): boolean => formatDateKey(date) === todayKey;
 
-        // Get all completed dates
-        const allCompletedDays = activityRows.flatMap(row => row.completedDays || []);
-        if (allCompletedDays.length === 0) return [];
+    // Weekly trend functions
+    // Without a row the trend counts completions across all build activities; with one it sums that row's values,
+    // or counts the clean days of an avoid row
+    const getWeeklyTrendData = (row?: ActivityRow): { week: string; count: number }[] => {
+        const rows = row ? [row] : buildRows;
+        if (rows.length === 0) return [];
 
         // Group by week
-        const weekGroups: { [key: string]: string[] } = {};
+        const weekGroups: { [key: string]: number } = {};
 
-        allCompletedDays.forEach(dateStr => {
-            const date = new Date(dateStr);
-            const weekStart = getWeekStartDate(date);
-            const weekKey = formatDateKey(weekStart);
+        rows.forEach(currentRow => {
+            getSuccessDays(currentRow, today).forEach(dateStr => {
+                const weekStart = getWeekStartDate(parseDateKey(dateStr), weekStartsOn);
+                const weekKey = formatDateKey(weekStart);
+                const amount = row && !isAvoidHabit(row) ? getDayValue(currentRow, dateStr) : 1;
 
-            if (!weekGroups[weekKey]) {
-                weekGroups[weekKey] = [];
-            }
-            weekGroups[weekKey].push(dateStr);
+                weekGroups[weekKey] = (weekGroups[weekKey] ?? 0) + amount;
+            });
         });
 
         // Convert to array and sort by week
         const trendData = Object.entries(weekGroups)
-            .map(([week, dates]) => ({
+            .map(([week, count]) => ({
                 week: week,
-                count: dates.length,
+                count: Math.round(count * 10) / 10,
             }))
             .sort((a, b) => a.week.localeCompare(b.week));
 
         return trendData;
     };
 
-    const getMaxWeeklyCount = (): number => {
-        const trendData = getWeeklyTrendData();
+    const getMaxWeeklyCount = (trendData: { week: string; count: number }[]): number => {
         return trendData.length > 0 ? Math.max(...trendData.map(d => d.count)) : 0;
     };
 
+    // Weeks spent entirely on rest days for every activity (e.g. a vacation) don't drag the average down
+    const isRestWeek = (weekKey: string): boolean =>
+        getWeekDates(parseDateKey(weekKey)).every(date => isRestDay(restPeriods, null, formatDateKey(date)));
+
     const getAverageActivitiesPerWeek = (): number => {
-        const weeklyData = getWeeklyTrendData();
+        const weeklyData = getWeeklyTrendData().filter(week => !isRestWeek(week.week));
         if (weeklyData.length === 0) return 0;
 
         const totalActivities = weeklyData.reduce((sum, week) => sum + week.count, 0);
@@ -416,22 +1036,35 @@ export default function Home() {
 
     const addNewActivityRow = () => {
         if (newRowName.trim()) {
-            const newRow: ActivityRow = {
+            // Avoid rows are ticked per slip, so they are always done / not done
+            const measurementType = newRowHabitType === 'avoid' ? 'boolean' : newRowMeasurementType;
+            const newRow = createActivityRow({
                 id: Date.now().toString(),
                 name: newRowName.trim(),
                 emoji: newRowEmoji,
-                completedDays: [],
-            };
-            setActivityRows(prev => [...prev, newRow]);
+                color: newRowColor,
+                habitType: newRowHabitType,
+                trackedSince: newRowHabitType === 'avoid' ? todayKey : null,
+                measurementType,
+                unit: measurementType === 'custom' ? newRowUnit.trim() || null : null,
+                group: normalizeGroupName(newRowGroup),
+            });
+            setActivityRows(prev => sortRowsByGroup([...prev, newRow]));
             setNewRowName('');
+            setNewRowGroup('');
             setNewRowEmoji('🏃');
+            setNewRowColor(null);
+            setNewRowHabitType('build');
+            setNewRowMeasurementType('boolean');
+            setNewRowUnit('');
             setShowAddRow(false);
         }
     };
 
     const deleteActivityRow = async (rowId: string) => {
-        // Allow deleting any activity row (but Total row is not in activityRows)
+        // Permanently removes the row and its history; the grid archives rows instead
         setActivityRows(prev => prev.filter(row => row.id !== rowId));
+        savedRowRecordsRef.current.delete(rowId);
         if (menuOpenRowId === rowId) setMenuOpenRowId(null);
 
         // Delete from Supabase
@@ -445,149 +1078,182 @@ export default function Home() {
         }
     };
 
-    const moveRowUp = (rowId: string) => {
-        setActivityRows(prev => {
-            const index = prev.findIndex(r => r.id === rowId);
-            if (index <= 0) return prev;
-            const newRows = [...prev];
-            const tmp = newRows[index - 1];
-            newRows[index - 1] = newRows[index];
-            newRows[index] = tmp;
-            return newRows;
-        });
-        setMenuOpenRowId(null);
+    // Every reorder goes through here; the save effect then writes all rows whose position or group changed
+    // in a single upsert. Screen readers are told where the row ended up
+    const applyRowOrder = (nextRows: ActivityRow[], rowId: string) => {
+        setActivityRows(nextRows);
+        const visibleRows = nextRows.filter(row => !isArchived(row));
+        const index = visibleRows.findIndex(row => row.id === rowId);
+        const row = visibleRows[index];
+        if (row) {
+            setReorderAnnouncement(
+                `${row.name} moved to position ${index + 1} of ${visibleRows.length}${row.group ? `, in ${row.group}` : ''}`
+            );
+        }
     };
 
-    const moveRowDown = (rowId: string) => {
-        setActivityRows(prev => {
-            const index = prev.findIndex(r => r.id === rowId);
-            if (index === -1 || index >= prev.length - 1) return prev;
-            const newRows = [...prev];
-            const tmp = newRows[index + 1];
-            newRows[index + 1] = newRows[index];
-            newRows[index] = tmp;
-            return newRows;
-        });
+    // Archived rows and rows in collapsed groups keep their place in the list, so moves skip over them to the
+    // next row the grid shows
+    const moveRow = (rowId: string, direction: -1 | 1) => {
+        applyRowOrder(moveRowByStep(activityRows, gridRows, rowId, direction), rowId);
         setMenuOpenRowId(null);
     };
 
-    // Generate AI analysis for the week
-    const generateAIAnalysis = async () => {
-        if (!process.env.NEXT_PUBLIC_GEMINI_API_KEY) {
-            // Fallback analysis if no API key
-            const totalActivities = getTotalActivities();
-            const activeDays = getActiveDaysForWeek();
-            const averagePerWeek = getAverageActivitiesPerWeek();
-            const streak = getCurrentStreak();
+    const moveRowUp = (rowId: string) => moveRow(rowId, -1);
 
-            const fallbackAnalysis = `This week you completed ${totalActivities} activities across ${activeDays} days. Your average is ${averagePerWeek} activities per week. ${
-                streak > 0 ? `You're on a ${streak}-day streak! 🔥` : ''
-            } ${activeDays >= 5 ? 'Great consistency!' : 'Keep building those healthy habits!'}`;
+    const moveRowDown = (rowId: string) => moveRow(rowId, 1);
 
-            setAiAnalysis(fallbackAnalysis);
-            return;
+    const endRowDrag = () => {
+        setDraggingRowId(null);
+        setDropTarget(null);
+    };
+
+    const dropRow = (target: DropTarget) => {
+        if (draggingRowId) {
+            applyRowOrder(
+                target.kind === 'row'
+                    ? moveRowNextTo(activityRows, draggingRowId, target.rowId, target.placement)
+                    : moveRowToGroup(activityRows, draggingRowId, target.group),
+                draggingRowId
+            );
         }
+        endRowDrag();
+    };
 
-        setIsGeneratingAnalysis(true);
+    const toggleGroupCollapsed = (group: string) => {
+        const next = collapsedGroups.includes(group)
+            ? collapsedGroups.filter(collapsed => collapsed !== group)
+            : [...collapsedGroups, group];
+        setCollapsedGroups(next);
+        localStorage.setItem(COLLAPSED_GROUPS_KEY, JSON.stringify(next));
+    };
 
-        try {
-            const weekData = {
-                activities: activityRows.map(row => ({
-                    name: row.name,
-                    emoji: row.emoji,
-                    completedDays: row.completedDays,
-                    totalThisWeek: row.completedDays.length,
-                })),
-                weekStats: {
-                    totalActivities: getTotalActivities(),
-                    activeDays: getActiveDaysForWeek(),
-                    currentStreak: getCurrentStreak(),
-                    averagePerWeek: getAverageActivitiesPerWeek(),
-                },
-                weekRange: `${currentWeek[0]?.toLocaleDateString()} to ${currentWeek[6]?.toLocaleDateString()}`,
-            };
+    const archiveActivityRow = (rowId: string) => {
+        setActivityRows(prev =>
+            prev.map(row => (row.id === rowId ? { ...row, archivedAt: new Date().toISOString() } : row))
+        );
+        if (menuOpenRowId === rowId) setMenuOpenRowId(null);
+    };
 
-            const prompt = `Analyze this week's activity data and provide a brief, motivational summary (2-3 sentences). Focus on patterns, achievements, and encouragement. Be positive and specific about what they accomplished. Data: ${JSON.stringify(weekData)}`;
+    const restoreActivityRow = (rowId: string) => {
+        setActivityRows(prev => prev.map(row => (row.id === rowId ? { ...row, archivedAt: null } : row)));
+    };
 
-            // Use the new Google GenAI SDK
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.0-flash-001',
-                contents: prompt,
-            });
+    const getActivityNames = (rowIds: string[]): string[] =>
+        rowIds.flatMap(rowId => {
+            const row = activityRows.find(candidate => candidate.id === rowId);
+            return row ? [`${row.emoji} ${row.name}`] : [];
+        });
 
-            const analysis = response.text || '';
+    // Generate AI analysis for the week, taking the user's own review of it into account
+    const generateAIAnalysis = async (review: WeeklyReview | null = weeklyReview) => {
+        const input: WeekAnalysisInput = {
+            rows: activityRows,
+            weekDates: currentWeek,
+            today,
+            restPeriods,
+            freezesPerMonth,
+            review,
+            overall: { currentStreak: getCurrentStreak(), averagePerWeek: getAverageActivitiesPerWeek() },
+        };
+        setIsGeneratingAnalysis(true);
+
+        try {
+            const analysis = await requestWeekAnalysis(input);
 
             setAiAnalysis(analysis);
 
             // Cache the analysis in Supabase
-            if (user) {
-                const currentWeekKey = currentWeek[0] ? formatDateKey(currentWeek[0]) : '';
-                if (analysis) {
-                    await supabase.from('weekly_analyses').upsert(
-                        {
-                            user_id: user.id,
-                            week_start: currentWeekKey,
-                            analysis_text: analysis,
-                        },
-                        { onConflict: 'user_id,week_start' }
-                    );
-
-                    // Analysis saved successfully
-                }
+            if (user && analysis) {
+                await saveWeeklyAnalysis(user.id, currentWeekKey, analysis);
+                setIsAnalysisStale(false);
             }
         } catch (error) {
             console.error('Error generating AI analysis:', error);
-            // Fallback to basic analysis
-            const totalActivities = getTotalActivities();
-            const activeDays = getActiveDaysForWeek();
-            const streak = getCurrentStreak();
-            setAiAnalysis(
-                `This week you completed ${totalActivities} activities across ${activeDays} days. ${
-                    streak > 0 ? `You're on a ${streak}-day streak! 🔥 ` : ''
-                }Keep up the great work!`
-            );
+            // Fallback to basic analysis, e.g. when AI isn't configured or the rate limit was reached
+            setAiAnalysis(buildFallbackAnalysis(input));
         } finally {
             setIsGeneratingAnalysis(false);
         }
     };
 
-    // Complete the week and generate analysis
-    const completeWeek = async () => {
-        await generateAIAnalysis();
-        setWeekCompleted(true);
+    // Save the review and lock the week, then generate the analysis from both. Errors are left to the review form
+    const completeWeek = async (review: WeeklyReview) => {
+        if (!user) return;
+
+        setIsUpdatingWeekStatus(true);
+        try {
+            await saveWeeklyReview(user.id, currentWeekKey, review);
+            setWeeklyReview(review);
+            setWeekStatus(await markWeekCompleted(user.id, currentWeekKey));
+        } finally {
+            setIsUpdatingWeekStatus(false);
+        }
+        setEditingCell(null);
+        setCellSelection(null);
+        // Undoing an older bulk edit would change the locked week behind the user's back
+        setBulkEditHistory([]);
+        setShowWeeklyReview(false);
+        setShowAnalysis(true);
+        await generateAIAnalysis(review);
     };
 
-    // Load cached analysis from Supabase on component mount
-    useEffect(() => {
-        if (user) {
-            const currentWeekKey = currentWeek[0] ? formatDateKey(currentWeek[0]) : '';
-            const loadAnalysis = async () => {
-                const { data, error } = await supabase
-                    .from('weekly_analyses')
-                    .select('analysis_text')
-                    .eq('user_id', user.id)
-                    .eq('week_start', currentWeekKey)
-                    .single();
-
-                if (!error && data) {
-                    setAiAnalysis(data.analysis_text);
-                }
-            };
-            loadAnalysis();
+    const reopenCurrentWeek = async () => {
+        if (!user || !weekStatus) return;
+
+        setIsUpdatingWeekStatus(true);
+        try {
+            setWeekStatus(await reopenWeek(user.id, weekStatus));
+            if (aiAnalysis) setIsAnalysisStale(true);
+        } catch {
+            alert('Could not reopen the week. Please try again.');
+        } finally {
+            setIsUpdatingWeekStatus(false);
         }
-    }, [currentWeek, user]);
-
-    // Utility to get ISO week number
-    function getISOWeekNumber(date: Date): number {
-        const tempDate = new Date(date.getTime());
-        tempDate.setHours(0, 0, 0, 0);
-        // Thursday in current week decides the year
-        tempDate.setDate(tempDate.getDate() + 3 - ((tempDate.getDay() + 6) % 7));
-        // January 4 is always in week 1.
-        const week1 = new Date(tempDate.getFullYear(), 0, 4);
-        // Adjust to Thursday in week 1 and count number of weeks from date to week1.
-        return 1 + Math.round(((tempDate.getTime() - week1.getTime()) / 86400000 - 3 + ((week1.getDay() + 6) % 7)) / 7);
-    }
+    };
+
+    // Load the week's status and cached analysis from Supabase whenever the selected week changes
+    useEffect(() => {
+        setAiAnalysis('');
+        setIsAnalysisStale(false);
+        setShowAnalysis(false);
+        setWeekStatus(null);
+        setWeeklyReview(null);
+        setWeekFocusIds([]);
+
+        if (!user) return;
+
+        // Ignore responses for a week the user has already navigated away from
+        let isStale = false;
+        getWeeklyAnalysis(user.id, currentWeekKey)
+            .then(analysis => {
+                if (isStale || !analysis) return;
+                setAiAnalysis(analysis.analysisText ?? '');
+                setIsAnalysisStale(analysis.isStale);
+                setWeeklyReview(analysis.review);
+            })
+            .catch(() => {
+                // Without a cached analysis the week can still be completed to generate one
+            });
+        getWeeklyReview(user.id, formatDateKey(addDays(parseDateKey(currentWeekKey), -7)))
+            .then(review => {
+                if (!isStale) setWeekFocusIds(review?.focusActivityIds ?? []);
+            })
+            .catch(() => {
+                // The focus reminder is optional
+            });
+        getWeekStatus(user.id, currentWeekKey)
+            .then(status => {
+                if (!isStale) setWeekStatus(status);
+            })
+            .catch(() => {
+                // The week stays editable; completing it again saves a fresh status
+            });
+
+        return () => {
+            isStale = true;
+        };
+    }, [currentWeekKey, user]);
 
     const menuRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
     useEffect(() => {
@@ -605,13 +1271,97 @@ export default function Home() {
         }
     }, [menuOpenRowId]);
 
+    // React moves the row's elements when it is reordered, which can drop focus from the drag handle
+    useEffect(() => {
+        const rowId = focusAfterMoveRowIdRef.current;
+        if (!rowId) return;
+        focusAfterMoveRowIdRef.current = null;
+        dragHandleRefs.current[rowId]?.focus();
+    }, [activityRows]);
+
+    const valueEditorRef = useRef<HTMLDivElement | null>(null);
+    useEffect(() => {
+        if (editingCell) {
+            const handleClick = (event: MouseEvent) => {
+                if (valueEditorRef.current && !valueEditorRef.current.contains(event.target as Node)) {
+                    setEditingCell(null);
+                }
+            };
+            document.addEventListener('mousedown', handleClick);
+            return () => {
+                document.removeEventListener('mousedown', handleClick);
+            };
+        }
+    }, [editingCell]);
+
+    // Escape drops the cell selection and Ctrl/Cmd+Z undoes the last bulk edit, unless a form field has focus
+    const hasBulkEditHistory = bulkEditHistory.length > 0;
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if ((event.target as HTMLElement | null)?.closest('input, textarea, select')) return;
+            if (event.key === 'Escape') {
+                setCellSelection(null);
+            } else if ((event.ctrlKey || event.metaKey) && !event.shiftKey && event.key.toLowerCase() === 'z') {
+                if (!hasBulkEditHistory) return;
+                event.preventDefault();
+                void undoBulkEditRef.current();
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [hasBulkEditHistory]);
+
+    // A selection belongs to the week it was made in
+    useEffect(() => {
+        setCellSelection(null);
+    }, [currentWeek]);
+
+    const exportActivities = () => {
+        downloadFile(`activities-${todayKey}.csv`, buildActivityCsv(activityRows));
+    };
+
     const handleLogout = async () => {
+        if (user) {
+            try {
+                await disablePushNotifications(user.id);
+            } catch {
+                // Already logged by disablePushNotifications; a failure shouldn't keep the user signed in
+            }
+        }
         await supabase.auth.signOut();
         setUser(null);
         setActivityRows([]);
         setNeedsMigration(false);
     };
 
+    const parsedBulkAmount = bulkAmount.trim() ? Number(bulkAmount.replace(',', '.')) : null;
+    const markCompleteEdits = getMarkCompleteEdits(
+        activityRows,
+        selectedCells,
+        Number.isFinite(parsedBulkAmount) ? parsedBulkAmount : null
+    );
+    const clearEdits = getClearEdits(activityRows, selectedCells);
+    const copyLastWeekEdits = getCopyLastWeekEdits(activityRows, selectedCells);
+    const hasQuantitativeSelection = gridRows.some(
+        row => isQuantitative(row) && selectedCells.some(cell => cell.rowId === row.id)
+    );
+    const lastBulkEdit = bulkEditHistory[bulkEditHistory.length - 1];
+
+    const targetSummary = getTargetSummaryForWeek();
+    const hasTargets = targetSummary.met.length + targetSummary.missed.length > 0;
+    const trendRow = activityRows.find(row => row.id === trendActivityId);
+    const trendData = getWeeklyTrendData(trendRow);
+    const trendColor = getRowColor(trendRow);
+    const hasTrendData = getWeeklyTrendData().length > 0;
+    const trendUnit =
+        trendRow && isAvoidHabit(trendRow)
+            ? ' clean'
+            : trendRow && isQuantitative(trendRow)
+              ? ` ${getUnitLabel(trendRow)}`
+              : '';
+
     if (isLoading) {
         return (
             <div className='min-h-screen bg-slate-800 flex items-center justify-center'>
@@ -636,6 +1386,7 @@ export default function Home() {
                         <p className='text-white text-sm sm:text-lg'>Track your daily activities and stay motivated!</p>
                     </div>
                     <div className='flex flex-col items-end gap-2 sm:w-36'>
+                        <SyncStatusIndicator />
                         <Link
                             href='/food-diary'
                             className='w-full inline-flex justify-center items-center gap-2 text-sm sm:text-base text-slate-300 hover:text-white border border-slate-600 hover:border-slate-400 px-3 py-2 rounded-lg transition-colors'
@@ -643,6 +1394,55 @@ export default function Home() {
                             <span>Food Diary</span>
                             <ArrowRightIcon className='w-4 h-4' aria-hidden='true' />
                         </Link>
+                        <button
+                            onClick={() => setShowAchievements(true)}
+                            className='self-stretch px-3 py-2 text-slate-400 hover:text-white text-sm transition-colors cursor-pointer border border-transparent rounded-lg flex justify-center'
+                        >
+                            Achievements ({achievements.unlocked.length})
+                        </button>
+                        <button
+                            onClick={() => setShowSettings(true)}
+                            className='self-stretch px-3 py-2 text-slate-400 hover:text-white text-sm transition-colors cursor-pointer border border-transparent rounded-lg flex justify-center'
+                        >
+                            Settings
+                        </button>
+                        <button
+                            onClick={() => setShowNotes(true)}
+                            className='self-stretch px-3 py-2 text-slate-400 hover:text-white text-sm transition-colors cursor-pointer border border-transparent rounded-lg flex justify-center'
+                        >
+                            Notes
+                        </button>
+                        <Link
+                            href='/analyses'
+                            className='self-stretch px-3 py-2 text-slate-400 hover:text-white text-sm transition-colors border border-transparent rounded-lg flex justify-center'
+                        >
+                            Analyses
+                        </Link>
+                        <button
+                            onClick={() => setShowReminders(true)}
+                            className='self-stretch px-3 py-2 text-slate-400 hover:text-white text-sm transition-colors cursor-pointer border border-transparent rounded-lg flex justify-center'
+                        >
+                            Reminders
+                        </button>
+                        <button
+                            onClick={() => setShowRestDays(true)}
+                            className='self-stretch px-3 py-2 text-slate-400 hover:text-white text-sm transition-colors cursor-pointer border border-transparent rounded-lg flex justify-center'
+                        >
+                            Rest days
+                        </button>
+                        <button
+                            onClick={() => setShowArchived(true)}
+                            className='self-stretch px-3 py-2 text-slate-400 hover:text-white text-sm transition-colors cursor-pointer border border-transparent rounded-lg flex justify-center'
+                        >
+                            Archived ({archivedRows.length})
+                        </button>
+                        <button
+                            onClick={exportActivities}
+                            disabled={activityRows.length === 0}
+                            className='self-stretch px-3 py-2 text-slate-400 hover:text-white text-sm transition-colors cursor-pointer border border-transparent rounded-lg flex justify-center disabled:cursor-not-allowed disabled:hover:text-slate-400'
+                        >
+                            Export CSV
+                        </button>
                         <button
                             onClick={handleLogout}
                             className='self-stretch px-3 py-2 text-slate-400 hover:text-white text-sm transition-colors cursor-pointer border border-transparent rounded-lg flex justify-center'
@@ -674,7 +1474,9 @@ export default function Home() {
                 )}
 
                 {/* Statistics */}
-                <div className='grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4 mb-6'>
+                <div
+                    className={`grid grid-cols-1 gap-3 sm:gap-4 mb-6 ${hasTargets ? 'sm:grid-cols-4' : 'sm:grid-cols-3'}`}
+                >
                     <div className='bg-slate-700 rounded-lg p-4 sm:p-6 shadow-md text-center'>
                         <h3 className='text-sm sm:text-lg font-semibold text-white mb-1 sm:mb-2 text-center'>
                             Total Activities
@@ -702,10 +1504,117 @@ export default function Home() {
                             )}
                         </p>
                     </div>
+                    {hasTargets && (
+                        <div
+                            className='bg-slate-700 rounded-lg p-4 sm:p-6 shadow-md text-center'
+                            title={
+                                targetSummary.missed.length > 0
+                                    ? `Not met: ${targetSummary.missed.join(', ')}`
+                                    : undefined
+                            }
+                        >
+                            <h3 className='text-sm sm:text-lg font-semibold text-white mb-1 sm:mb-2 text-center'>
+                                Targets Met
+                            </h3>
+                            <p className='text-2xl sm:text-3xl font-bold text-emerald-400 text-center'>
+                                {targetSummary.met.length}/{targetSummary.met.length + targetSummary.missed.length}
+                            </p>
+                        </div>
+                    )}
                 </div>
 
                 {/* Activity Tracking Grid */}
                 <div className='bg-slate-700 rounded-lg p-3 sm:p-6 mb-6'>
+                    {/* Week Navigation */}
+                    <div className='flex flex-wrap items-center justify-between gap-2 mb-4 sm:mb-6'>
+                        <div className='flex items-center gap-1 sm:gap-2'>
+                            <button
+                                onClick={() => goToWeek(addDays(weekStart, -7))}
+                                className='px-3 py-1 rounded-md text-slate-200 hover:bg-slate-600 cursor-pointer'
+                                aria-label='Previous week'
+                            >
+                                ‹
+                            </button>
+                            <div className='text-center'>
+                                <div className='text-white text-sm sm:text-base font-semibold'>
+                                    Week {getISOWeekNumber(getWeekAnchor(weekStart))}
+                                </div>
+                                <div className='text-slate-300 text-xs'>
+                                    {currentWeek[0]?.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                                    {' – '}
+                                    {currentWeek[6]?.toLocaleDateString('en-US', {
+                                        month: 'short',
+                                        day: 'numeric',
+                                        year: 'numeric',
+                                    })}
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => goToWeek(addDays(weekStart, 7))}
+                                className='px-3 py-1 rounded-md text-slate-200 hover:bg-slate-600 cursor-pointer'
+                                aria-label='Next week'
+                            >
+                                ›
+                            </button>
+                        </div>
+                        <div className='flex items-center gap-2'>
+                            {!isViewingCurrentWeek && (
+                                <button
+                                    onClick={() => goToWeek(today)}
+                                    className='px-3 py-1 text-sm rounded-md border border-slate-500 text-slate-200 hover:text-white hover:border-slate-400 cursor-pointer'
+                                >
+                                    This week
+                                </button>
+                            )}
+                            <input
+                                type='date'
+                                value={formatDateKey(weekStart)}
+                                onChange={event => {
+                                    if (!event.target.value) return;
+                                    goToWeek(parseDateKey(event.target.value));
+                                }}
+                                aria-label='Jump to date'
+                                className='h-8 px-2 border border-slate-600 rounded-md bg-slate-600 text-white text-sm cursor-pointer'
+                            />
+                        </div>
+                    </div>
+
+                    {/* Completed weeks are locked until they're reopened */}
+                    {isCurrentWeekLocked && weekStatus?.completedAt && (
+                        <div className='flex flex-wrap items-center justify-between gap-2 mb-4 sm:mb-6 px-3 py-2 rounded-lg bg-emerald-900/40 border border-emerald-700 text-sm'>
+                            <span className='text-emerald-200'>
+                                🔒 Week completed on{' '}
+                                {new Date(weekStatus.completedAt).toLocaleDateString('en-US', {
+                                    month: 'short',
+                                    day: 'numeric',
+                                })}
+                                . Reopen it to make changes.
+                            </span>
+                            <button
+                                onClick={reopenCurrentWeek}
+                                disabled={isUpdatingWeekStatus}
+                                className='px-3 py-1 rounded-md border border-emerald-600 text-emerald-100 hover:bg-emerald-800/60 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed'
+                            >
+                                Reopen week
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Focus activities picked in last week's review */}
+                    {focusRows.length > 0 && (
+                        <div className='flex flex-wrap items-center gap-2 mb-4 sm:mb-6 text-sm'>
+                            <span className='text-slate-300'>🎯 Focus this week:</span>
+                            {focusRows.map(row => (
+                                <span
+                                    key={row.id}
+                                    className='flex items-center gap-1 px-2 py-0.5 rounded bg-slate-600 text-white'
+                                >
+                                    <ActivityIcon row={row} /> {row.name}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Date Headers */}
                     <div className='grid grid-cols-9 gap-1 sm:gap-2 mb-4 sm:mb-6'>
                         <div></div> {/* Empty cell for emoji column */}
@@ -739,11 +1648,13 @@ export default function Home() {
                         </div>
                         {currentWeek.map((date, index) => {
                             const totalCount = getTotalActivitiesForDay(date);
+                            const unitTotals = getUnitTotalsForDays([formatDateKey(date)]);
                             const isCurrentDay = isToday(date);
 
                             return (
                                 <div key={index} className='flex justify-center'>
                                     <div
+                                        title={unitTotals.length > 0 ? unitTotals.join(' · ') : undefined}
                                         className={`w-8 h-8 sm:w-10 sm:h-10 rounded flex items-center justify-center text-sm sm:text-base font-bold ${
                                             isCurrentDay ? 'bg-slate-500 border-2 border-blue-400' : 'bg-slate-600'
                                         }`}
@@ -756,98 +1667,741 @@ export default function Home() {
                         <div></div> {/* Empty cell for delete button column */}
                     </div>
 
-                    {/* Activity Rows */}
+                    {/* Activity Rows, ungrouped first and then one collapsible section per group */}
+                    <div className='sr-only' aria-live='polite'>
+                        {reorderAnnouncement}
+                    </div>
                     <div className='space-y-4 sm:space-y-6'>
-                        {activityRows.map((row, index) => (
-                            <div key={row.id} className='grid grid-cols-9 gap-1 sm:gap-2 items-center'>
-                                {/* Activity Emoji and Name */}
-                                <div className='flex items-center space-x-1 sm:space-x-2'>
-                                    <span className='text-xl sm:text-2xl'>{row.emoji}</span>
-                                    <span className='text-white text-xs sm:text-sm font-medium hidden sm:block'>
-                                        {row.name}
-                                    </span>
-                                </div>
-
-                                {/* Day Checkboxes */}
-                                {currentWeek.map((date, index) => {
-                                    const isCompleted = isActivityCompleted(row.id, date);
-                                    const isCurrentDay = isToday(date);
-                                    const isFutureDate = date > new Date();
-                                    const isDisabled = isFutureDate;
-
-                                    return (
-                                        <div key={index} className='flex justify-center'>
-                                            <button
-                                                onClick={() => !isDisabled && toggleActivityCompletion(row.id, date)}
-                                                disabled={isDisabled}
-                                                className={`w-8 h-8 sm:w-10 sm:h-10 rounded transition-colors cursor-pointer ${
-                                                    isCompleted
-                                                        ? 'bg-gray-200 hover:bg-gray-300 border-2 border-gray-400'
-                                                        : isCurrentDay
-                                                          ? 'bg-gray-100 hover:bg-gray-200 border-2 border-blue-400'
-                                                          : isDisabled
-                                                            ? 'bg-slate-800 cursor-not-allowed opacity-50'
-                                                            : 'bg-gray-100 hover:bg-gray-200 border border-gray-300'
-                                                }`}
-                                            >
-                                                {isCompleted && (
-                                                    <span className='text-black text-lg sm:text-xl font-bold'>✓</span>
-                                                )}
-                                            </button>
-                                        </div>
-                                    );
-                                })}
-
-                                {/* Delete Button */}
-                                <div className='flex justify-center relative'>
-                                    <button
-                                        onClick={() => setMenuOpenRowId(menuOpenRowId === row.id ? null : row.id)}
-                                        className='text-slate-300 py-2 px-3 hover:text-white text-xl font-bold cursor-pointer'
-                                        aria-haspopup='menu'
-                                        aria-expanded={menuOpenRowId === row.id}
-                                        aria-label='Row options'
-                                    >
-                                        ⋯
-                                    </button>
-                                    {menuOpenRowId === row.id && (
+                        {rowSections.map(section => {
+                            const { group } = section;
+                            const isCollapsed = group !== null && collapsedGroups.includes(group);
+                            return (
+                                <Fragment key={group ?? ''}>
+                                    {/* Group header with the group's subtotals */}
+                                    {group !== null && (
                                         <div
-                                            ref={el => {
-                                                menuRefs.current[row.id] = el;
+                                            onDragOver={event => {
+                                                if (!draggingRowId) return;
+                                                event.preventDefault();
+                                                setDropTarget({ kind: 'group', group });
                                             }}
-                                            className='absolute z-10 mt-1 right-0 bg-slate-800 border border-slate-700 rounded-md shadow-lg w-40 text-sm'
+                                            onDrop={event => {
+                                                event.preventDefault();
+                                                dropRow({ kind: 'group', group });
+                                            }}
+                                            className={`grid grid-cols-9 gap-1 sm:gap-2 items-center pt-2 border-t border-slate-600 rounded ${
+                                                dropTarget?.kind === 'group' && dropTarget.group === group
+                                                    ? 'ring-2 ring-blue-400'
+                                                    : ''
+                                            }`}
                                         >
                                             <button
-                                                className='w-full text-left px-3 py-2 hover:bg-slate-700 text-red-400 hover:text-red-300 cursor-pointer rounded-t-md'
-                                                onClick={() => deleteActivityRow(row.id)}
-                                            >
-                                                Remove
-                                            </button>
-                                            <button
-                                                className={`w-full text-left px-3 py-2 hover:bg-slate-700 text-white cursor-pointer ${index === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
-                                                onClick={() => (index === 0 ? null : moveRowUp(row.id))}
-                                                disabled={index === 0}
-                                            >
-                                                Move up
-                                            </button>
-                                            <button
-                                                className={`w-full text-left px-3 py-2 hover:bg-slate-700 text-white cursor-pointer rounded-b-md ${index === activityRows.length - 1 ? 'opacity-50 cursor-not-allowed' : ''}`}
-                                                onClick={() =>
-                                                    index === activityRows.length - 1 ? null : moveRowDown(row.id)
-                                                }
-                                                disabled={index === activityRows.length - 1}
+                                                onClick={() => toggleGroupCollapsed(group)}
+                                                aria-expanded={!isCollapsed}
+                                                className='flex items-center gap-1 min-w-0 text-left text-slate-200 hover:text-white text-xs sm:text-sm font-semibold cursor-pointer'
                                             >
-                                                Move down
+                                                <span aria-hidden='true'>{isCollapsed ? '▸' : '▾'}</span>
+                                                <span className='truncate'>{group}</span>
+                                                <span className='text-slate-400 font-normal'>
+                                                    ({section.rows.length})
+                                                </span>
                                             </button>
+                                            {currentWeek.map((date, index) => {
+                                                const unitTotals = getUnitTotalsForDays(
+                                                    [formatDateKey(date)],
+                                                    section.rows
+                                                );
+                                                return (
+                                                    <div key={index} className='flex justify-center'>
+                                                        <div
+                                                            title={
+                                                                unitTotals.length > 0
+                                                                    ? unitTotals.join(' · ')
+                                                                    : undefined
+                                                            }
+                                                            className={`w-8 h-6 sm:w-10 rounded flex items-center justify-center text-xs sm:text-sm font-semibold bg-slate-600/60 text-slate-200 ${
+                                                                isToday(date) ? 'ring-1 ring-blue-400' : ''
+                                                            }`}
+                                                        >
+                                                            {getTotalActivitiesForDay(date, section.rows)}
+                                                        </div>
+                                                    </div>
+                                                );
+                                            })}
+                                            <div></div>
                                         </div>
                                     )}
-                                </div>
-                            </div>
-                        ))}
+                                    {!isCollapsed &&
+                                        section.rows.map(row => {
+                                            // Moves step through the rows the grid shows, as in moveRow
+                                            const gridIndex = gridRows.findIndex(gridRow => gridRow.id === row.id);
+                                            const canMoveUp = gridIndex > 0;
+                                            const canMoveDown = gridIndex < gridRows.length - 1;
+                                            return (
+                                                <div
+                                                    key={row.id}
+                                                    onDragOver={event => {
+                                                        if (!draggingRowId || draggingRowId === row.id) return;
+                                                        event.preventDefault();
+                                                        const bounds = event.currentTarget.getBoundingClientRect();
+                                                        const placement =
+                                                            event.clientY < bounds.top + bounds.height / 2
+                                                                ? 'before'
+                                                                : 'after';
+                                                        setDropTarget({ kind: 'row', rowId: row.id, placement });
+                                                    }}
+                                                    onDrop={event => {
+                                                        event.preventDefault();
+                                                        if (dropTarget?.kind === 'row' && dropTarget.rowId === row.id) {
+                                                            dropRow(dropTarget);
+                                                        } else {
+                                                            endRowDrag();
+                                                        }
+                                                    }}
+                                                    className={`grid grid-cols-9 gap-1 sm:gap-2 items-center rounded ${
+                                                        draggingRowId === row.id ? 'opacity-50' : ''
+                                                    } ${
+                                                        dropTarget?.kind === 'row' && dropTarget.rowId === row.id
+                                                            ? dropTarget.placement === 'before'
+                                                                ? 'shadow-[0_-2px_0_0_#60a5fa]'
+                                                                : 'shadow-[0_2px_0_0_#60a5fa]'
+                                                            : ''
+                                                    }`}
+                                                >
+                                                    {/* Activity Emoji and Name */}
+                                                    <div className='flex items-center space-x-1 sm:space-x-2'>
+                                                        {/* Drag handle; the arrow keys move the row too */}
+                                                        <button
+                                                            ref={el => {
+                                                                dragHandleRefs.current[row.id] = el;
+                                                            }}
+                                                            draggable
+                                                            onDragStart={event => {
+                                                                event.dataTransfer.effectAllowed = 'move';
+                                                                event.dataTransfer.setData('text/plain', row.id);
+                                                                const rowElement = event.currentTarget.closest('.grid');
+                                                                if (rowElement)
+                                                                    event.dataTransfer.setDragImage(rowElement, 0, 0);
+                                                                setDraggingRowId(row.id);
+                                                            }}
+                                                            onDragEnd={endRowDrag}
+                                                            onKeyDown={event => {
+                                                                if (
+                                                                    event.key !== 'ArrowUp' &&
+                                                                    event.key !== 'ArrowDown'
+                                                                )
+                                                                    return;
+                                                                event.preventDefault();
+                                                                focusAfterMoveRowIdRef.current = row.id;
+                                                                moveRow(row.id, event.key === 'ArrowUp' ? -1 : 1);
+                                                            }}
+                                                            aria-label={`Reorder ${row.name}`}
+                                                            aria-describedby='reorder-instructions'
+                                                            title='Drag to reorder, or focus and use the arrow keys'
+                                                            className='hidden sm:block text-slate-500 hover:text-slate-200 cursor-grab active:cursor-grabbing px-0.5'
+                                                        >
+                                                            ⠿
+                                                        </button>
+                                                        <ActivityIcon row={row} className='text-xl sm:text-2xl' />
+                                                        <div className='hidden sm:block min-w-0'>
+                                                            <Link
+                                                                href={`/activities/${row.id}`}
+                                                                className='block text-white text-xs sm:text-sm font-medium hover:underline'
+                                                            >
+                                                                {row.name}
+                                                            </Link>
+                                                            {(() => {
+                                                                const targetProgress = getRowTargetProgress(row);
+                                                                if (!targetProgress) return null;
+                                                                const statusStyle =
+                                                                    TARGET_STATUS_STYLES[targetProgress.status];
+                                                                return (
+                                                                    <div
+                                                                        title={`${statusStyle.label} · ${formatTarget(row)}`}
+                                                                        className={`inline-block mt-0.5 px-1.5 rounded text-xs ${statusStyle.className}`}
+                                                                    >
+                                                                        {formatActivityValue(targetProgress.progress)}/
+                                                                        {formatActivityValue(targetProgress.target)}
+                                                                        {row.targetType === 'amount'
+                                                                            ? ` ${getUnitLabel(row)}`
+                                                                            : ''}
+                                                                    </div>
+                                                                );
+                                                            })()}
+                                                            {(() => {
+                                                                const { current, longest } = getRowStreakStats(row);
+                                                                const completionRate = getRowCompletionRateForWeek(row);
+                                                                if (
+                                                                    !longest &&
+                                                                    row.schedule.type === 'daily' &&
+                                                                    !isAvoidHabit(row)
+                                                                ) {
+                                                                    return null;
+                                                                }
+                                                                const title = [
+                                                                    `Planned: ${formatSchedule(row.schedule)}`,
+                                                                    current
+                                                                        ? `Current streak: ${current.length} days (${formatStreakRange(current)})`
+                                                                        : 'No current streak',
+                                                                    longest
+                                                                        ? `Longest streak: ${longest.length} days (${formatStreakRange(longest)})`
+                                                                        : null,
+                                                                    completionRate !== null
+                                                                        ? `Completed ${Math.round(completionRate * 100)}% of planned days this week`
+                                                                        : null,
+                                                                ]
+                                                                    .filter(Boolean)
+                                                                    .join('\n');
+                                                                return (
+                                                                    <div
+                                                                        className='text-slate-300 text-xs'
+                                                                        title={title}
+                                                                    >
+                                                                        🔥 {current?.length ?? 0}
+                                                                        {longest && (
+                                                                            <span className='text-slate-400'>
+                                                                                {' '}
+                                                                                · best {longest.length}
+                                                                            </span>
+                                                                        )}
+                                                                        {isAvoidHabit(row) && (
+                                                                            <span className='text-slate-400'>
+                                                                                {' '}
+                                                                                · avoiding
+                                                                            </span>
+                                                                        )}
+                                                                        {row.schedule.type !== 'daily' && (
+                                                                            <span className='text-slate-400'>
+                                                                                {' '}
+                                                                                · {formatSchedule(row.schedule)}
+                                                                            </span>
+                                                                        )}
+                                                                    </div>
+                                                                );
+                                                            })()}
+                                                            {isQuantitative(row) && (
+                                                                <div className='text-slate-300 text-xs'>
+                                                                    {formatActivityValue(
+                                                                        sumDayValues(
+                                                                            row,
+                                                                            currentWeek.map(date => formatDateKey(date))
+                                                                        )
+                                                                    )}{' '}
+                                                                    {getUnitLabel(row)}
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                    </div>
+
+                                                    {/* Day Checkboxes */}
+                                                    {currentWeek.map((date, index) => {
+                                                        const isCompleted = isActivityCompleted(row.id, date);
+                                                        const isCurrentDay = isToday(date);
+                                                        const isFutureDate = date > today;
+                                                        // Completed weeks are read-only until they're reopened
+                                                        const isDisabled = isFutureDate || isCurrentWeekLocked;
+                                                        const isScheduled = isRowScheduledOn(row, date);
+                                                        const dateKey = formatDateKey(date);
+                                                        const restPeriod = getRestPeriodOn(
+                                                            restPeriods,
+                                                            row.id,
+                                                            dateKey
+                                                        );
+                                                        const isEditing =
+                                                            editingCell?.rowId === row.id &&
+                                                            editingCell.dateKey === dateKey;
+                                                        // Unticked past days of an avoid row are clean; a tick is a slip
+                                                        const isAvoid = isAvoidHabit(row);
+                                                        const isCleanDay =
+                                                            isAvoid &&
+                                                            !isCompleted &&
+                                                            row.trackedSince !== null &&
+                                                            dateKey >= row.trackedSince &&
+                                                            dateKey < todayKey;
+                                                        const isSkipped = isSkippedOn(row, dateKey);
+                                                        const skipReason = row.skippedDays[dateKey] ?? null;
+                                                        const dayNote = isCompleted
+                                                            ? (row.dayNotes[dateKey] ?? null)
+                                                            : null;
+                                                        const isMissed =
+                                                            !isAvoid &&
+                                                            !isCompleted &&
+                                                            !isSkipped &&
+                                                            !restPeriod &&
+                                                            isScheduled &&
+                                                            dateKey < todayKey;
+
+                                                        return (
+                                                            <div key={index} className='flex justify-center relative'>
+                                                                <button
+                                                                    onPointerDown={event => {
+                                                                        if (isDisabled || event.button !== 0) return;
+                                                                        cellDragRef.current = event.shiftKey
+                                                                            ? null
+                                                                            : {
+                                                                                  anchor: { rowId: row.id, dateKey },
+                                                                                  moved: false,
+                                                                              };
+                                                                    }}
+                                                                    onPointerEnter={event => {
+                                                                        const drag = cellDragRef.current;
+                                                                        if (!drag || isDisabled || event.buttons !== 1)
+                                                                            return;
+                                                                        drag.moved = true;
+                                                                        setCellSelection({
+                                                                            anchor: drag.anchor,
+                                                                            focus: { rowId: row.id, dateKey },
+                                                                        });
+                                                                    }}
+                                                                    onContextMenu={event => {
+                                                                        if (!isCompleted || isDisabled) return;
+                                                                        event.preventDefault();
+                                                                        openNoteEditor(row, dateKey);
+                                                                    }}
+                                                                    onKeyDown={event => {
+                                                                        if (
+                                                                            event.key !== 'n' ||
+                                                                            !isCompleted ||
+                                                                            isDisabled
+                                                                        )
+                                                                            return;
+                                                                        event.preventDefault();
+                                                                        openNoteEditor(row, dateKey);
+                                                                    }}
+                                                                    onClick={event => {
+                                                                        if (isDisabled) return;
+                                                                        if (
+                                                                            handleCellClick(event, {
+                                                                                rowId: row.id,
+                                                                                dateKey,
+                                                                            })
+                                                                        )
+                                                                            return;
+                                                                        if (isQuantitative(row)) {
+                                                                            openValueEditor(row, date);
+                                                                        } else {
+                                                                            toggleActivityCompletion(row.id, date);
+                                                                        }
+                                                                    }}
+                                                                    disabled={isDisabled}
+                                                                    className={`w-8 h-8 sm:w-10 sm:h-10 rounded transition-colors cursor-pointer disabled:cursor-not-allowed select-none ${
+                                                                        selectedCellKeys.has(
+                                                                            getCellKey({ rowId: row.id, dateKey })
+                                                                        )
+                                                                            ? 'ring-2 ring-blue-400 ring-offset-2 ring-offset-slate-700'
+                                                                            : ''
+                                                                    } ${
+                                                                        isCompleted && isAvoid
+                                                                            ? 'bg-red-200 hover:bg-red-300 border-2 border-red-400'
+                                                                            : isCompleted
+                                                                              ? 'bg-gray-200 hover:bg-gray-300 border-2 border-gray-400'
+                                                                              : isSkipped
+                                                                                ? 'bg-amber-100 hover:bg-amber-200 border-2 border-amber-400'
+                                                                                : isCurrentDay
+                                                                                  ? 'bg-gray-100 hover:bg-gray-200 border-2 border-blue-400'
+                                                                                  : isFutureDate
+                                                                                    ? 'bg-slate-800 cursor-not-allowed opacity-50'
+                                                                                    : restPeriod
+                                                                                      ? 'bg-sky-900 hover:bg-sky-800 border border-sky-600'
+                                                                                      : !isScheduled
+                                                                                        ? 'bg-slate-500 hover:bg-slate-400 border border-slate-400 opacity-60'
+                                                                                        : 'bg-gray-100 hover:bg-gray-200 border border-gray-300'
+                                                                    }`}
+                                                                    title={
+                                                                        isCompleted
+                                                                            ? `${isAvoid ? 'Slip' : 'Done'}${
+                                                                                  dayNote
+                                                                                      ? `: ${dayNote}`
+                                                                                      : ' · right-click or press N to add a note'
+                                                                              }`
+                                                                            : isCleanDay
+                                                                              ? 'Clean day'
+                                                                              : isSkipped
+                                                                                ? `Skipped${skipReason ? `: ${skipReason}` : ''}`
+                                                                                : isMissed
+                                                                                  ? 'Missed'
+                                                                                  : restPeriod
+                                                                                    ? `Rest day${restPeriod.reason ? `: ${restPeriod.reason}` : ''}`
+                                                                                    : isScheduled
+                                                                                      ? undefined
+                                                                                      : 'Not planned for this day'
+                                                                    }
+                                                                >
+                                                                    {isCleanDay && !restPeriod && (
+                                                                        <span
+                                                                            className='text-green-600/60 text-sm sm:text-base font-bold'
+                                                                            aria-hidden='true'
+                                                                        >
+                                                                            ✓
+                                                                        </span>
+                                                                    )}
+                                                                    {isSkipped && (
+                                                                        <span className='text-amber-700 text-lg sm:text-xl font-bold'>
+                                                                            –
+                                                                        </span>
+                                                                    )}
+                                                                    {!isCompleted &&
+                                                                        !isSkipped &&
+                                                                        restPeriod &&
+                                                                        !isFutureDate && (
+                                                                            <span
+                                                                                className='text-sm sm:text-base'
+                                                                                aria-hidden='true'
+                                                                            >
+                                                                                🌴
+                                                                            </span>
+                                                                        )}
+                                                                    {isCompleted &&
+                                                                        (isAvoid ? (
+                                                                            <span className='text-red-700 text-lg sm:text-xl font-bold'>
+                                                                                ✗
+                                                                            </span>
+                                                                        ) : isQuantitative(row) ? (
+                                                                            <span className='text-black text-xs sm:text-sm font-bold'>
+                                                                                {formatActivityValue(
+                                                                                    getDayValue(row, dateKey)
+                                                                                )}
+                                                                            </span>
+                                                                        ) : (
+                                                                            <span className='text-black text-lg sm:text-xl font-bold'>
+                                                                                ✓
+                                                                            </span>
+                                                                        ))}
+                                                                </button>
+                                                                {/* Note marker, which also opens the note on touch screens */}
+                                                                {dayNote && (
+                                                                    <button
+                                                                        onClick={() => openNoteEditor(row, dateKey)}
+                                                                        disabled={isDisabled}
+                                                                        aria-label={`Note: ${dayNote}`}
+                                                                        title={dayNote}
+                                                                        className='absolute -top-1 left-1/2 ml-2.5 sm:ml-3.5 w-3 h-3 rounded-full bg-blue-400 border-2 border-slate-700 cursor-pointer disabled:cursor-default'
+                                                                    />
+                                                                )}
+                                                                {isEditing && (
+                                                                    <div
+                                                                        ref={valueEditorRef}
+                                                                        className={`absolute top-full z-20 mt-1 ${
+                                                                            editingCell.mode === 'skip'
+                                                                                ? 'w-40'
+                                                                                : 'w-56'
+                                                                        } bg-slate-800 border border-slate-600 rounded-md shadow-lg p-2`}
+                                                                    >
+                                                                        {editingCell.mode === 'note' ? (
+                                                                            <>
+                                                                                <div className='text-slate-300 text-xs mb-1'>
+                                                                                    Note
+                                                                                </div>
+                                                                                <textarea
+                                                                                    value={editingNote}
+                                                                                    onChange={event =>
+                                                                                        setEditingNote(
+                                                                                            event.target.value
+                                                                                        )
+                                                                                    }
+                                                                                    onKeyDown={event => {
+                                                                                        if (
+                                                                                            event.key === 'Enter' &&
+                                                                                            !event.shiftKey
+                                                                                        ) {
+                                                                                            event.preventDefault();
+                                                                                            saveEditingValue();
+                                                                                        }
+                                                                                        if (event.key === 'Escape')
+                                                                                            setEditingCell(null);
+                                                                                    }}
+                                                                                    placeholder='e.g. 5x5 squats at 80 kg'
+                                                                                    rows={3}
+                                                                                    maxLength={500}
+                                                                                    autoFocus
+                                                                                    className='w-full px-2 py-1 mb-2 border border-slate-600 rounded bg-slate-600 text-white text-sm placeholder-slate-400 resize-none'
+                                                                                />
+                                                                            </>
+                                                                        ) : editingCell.mode === 'skip' ? (
+                                                                            <>
+                                                                                <div className='text-slate-300 text-xs mb-1'>
+                                                                                    Skipped
+                                                                                </div>
+                                                                                <input
+                                                                                    type='text'
+                                                                                    value={editingValue}
+                                                                                    onChange={event =>
+                                                                                        setEditingValue(
+                                                                                            event.target.value
+                                                                                        )
+                                                                                    }
+                                                                                    onKeyDown={event => {
+                                                                                        if (event.key === 'Enter')
+                                                                                            saveEditingValue();
+                                                                                        if (event.key === 'Escape')
+                                                                                            setEditingCell(null);
+                                                                                    }}
+                                                                                    placeholder='Reason (optional)'
+                                                                                    maxLength={500}
+                                                                                    autoFocus
+                                                                                    className='w-full h-8 px-2 mb-2 border border-slate-600 rounded bg-slate-600 text-white text-sm placeholder-slate-400'
+                                                                                />
+                                                                            </>
+                                                                        ) : (
+                                                                            <div className='flex items-center gap-1 mb-2'>
+                                                                                <input
+                                                                                    type='number'
+                                                                                    min='0'
+                                                                                    step={
+                                                                                        row.measurementType ===
+                                                                                        'distance'
+                                                                                            ? '0.1'
+                                                                                            : '1'
+                                                                                    }
+                                                                                    value={editingValue}
+                                                                                    onChange={event =>
+                                                                                        setEditingValue(
+                                                                                            event.target.value
+                                                                                        )
+                                                                                    }
+                                                                                    onKeyDown={event => {
+                                                                                        if (event.key === 'Enter')
+                                                                                            saveEditingValue();
+                                                                                        if (event.key === 'Escape')
+                                                                                            setEditingCell(null);
+                                                                                    }}
+                                                                                    autoFocus
+                                                                                    className='w-full h-8 px-2 border border-slate-600 rounded bg-slate-600 text-white text-sm'
+                                                                                />
+                                                                                <span className='text-slate-300 text-xs'>
+                                                                                    {getUnitLabel(row)}
+                                                                                </span>
+                                                                            </div>
+                                                                        )}
+                                                                        {editingCell.mode === 'value' && (
+                                                                            <input
+                                                                                type='text'
+                                                                                value={editingNote}
+                                                                                onChange={event =>
+                                                                                    setEditingNote(event.target.value)
+                                                                                }
+                                                                                onKeyDown={event => {
+                                                                                    if (event.key === 'Enter')
+                                                                                        saveEditingValue();
+                                                                                    if (event.key === 'Escape')
+                                                                                        setEditingCell(null);
+                                                                                }}
+                                                                                placeholder='Note (optional)'
+                                                                                maxLength={500}
+                                                                                aria-label='Note'
+                                                                                className='w-full h-8 px-2 mb-2 border border-slate-600 rounded bg-slate-600 text-white text-sm placeholder-slate-400'
+                                                                            />
+                                                                        )}
+                                                                        <div className='flex gap-1'>
+                                                                            <button
+                                                                                onClick={saveEditingValue}
+                                                                                className='flex-1 px-2 py-1 text-xs bg-blue-500/80 hover:bg-blue-500 text-white rounded cursor-pointer'
+                                                                            >
+                                                                                Save
+                                                                            </button>
+                                                                            {editingCell.mode === 'value' && (
+                                                                                <button
+                                                                                    onClick={() => {
+                                                                                        setEditingCell({
+                                                                                            ...editingCell,
+                                                                                            mode: 'skip',
+                                                                                        });
+                                                                                        setEditingValue('');
+                                                                                    }}
+                                                                                    className='flex-1 px-2 py-1 text-xs bg-amber-600/80 hover:bg-amber-600 text-white rounded cursor-pointer'
+                                                                                >
+                                                                                    Skip
+                                                                                </button>
+                                                                            )}
+                                                                            <button
+                                                                                onClick={() => {
+                                                                                    // In the note editor, Clear removes the note and keeps the day
+                                                                                    updateActivityValue(
+                                                                                        row.id,
+                                                                                        dateKey,
+                                                                                        editingCell.mode === 'note'
+                                                                                            ? getDayValue(row, dateKey)
+                                                                                            : null,
+                                                                                        null
+                                                                                    );
+                                                                                    setEditingCell(null);
+                                                                                }}
+                                                                                className='flex-1 px-2 py-1 text-xs bg-slate-600 hover:bg-slate-500 text-white rounded cursor-pointer'
+                                                                            >
+                                                                                Clear
+                                                                            </button>
+                                                                        </div>
+                                                                    </div>
+                                                                )}
+                                                            </div>
+                                                        );
+                                                    })}
+
+                                                    {/* Delete Button */}
+                                                    <div className='flex justify-center relative'>
+                                                        <button
+                                                            onClick={() =>
+                                                                setMenuOpenRowId(
+                                                                    menuOpenRowId === row.id ? null : row.id
+                                                                )
+                                                            }
+                                                            className='text-slate-300 py-2 px-3 hover:text-white text-xl font-bold cursor-pointer'
+                                                            aria-haspopup='menu'
+                                                            aria-expanded={menuOpenRowId === row.id}
+                                                            aria-label='Row options'
+                                                        >
+                                                            ⋯
+                                                        </button>
+                                                        {menuOpenRowId === row.id && (
+                                                            <div
+                                                                ref={el => {
+                                                                    menuRefs.current[row.id] = el;
+                                                                }}
+                                                                className='absolute z-10 mt-1 right-0 bg-slate-800 border border-slate-700 rounded-md shadow-lg w-40 text-sm'
+                                                            >
+                                                                <button
+                                                                    className='w-full text-left px-3 py-2 hover:bg-slate-700 text-red-400 hover:text-red-300 cursor-pointer rounded-t-md'
+                                                                    onClick={() => archiveActivityRow(row.id)}
+                                                                >
+                                                                    Archive
+                                                                </button>
+                                                                <button
+                                                                    className='w-full text-left px-3 py-2 hover:bg-slate-700 text-white cursor-pointer'
+                                                                    onClick={() => {
+                                                                        setSettingsRowId(row.id);
+                                                                        setMenuOpenRowId(null);
+                                                                    }}
+                                                                >
+                                                                    Settings & group
+                                                                </button>
+                                                                <Link
+                                                                    href={`/activities/${row.id}`}
+                                                                    className='block w-full text-left px-3 py-2 hover:bg-slate-700 text-white cursor-pointer'
+                                                                >
+                                                                    Details
+                                                                </Link>
+                                                                <button
+                                                                    className={`w-full text-left px-3 py-2 hover:bg-slate-700 text-white cursor-pointer ${canMoveUp ? '' : 'opacity-50 cursor-not-allowed'}`}
+                                                                    onClick={() =>
+                                                                        canMoveUp ? moveRowUp(row.id) : null
+                                                                    }
+                                                                    disabled={!canMoveUp}
+                                                                >
+                                                                    Move up
+                                                                </button>
+                                                                <button
+                                                                    className={`w-full text-left px-3 py-2 hover:bg-slate-700 text-white cursor-pointer rounded-b-md ${canMoveDown ? '' : 'opacity-50 cursor-not-allowed'}`}
+                                                                    onClick={() =>
+                                                                        canMoveDown ? moveRowDown(row.id) : null
+                                                                    }
+                                                                    disabled={!canMoveDown}
+                                                                >
+                                                                    Move down
+                                                                </button>
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            );
+                                        })}
+                                </Fragment>
+                            );
+                        })}
                     </div>
+                    <p id='reorder-instructions' className='sr-only'>
+                        Press the up or down arrow key to move the activity. Moving past the first or last row of a
+                        group moves it into the next group.
+                    </p>
+                    {gridRows.length > 0 && (
+                        <p className='hidden sm:block mt-4 text-xs text-slate-400 text-center'>
+                            Drag across days or shift-click to edit several at once.
+                        </p>
+                    )}
                 </div>
 
+                {/* Bulk edit bar for the selected cells, with undo for the last bulk edit */}
+                {(selectedCells.length > 0 || lastBulkEdit) && (
+                    <div
+                        role='toolbar'
+                        aria-label='Bulk edit'
+                        className='fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-3xl bg-slate-900 border border-slate-600 rounded-lg shadow-lg p-3 flex flex-wrap items-center gap-2 text-sm'
+                    >
+                        <span className='text-white font-medium mr-auto' aria-live='polite'>
+                            {selectedCells.length > 0
+                                ? `${formatDayCount(selectedCells.length)} selected`
+                                : lastBulkEdit?.label}
+                        </span>
+                        {selectedCells.length > 0 && (
+                            <>
+                                {hasQuantitativeSelection && (
+                                    <input
+                                        type='number'
+                                        min='0'
+                                        value={bulkAmount}
+                                        onChange={event => setBulkAmount(event.target.value)}
+                                        placeholder='Amount'
+                                        aria-label='Amount for empty days of measured activities'
+                                        title='Logged on empty days of measured activities when marking complete'
+                                        className='w-24 h-8 px-2 border border-slate-600 rounded bg-slate-700 text-white placeholder-slate-400'
+                                    />
+                                )}
+                                <button
+                                    onClick={() =>
+                                        applyBulkEdit(
+                                            markCompleteEdits,
+                                            `Marked ${formatDayCount(markCompleteEdits.length)} complete`
+                                        )
+                                    }
+                                    disabled={markCompleteEdits.length === 0}
+                                    title='Avoid habits are left alone, since a tick logs a slip'
+                                    className='px-3 h-8 rounded bg-blue-600 text-white hover:bg-blue-700 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed'
+                                >
+                                    Mark complete
+                                </button>
+                                <button
+                                    onClick={() =>
+                                        applyBulkEdit(clearEdits, `Cleared ${formatDayCount(clearEdits.length)}`)
+                                    }
+                                    disabled={clearEdits.length === 0}
+                                    className='px-3 h-8 rounded bg-slate-600 text-white hover:bg-slate-500 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed'
+                                >
+                                    Clear
+                                </button>
+                                <button
+                                    onClick={() =>
+                                        applyBulkEdit(
+                                            copyLastWeekEdits,
+                                            `Copied last week's pattern to ${formatDayCount(copyLastWeekEdits.length)}`
+                                        )
+                                    }
+                                    disabled={copyLastWeekEdits.length === 0}
+                                    className='px-3 h-8 rounded bg-slate-600 text-white hover:bg-slate-500 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed'
+                                >
+                                    Copy last week&apos;s pattern
+                                </button>
+                            </>
+                        )}
+                        {lastBulkEdit && (
+                            <button
+                                onClick={undoBulkEdit}
+                                title={`Undo: ${lastBulkEdit.label}`}
+                                className='px-3 h-8 rounded text-blue-300 hover:text-blue-200 cursor-pointer'
+                            >
+                                Undo
+                            </button>
+                        )}
+                        <button
+                            onClick={() => (selectedCells.length > 0 ? setCellSelection(null) : setBulkEditHistory([]))}
+                            aria-label={selectedCells.length > 0 ? 'Clear selection' : 'Dismiss'}
+                            className='px-2 h-8 rounded text-slate-400 hover:text-white cursor-pointer'
+                        >
+                            <XIcon className='w-4 h-4' />
+                        </button>
+                    </div>
+                )}
+
                 {/* No activities message */}
-                {activityRows.length === 0 && (
+                {activeRows.length === 0 && (
                     <div className='text-center mb-4 sm:mb-6 p-4 bg-slate-700 rounded-lg'>
                         <p className='text-slate-300 text-sm sm:text-base'>
                             <strong>Get started:</strong> Add your first activity row below to begin tracking your daily
@@ -868,21 +2422,20 @@ export default function Home() {
                                 <span>+</span>
                             </button>
                             <button
-                                onClick={async () => {
-                                    setShowAnalysis(true);
-                                    await completeWeek();
-                                }}
-                                disabled={isGeneratingAnalysis || weekCompleted}
+                                onClick={() => setShowWeeklyReview(true)}
+                                disabled={isGeneratingAnalysis || isUpdatingWeekStatus || isCurrentWeekLocked}
                                 className='w-full py-3 px-4 bg-sky-500/75 text-white rounded-lg hover:bg-sky-500 transition-colors font-medium flex items-center justify-center cursor-pointer disabled:bg-slate-700 disabled:cursor-not-allowed gap-2'
                             >
                                 <span>
-                                    {weekCompleted
+                                    {isCurrentWeekLocked
                                         ? 'Week completed!'
-                                        : isGeneratingAnalysis
+                                        : isGeneratingAnalysis || isUpdatingWeekStatus
                                           ? 'Completing...'
                                           : 'Complete week'}
                                 </span>
-                                <span>{!isGeneratingAnalysis || weekCompleted ? '✓' : ''}</span>
+                                <span>
+                                    {!(isGeneratingAnalysis || isUpdatingWeekStatus) || isCurrentWeekLocked ? '✓' : ''}
+                                </span>
                             </button>
                         </div>
                     ) : (
@@ -903,33 +2456,72 @@ export default function Home() {
                                 </div>
                                 <div>
                                     <label className='block text-base font-medium text-white mb-2'>Choose emoji</label>
-                                    <div className='relative'>
-                                        <button
-                                            onClick={() => setShowEmojiPicker(!showEmojiPicker)}
-                                            className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white text-left flex items-center justify-between cursor-pointer'
+                                    <EmojiPicker value={newRowEmoji} onChange={setNewRowEmoji} />
+                                </div>
+                                <div>
+                                    <label className='block text-base font-medium text-white mb-2'>Habit type</label>
+                                    <select
+                                        value={newRowHabitType}
+                                        onChange={e => setNewRowHabitType(e.target.value as HabitType)}
+                                        className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white cursor-pointer'
+                                    >
+                                        {HABIT_TYPES.map(type => (
+                                            <option key={type.value} value={type.value}>
+                                                {type.label}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {newRowHabitType === 'build' && (
+                                    <div>
+                                        <label className='block text-base font-medium text-white mb-2'>
+                                            Measure by
+                                        </label>
+                                        <select
+                                            value={newRowMeasurementType}
+                                            onChange={e => setNewRowMeasurementType(e.target.value as MeasurementType)}
+                                            className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white cursor-pointer'
                                         >
-                                            <span className='text-2xl'>{newRowEmoji}</span>
-                                            <span>▼</span>
-                                        </button>
-                                        {showEmojiPicker && (
-                                            <div className='absolute top-full left-0 right-0 mt-1 bg-slate-600 border border-slate-500 rounded-lg p-2 z-50 max-h-60 overflow-y-auto cursor-pointer'>
-                                                <div className='grid grid-cols-5 gap-2'>
-                                                    {emojiLibrary.map(emoji => (
-                                                        <button
-                                                            key={emoji}
-                                                            onClick={() => {
-                                                                setNewRowEmoji(emoji);
-                                                                setShowEmojiPicker(false);
-                                                            }}
-                                                            className='p-2 hover:bg-slate-500 rounded text-2xl cursor-pointer'
-                                                        >
-                                                            {emoji}
-                                                        </button>
-                                                    ))}
-                                                </div>
-                                            </div>
-                                        )}
+                                            {MEASUREMENT_TYPES.map(type => (
+                                                <option key={type.value} value={type.value}>
+                                                    {type.label}
+                                                    {type.defaultUnit ? ` (${type.defaultUnit})` : ''}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                )}
+                                {newRowHabitType === 'build' && newRowMeasurementType === 'custom' && (
+                                    <div>
+                                        <label className='block text-base font-medium text-white mb-2'>Unit</label>
+                                        <input
+                                            type='text'
+                                            value={newRowUnit}
+                                            onChange={e => setNewRowUnit(e.target.value)}
+                                            placeholder='pages, glasses, reps...'
+                                            className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-slate-600 text-white placeholder-slate-400'
+                                        />
                                     </div>
+                                )}
+                                <div>
+                                    <label className='block text-base font-medium text-white mb-2'>Group</label>
+                                    <input
+                                        type='text'
+                                        value={newRowGroup}
+                                        onChange={e => setNewRowGroup(e.target.value)}
+                                        list='new-row-groups'
+                                        placeholder='Optional, e.g. Health'
+                                        className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-slate-600 text-white placeholder-slate-400'
+                                    />
+                                    <datalist id='new-row-groups'>
+                                        {groupNames.map(name => (
+                                            <option key={name} value={name} />
+                                        ))}
+                                    </datalist>
+                                </div>
+                                <div>
+                                    <label className='block text-base font-medium text-white mb-2'>Color</label>
+                                    <ColorPicker value={newRowColor} onChange={setNewRowColor} />
                                 </div>
                             </div>
                             <div className='flex gap-2'>
@@ -945,7 +2537,11 @@ export default function Home() {
                                         setShowAddRow(false);
                                         setNewRowName('');
                                         setNewRowEmoji('🏃');
-                                        setShowEmojiPicker(false);
+                                        setNewRowColor(null);
+                                        setNewRowHabitType('build');
+                                        setNewRowMeasurementType('boolean');
+                                        setNewRowUnit('');
+                                        setNewRowGroup('');
                                     }}
                                     className='px-4 py-2 bg-slate-500 text-white rounded-lg hover:bg-slate-400 transition-colors cursor-pointer'
                                 >
@@ -957,13 +2553,42 @@ export default function Home() {
                 </div>
 
                 {/* Weekly Trend Section */}
-                {getWeeklyTrendData().length > 0 && (
+                {hasTrendData && (
                     <div className='bg-slate-700 rounded-lg p-4 sm:p-6 mb-6'>
-                        <h3 className='text-lg font-semibold text-white mb-4 flex items-center'>📈 Activity Trend</h3>
+                        <div className='flex flex-wrap items-center justify-between gap-2 mb-4'>
+                            <h3 className='text-lg font-semibold text-white flex items-center'>📈 Activity Trend</h3>
+                            <select
+                                value={trendActivityId}
+                                onChange={event => setTrendActivityId(event.target.value)}
+                                aria-label='Trend activity'
+                                className='h-8 px-2 border border-slate-600 rounded-md bg-slate-600 text-white text-sm cursor-pointer'
+                            >
+                                <option value=''>All activities</option>
+                                {activityRows.map(row => (
+                                    <option key={row.id} value={row.id}>
+                                        {row.emoji} {row.name}
+                                        {isQuantitative(row) ? ` (${getUnitLabel(row)})` : ''}
+                                        {isAvoidHabit(row) ? ' (clean days)' : ''}
+                                        {isArchived(row) ? ' · archived' : ''}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
 
                         <div className='space-y-4'>
                             {/* Combined Bar Chart + Line Graph */}
                             <div className='bg-slate-800 rounded-lg pb-2'>
+                                {/* Legend */}
+                                <div className='flex items-center gap-2 px-3 pt-2 text-xs text-slate-300'>
+                                    <span className='w-3 h-3 rounded-full' style={{ backgroundColor: trendColor }} />
+                                    {trendRow ? (
+                                        <span className='flex items-center gap-1'>
+                                            <ActivityIcon row={trendRow} /> {trendRow.name}
+                                        </span>
+                                    ) : (
+                                        <span>All activities</span>
+                                    )}
+                                </div>
                                 {/* Chart Area */}
                                 <div className='relative h-32 sm:h-40'>
                                     {/* Line Graph */}
@@ -971,11 +2596,11 @@ export default function Home() {
                                         className='absolute inset-0 w-full h-full'
                                         style={{ zIndex: 10, overflow: 'visible' }}
                                     >
-                                        {getWeeklyTrendData().map((data, index) => {
+                                        {trendData.map((data, index) => {
                                             if (index === 0) return null;
 
-                                            const maxCount = getMaxWeeklyCount();
-                                            const prevData = getWeeklyTrendData()[index - 1];
+                                            const maxCount = getMaxWeeklyCount(trendData);
+                                            const prevData = trendData[index - 1];
 
                                             // Account for padding: use 85% of height for chart, 10% top padding, 5% bottom padding
                                             const chartHeight = 85;
@@ -986,7 +2611,7 @@ export default function Home() {
                                             const currentHeight =
                                                 maxCount > 0 ? (data.count / maxCount) * chartHeight : 0;
 
-                                            const barWidth = 100 / getWeeklyTrendData().length;
+                                            const barWidth = 100 / trendData.length;
                                             const prevX = (index - 1) * barWidth + barWidth / 2;
                                             const currentX = index * barWidth + barWidth / 2;
 
@@ -1001,7 +2626,7 @@ export default function Home() {
                                                     y1={`${prevY}%`}
                                                     x2={`${currentX}%`}
                                                     y2={`${currentY}%`}
-                                                    stroke='#A020F0'
+                                                    stroke={trendColor}
                                                     strokeWidth='3'
                                                     strokeLinecap='round'
                                                 />
@@ -1009,14 +2634,14 @@ export default function Home() {
                                         })}
 
                                         {/* Data points */}
-                                        {getWeeklyTrendData().map((data, index) => {
-                                            const maxCount = getMaxWeeklyCount();
+                                        {trendData.map((data, index) => {
+                                            const maxCount = getMaxWeeklyCount(trendData);
                                             // Account for padding: use 85% of height for chart, 10% top padding, 5% bottom padding
                                             const chartHeight = 85;
                                             const topPadding = 10;
 
                                             const height = maxCount > 0 ? (data.count / maxCount) * chartHeight : 0;
-                                            const barWidth = 100 / getWeeklyTrendData().length;
+                                            const barWidth = 100 / trendData.length;
                                             const x = index * barWidth + barWidth / 2;
                                             // Y position with padding: invert and add top padding
                                             const y = topPadding + (chartHeight - height);
@@ -1027,7 +2652,7 @@ export default function Home() {
                                                     cx={`${x}%`}
                                                     cy={`${y}%`}
                                                     r='4'
-                                                    fill='#A020F0'
+                                                    fill={trendColor}
                                                     stroke='#1e293b'
                                                     strokeWidth='2'
                                                 />
@@ -1038,15 +2663,18 @@ export default function Home() {
 
                                 {/* Labels below chart */}
                                 <div className='flex justify-between mt-3'>
-                                    {getWeeklyTrendData().map(data => {
-                                        const weekDate = new Date(data.week);
-                                        const weekLabel = `Week ${getISOWeekNumber(weekDate)}`;
+                                    {trendData.map(data => {
+                                        const weekDate = parseDateKey(data.week);
+                                        const weekLabel = `Week ${getISOWeekNumber(getWeekAnchor(weekDate))}`;
                                         return (
                                             <div
                                                 key={data.week}
                                                 className='flex flex-col items-center flex-1 text-center'
                                             >
-                                                <div className='text-xs font-medium text-white mb-1'>{data.count}</div>
+                                                <div className='text-xs font-medium text-white mb-1'>
+                                                    {formatActivityValue(data.count)}
+                                                    {trendUnit}
+                                                </div>
                                                 <div className='text-xs text-slate-300'>{weekLabel}</div>
                                             </div>
                                         );
@@ -1059,19 +2687,19 @@ export default function Home() {
                                 <div className='bg-slate-800 rounded-lg p-3 sm:col-span-1 col-span-2'>
                                     <div className='text-sm text-slate-300'>Average / week</div>
                                     <div className='text-lg font-bold text-blue-400'>
-                                        {getWeeklyTrendData().length > 0
+                                        {trendData.length > 0
                                             ? Math.round(
-                                                  getWeeklyTrendData().reduce((sum, d) => sum + d.count, 0) /
-                                                      getWeeklyTrendData().length
+                                                  trendData.reduce((sum, d) => sum + d.count, 0) / trendData.length
                                               )
                                             : 0}
+                                        {trendUnit}
                                     </div>
                                 </div>
                                 <div className='bg-slate-800 rounded-lg p-3 flex flex-col items-center col-span-2 sm:col-span-1'>
                                     <div className='text-sm text-slate-300'>Change from last week</div>
                                     <div className='text-lg font-bold'>
                                         {(() => {
-                                            const data = getWeeklyTrendData();
+                                            const data = trendData;
                                             if (data.length < 2) {
                                                 return <span className='text-slate-400'>–</span>;
                                             }
@@ -1081,9 +2709,13 @@ export default function Home() {
                                             if (diff === 0) {
                                                 return <span className='text-slate-400'>0</span>;
                                             } else if (diff > 0) {
-                                                return <span className='text-green-400'>+{diff}</span>;
+                                                return (
+                                                    <span className='text-green-400'>+{formatActivityValue(diff)}</span>
+                                                );
                                             } else {
-                                                return <span className='text-red-400'>{diff}</span>;
+                                                return (
+                                                    <span className='text-red-400'>{formatActivityValue(diff)}</span>
+                                                );
                                             }
                                         })()}
                                     </div>
@@ -1093,6 +2725,17 @@ export default function Home() {
                     </div>
                 )}
 
+                {/* Year Heatmap */}
+                {activityRows.length > 0 && (
+                    <YearHeatmap
+                        rows={activityRows}
+                        selectedWeekStart={weekStart}
+                        onSelectDate={openWeekOfDate}
+                        weekStartsOn={weekStartsOn}
+                        today={today}
+                    />
+                )}
+
                 {/* AI Analysis Section */}
                 {(aiAnalysis || showAnalysis) && (
                     <div className='bg-slate-700 rounded-lg p-4 sm:p-6 mb-6'>
@@ -1100,6 +2743,14 @@ export default function Home() {
                             <h3 className='text-lg font-semibold text-white flex items-center'>
                                 🤖 AI Weekly Analysis
                             </h3>
+                            {isAnalysisStale && !isGeneratingAnalysis && (
+                                <span
+                                    className='text-xs px-2 py-1 rounded bg-amber-900/50 text-amber-200'
+                                    title='The week was reopened after this analysis was written. Complete it again to refresh the analysis.'
+                                >
+                                    Out of date
+                                </span>
+                            )}
                         </div>
 
                         {isGeneratingAnalysis ? (
@@ -1110,9 +2761,134 @@ export default function Home() {
                         ) : aiAnalysis ? (
                             <div className='text-slate-200 leading-relaxed'>{aiAnalysis}</div>
                         ) : null}
+
+                        {weeklyReview && (
+                            <div className='mt-4 rounded-lg bg-slate-800 px-3 py-2 text-sm space-y-1'>
+                                <div className='text-white'>
+                                    Your review: {getRatingOption(weeklyReview.rating)?.emoji} {weeklyReview.rating}/5
+                                </div>
+                                {weeklyReview.wentWell && (
+                                    <p className='text-slate-300 whitespace-pre-wrap break-words'>
+                                        <span className='text-slate-400'>Went well:</span> {weeklyReview.wentWell}
+                                    </p>
+                                )}
+                                {weeklyReview.toChange && (
+                                    <p className='text-slate-300 whitespace-pre-wrap break-words'>
+                                        <span className='text-slate-400'>To change:</span> {weeklyReview.toChange}
+                                    </p>
+                                )}
+                                {weeklyReview.focusActivityIds.length > 0 && (
+                                    <p className='text-slate-300'>
+                                        <span className='text-slate-400'>Next week&apos;s focus:</span>{' '}
+                                        {getActivityNames(weeklyReview.focusActivityIds).join(', ')}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+
+                        {hasTargets && !isGeneratingAnalysis && (
+                            <div className='mt-4 flex flex-wrap gap-2 text-xs'>
+                                {activeRows.map(row => {
+                                    const targetProgress = getRowTargetProgress(row);
+                                    if (!targetProgress) return null;
+                                    const isMet = targetProgress.status === 'met';
+                                    return (
+                                        <span
+                                            key={row.id}
+                                            className={`px-2 py-1 rounded ${isMet ? TARGET_STATUS_STYLES.met.className : 'bg-slate-600 text-slate-300'}`}
+                                        >
+                                            {isMet ? '✓' : '✗'} {row.emoji} {row.name} · {formatTarget(row)}
+                                        </span>
+                                    );
+                                })}
+                            </div>
+                        )}
                     </div>
                 )}
             </div>
+
+            <ActivitySettingsModal
+                row={activityRows.find(row => row.id === settingsRowId) ?? null}
+                groups={groupNames}
+                onClose={() => setSettingsRowId(null)}
+                onSave={updateRowSettings}
+            />
+
+            {/* Remounted on open, so the form starts from today and the current freezes every time */}
+            <RestDaysModal
+                key={showRestDays ? 'open' : 'closed'}
+                isOpen={showRestDays}
+                onClose={() => setShowRestDays(false)}
+                rows={activeRows}
+                periods={restPeriods}
+                freezesPerMonth={freezesPerMonth}
+                onAdd={addRestPeriod}
+                onDelete={removeRestPeriod}
+                onFreezesChange={updateFreezesPerMonth}
+            />
+
+            <SettingsModal
+                isOpen={showSettings}
+                onClose={() => setShowSettings(false)}
+                userPreferences={userPreferences}
+                userId={user?.id || ''}
+                onSave={setUserPreferences}
+            />
+
+            <RemindersModal
+                isOpen={showReminders}
+                onClose={() => setShowReminders(false)}
+                userId={user?.id || ''}
+                rows={activeRows}
+            />
+
+            {/* Remounted on open, so the form starts from the week's saved review every time */}
+            <WeeklyReviewModal
+                key={showWeeklyReview ? 'open' : 'closed'}
+                isOpen={showWeeklyReview}
+                onClose={() => setShowWeeklyReview(false)}
+                rows={activeRows}
+                initialReview={weeklyReview}
+                weekLabel={`Week ${getISOWeekNumber(getWeekAnchor(weekStart))}`}
+                onSubmit={completeWeek}
+            />
+
+            <NotesModal
+                isOpen={showNotes}
+                onClose={() => setShowNotes(false)}
+                rows={activityRows}
+                onSelectDate={goToWeek}
+            />
+
+            <AchievementsModal
+                isOpen={showAchievements}
+                onClose={() => setShowAchievements(false)}
+                unlocked={achievements.unlocked}
+            />
+
+            <AchievementToast achievements={achievements.toasts} onDismiss={achievements.dismissToast} />
+
+            <ArchivedActivitiesModal
+                isOpen={showArchived}
+                onClose={() => setShowArchived(false)}
+                rows={activityRows}
+                onRestore={restoreActivityRow}
+                onDelete={deleteActivityRow}
+            />
         </div>
     );
 }
+
+export default function Home() {
+    return (
+        <Suspense
+            fallback={
+                <div className='min-h-screen bg-slate-800 flex items-center justify-center'>
+                    <div className='text-white text-xl'>Loading...</div>
+                </div>
+            }
+        >
+            <ActivityTracker />
+        </Suspense>
+    );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+    getNewlyUnlockedAchievements,
+    getUnlockedAchievements,
+    saveUnlockedAchievements,
+    type Achievement,
+    type AchievementContext,
+    type UnlockedAchievement,
+} from '@/lib/achievements';
+
+const TOAST_DURATION_MS = 6000;
+
+/**
+ * Loads the user's badges and checks the rules whenever the context changes.
+ * Pass a memoized context, or null while the page is still loading its data.
+ */
+export function useAchievements(userId: string | null, context: AchievementContext | null) {
+    // null until loaded, so nothing is re-unlocked (and toasted) before the saved badges are known
+    const [unlocked, setUnlocked] = useState<UnlockedAchievement[] | null>(null);
+    const [toasts, setToasts] = useState<Achievement[]>([]);
+    // Badges being saved, or that failed to save, aren't checked again this session
+    const pendingIdsRef = useRef<Set<string>>(new Set());
+
+    useEffect(() => {
+        setUnlocked(null);
+        if (!userId) return;
+
+        let cancelled = false;
+        getUnlockedAchievements(userId)
+            .then(records => {
+                if (!cancelled) setUnlocked(records);
+            })
+            .catch(() => {
+                // Error is already logged in getUnlockedAchievements; badges stay unchecked until the next load
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [userId]);
+
+    useEffect(() => {
+        if (!userId || !unlocked || !context) return;
+
+        const knownIds = new Set([...unlocked.map(record => record.achievementId), ...pendingIdsRef.current]);
+        const fresh = getNewlyUnlockedAchievements(context, knownIds);
+        if (fresh.length === 0) return;
+
+        const ids = fresh.map(achievement => achievement.id);
+        ids.forEach(id => pendingIdsRef.current.add(id));
+        saveUnlockedAchievements(userId, ids)
+            .then(saved => {
+                ids.forEach(id => pendingIdsRef.current.delete(id));
+                setUnlocked(prev => [...(prev ?? []), ...saved]);
+                setToasts(prev => [...prev, ...fresh]);
+            })
+            .catch(() => {
+                // Error is already logged in saveUnlockedAchievements
+            });
+    }, [userId, unlocked, context]);
+
+    const dismissToast = (achievementId: string) => {
+        setToasts(prev => prev.filter(achievement => achievement.id !== achievementId));
+    };
+
+    return { unlocked: unlocked ?? [], toasts, dismissToast };
+}
+
+function ToastItem({ achievement, onDismiss }: { achievement: Achievement; onDismiss: () => void }) {
+    // The parent passes a new callback on every render; the timer calls the latest one without restarting
+    const onDismissRef = useRef(onDismiss);
+    useEffect(() => {
+        onDismissRef.current = onDismiss;
+    }, [onDismiss]);
+
+    // One timer per toast, from when it appears
+    useEffect(() => {
+        const timeout = window.setTimeout(() => onDismissRef.current(), TOAST_DURATION_MS);
+        return () => window.clearTimeout(timeout);
+    }, []);
+
+    return (
+        <div
+            role='status'
+            className='flex items-center gap-3 rounded-lg bg-slate-700 border border-yellow-400/60 px-4 py-3 shadow-lg'
+        >
+            <span className='text-3xl' aria-hidden='true'>
+                {achievement.emoji}
+            </span>
+            <div className='min-w-0'>
+                <div className='text-xs uppercase tracking-wide text-yellow-300'>Achievement unlocked</div>
+                <div className='text-white font-semibold'>{achievement.name}</div>
+                <div className='text-xs text-slate-300'>{achievement.description}</div>
+            </div>
+            <button
+                onClick={onDismiss}
+                className='ml-2 text-slate-400 hover:text-white cursor-pointer'
+                aria-label='Dismiss achievement'
+            >
+                ×
+            </button>
+        </div>
+    );
+}
+
+interface AchievementToastProps {
+    achievements: Achievement[];
+    onDismiss: (achievementId: string) => void;
+}
+
+export default function AchievementToast({ achievements, onDismiss }: AchievementToastProps) {
+    if (achievements.length === 0) return null;
+
+    return (
+        <div className='fixed bottom-4 right-4 z-50 flex flex-col gap-2 max-w-sm' aria-live='polite'>
+            {achievements.map(achievement => (
+                <ToastItem key={achievement.id} achievement={achievement} onDismiss={() => onDismiss(achievement.id)} />
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { ACHIEVEMENTS, type UnlockedAchievement } from '@/lib/achievements';
+
+type IconProps = React.SVGProps<SVGSVGElement>;
+
+function XIcon(props: IconProps) {
+    return (
+        <svg
+            viewBox='0 0 24 24'
+            fill='none'
+            stroke='currentColor'
+            strokeWidth='2'
+            strokeLinecap='round'
+            strokeLinejoin='round'
+            {...props}
+        >
+            <path d='M18 6 6 18' />
+            <path d='m6 6 12 12' />
+        </svg>
+    );
+}
+
+interface AchievementsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    unlocked: UnlockedAchievement[];
+}
+
+export default function AchievementsModal({ isOpen, onClose, unlocked }: AchievementsModalProps) {
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    // Handle click outside to close
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClick = (event: MouseEvent) => {
+            if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+                onClose();
+            }
+        };
+
+        document.addEventListener('mousedown', handleClick);
+        return () => {
+            document.removeEventListener('mousedown', handleClick);
+        };
+    }, [isOpen, onClose]);
+
+    if (!isOpen) return null;
+
+    const unlockedAt = new Map(unlocked.map(record => [record.achievementId, record.unlockedAt]));
+
+    return (
+        <div className='fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4'>
+            <div
+                ref={modalRef}
+                className='relative w-full max-w-lg rounded-lg bg-slate-700 p-6 shadow-lg max-h-[90vh] overflow-y-auto'
+            >
+                <button
+                    onClick={onClose}
+                    className='absolute right-4 top-4 text-slate-400 hover:text-white transition-colors cursor-pointer'
+                    aria-label='Close achievements'
+                >
+                    <XIcon className='w-5 h-5' />
+                </button>
+
+                <h2 className='text-xl font-semibold text-white mb-2 pr-8'>Achievements</h2>
+                <p className='text-sm text-slate-300 mb-6'>
+                    {unlockedAt.size} of {ACHIEVEMENTS.length} unlocked
+                </p>
+
+                <ul className='grid gap-3 sm:grid-cols-2'>
+                    {ACHIEVEMENTS.map(achievement => {
+                        const date = unlockedAt.get(achievement.id);
+                        return (
+                            <li
+                                key={achievement.id}
+                                className={`flex items-center gap-3 rounded-lg px-3 py-3 ${
+                                    date ? 'bg-slate-800 border border-yellow-400/40' : 'bg-slate-800/50 opacity-60'
+                                }`}
+                            >
+                                <span className={`text-3xl ${date ? '' : 'grayscale'}`} aria-hidden='true'>
+                                    {achievement.emoji}
+                                </span>
+                                <div className='min-w-0'>
+                                    <div className='text-white font-medium'>{achievement.name}</div>
+                                    <div className='text-xs text-slate-300'>{achievement.description}</div>
+                                    <div className='text-xs text-slate-400 mt-1'>
+                                        {date
+                                            ? `Unlocked ${new Date(date).toLocaleDateString('en-US', {
+                                                  month: 'short',
+                                                  day: 'numeric',
+                                                  year: 'numeric',
+                                              })}`
+                                            : 'Locked'}
+                                    </div>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,24 @@
+'use client';
+
+import type { ActivityRow } from '@/lib/activities';
+
+interface ActivityIconProps {
+    row: Pick<ActivityRow, 'emoji' | 'color'>;
+    className?: string;
+}
+
+// An activity's emoji, on a tinted badge when the row has a color
+export default function ActivityIcon({ row, className = '' }: ActivityIconProps) {
+    if (!row.color) {
+        return <span className={className}>{row.emoji}</span>;
+    }
+
+    return (
+        <span
+            className={`inline-flex items-center justify-center rounded-md px-1 ${className}`}
+            style={{ backgroundColor: `${row.color}40`, boxShadow: `inset 0 0 0 2px ${row.color}` }}
+        >
+            {row.emoji}
+        </span>
+    );
+}
@@ -0,0 +1,359 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import ActivityIcon from '@/components/ActivityIcon';
+import ColorPicker from '@/components/ColorPicker';
+import EmojiPicker from '@/components/EmojiPicker';
+import {
+    getUnitLabel,
+    HABIT_TYPES,
+    isQuantitative,
+    type ActivityRow,
+    type HabitType,
+    type TargetType,
+} from '@/lib/activities';
+import { formatDateKey } from '@/lib/dates';
+import { normalizeGroupName } from '@/lib/rowGroups';
+import { DAILY_SCHEDULE, WEEKDAY_OPTIONS, type Schedule } from '@/lib/schedules';
+
+type IconProps = React.SVGProps<SVGSVGElement>;
+
+function XIcon(props: IconProps) {
+    return (
+        <svg
+            viewBox='0 0 24 24'
+            fill='none'
+            stroke='currentColor'
+            strokeWidth='2'
+            strokeLinecap='round'
+            strokeLinejoin='round'
+            {...props}
+        >
+            <path d='M18 6 6 18' />
+            <path d='m6 6 12 12' />
+        </svg>
+    );
+}
+
+export type ActivitySettings = Pick<
+    ActivityRow,
+    'emoji' | 'color' | 'habitType' | 'weeklyTarget' | 'targetType' | 'schedule' | 'group'
+>;
+
+interface ActivitySettingsModalProps {
+    row: ActivityRow | null;
+    // Existing group names, offered as suggestions
+    groups: string[];
+    onClose: () => void;
+    onSave: (rowId: string, settings: ActivitySettings) => void;
+}
+
+export default function ActivitySettingsModal({ row, groups, onClose, onSave }: ActivitySettingsModalProps) {
+    const [emoji, setEmoji] = useState<string>('');
+    const [color, setColor] = useState<string | null>(null);
+    const [habitType, setHabitType] = useState<HabitType>('build');
+    const [group, setGroup] = useState<string>('');
+    const [targetValue, setTargetValue] = useState<string>('');
+    const [targetType, setTargetType] = useState<TargetType>('days');
+    const [scheduleType, setScheduleType] = useState<Schedule['type']>('daily');
+    const [weekdays, setWeekdays] = useState<number[]>([1, 3, 5]);
+    const [intervalDays, setIntervalDays] = useState<string>('2');
+    const [intervalStart, setIntervalStart] = useState<string>(formatDateKey(new Date()));
+    const [error, setError] = useState<string | null>(null);
+    const modalRef = useRef<HTMLDivElement>(null);
+    // Set once the form is used; until then it follows live updates to the open row
+    const hasEditsRef = useRef(false);
+
+    useEffect(() => {
+        hasEditsRef.current = false;
+    }, [row?.id]);
+
+    // Fill the form from the row, without wiping edits when the row changes on another device
+    useEffect(() => {
+        if (hasEditsRef.current) return;
+        const schedule = row?.schedule ?? DAILY_SCHEDULE;
+        setEmoji(row?.emoji ?? '');
+        setColor(row?.color ?? null);
+        setHabitType(row?.habitType ?? 'build');
+        setGroup(row?.group ?? '');
+        setTargetValue(row?.weeklyTarget?.toString() ?? '');
+        setTargetType(row?.targetType ?? 'days');
+        setScheduleType(schedule.type);
+        setWeekdays(schedule.type === 'weekly' ? schedule.days : [1, 3, 5]);
+        setIntervalDays(schedule.type === 'interval' ? String(schedule.every) : '2');
+        setIntervalStart(schedule.type === 'interval' ? schedule.startDate : formatDateKey(new Date()));
+        setError(null);
+    }, [row]);
+
+    // Handle click outside to close
+    useEffect(() => {
+        if (!row) return;
+
+        const handleClick = (event: MouseEvent) => {
+            if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+                onClose();
+            }
+        };
+
+        document.addEventListener('mousedown', handleClick);
+        return () => {
+            document.removeEventListener('mousedown', handleClick);
+        };
+    }, [row, onClose]);
+
+    if (!row) return null;
+
+    const buildSchedule = (): Schedule | null => {
+        if (scheduleType === 'weekly') {
+            if (weekdays.length === 0) {
+                setError('Pick at least one day of the week.');
+                return null;
+            }
+            return { type: 'weekly', days: [...weekdays].sort() };
+        }
+        if (scheduleType === 'interval') {
+            const every = Number(intervalDays);
+            if (!Number.isInteger(every) || every < 1) {
+                setError('Repeat interval must be a whole number of days.');
+                return null;
+            }
+            return { type: 'interval', every, startDate: intervalStart };
+        }
+        return DAILY_SCHEDULE;
+    };
+
+    const handleSave = () => {
+        setError(null);
+        const schedule = buildSchedule();
+        if (!schedule) return;
+
+        // Avoid rows have no target, since their ticks are slips
+        if (habitType === 'avoid' || !targetValue.trim()) {
+            onSave(row.id, {
+                emoji,
+                color,
+                habitType,
+                weeklyTarget: null,
+                targetType,
+                schedule,
+                group: normalizeGroupName(group),
+            });
+            onClose();
+            return;
+        }
+
+        const parsed = Number(targetValue.replace(',', '.'));
+        if (!Number.isFinite(parsed) || parsed <= 0) {
+            setError('Target must be a positive number.');
+            return;
+        }
+        if (targetType === 'days' && (!Number.isInteger(parsed) || parsed > 7)) {
+            setError('A days target must be a whole number between 1 and 7.');
+            return;
+        }
+
+        onSave(row.id, {
+            emoji,
+            color,
+            habitType,
+            weeklyTarget: parsed,
+            targetType,
+            schedule,
+            group: normalizeGroupName(group),
+        });
+        onClose();
+    };
+
+    const toggleWeekday = (day: number) => {
+        setWeekdays(prev => (prev.includes(day) ? prev.filter(value => value !== day) : [...prev, day]));
+    };
+
+    return (
+        <div className='fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4'>
+            <div
+                ref={modalRef}
+                // The emoji, color and weekday pickers are buttons, so clicks count as edits too
+                onChangeCapture={() => (hasEditsRef.current = true)}
+                onClickCapture={() => (hasEditsRef.current = true)}
+                className='relative w-full max-w-md rounded-lg bg-slate-700 p-6 shadow-lg max-h-[90vh] overflow-y-auto'
+            >
+                <button
+                    onClick={onClose}
+                    className='absolute right-4 top-4 text-slate-400 hover:text-white transition-colors cursor-pointer'
+                    aria-label='Close activity settings'
+                >
+                    <XIcon className='w-5 h-5' />
+                </button>
+
+                <h2 className='text-xl font-semibold text-white mb-6 pr-8'>
+                    <ActivityIcon row={{ emoji, color }} /> {row.name}
+                </h2>
+
+                <div className='space-y-4'>
+                    <div className='grid grid-cols-[8rem_1fr] gap-3'>
+                        <div>
+                            <label className='block text-sm font-medium text-white mb-2'>Emoji</label>
+                            <EmojiPicker value={emoji} onChange={setEmoji} />
+                        </div>
+                        <div>
+                            <label className='block text-sm font-medium text-white mb-2'>Color</label>
+                            <ColorPicker value={color} onChange={setColor} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className='block text-sm font-medium text-white mb-2'>Group</label>
+                        <input
+                            type='text'
+                            value={group}
+                            onChange={e => setGroup(e.target.value)}
+                            list='activity-settings-groups'
+                            placeholder='e.g., Health, Learning, Chores'
+                            className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white placeholder-slate-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                        />
+                        <datalist id='activity-settings-groups'>
+                            {groups.map(name => (
+                                <option key={name} value={name} />
+                            ))}
+                        </datalist>
+                        <p className='mt-1 text-xs text-slate-300'>Leave empty to keep the activity ungrouped.</p>
+                    </div>
+
+                    {!isQuantitative(row) && (
+                        <div>
+                            <label className='block text-sm font-medium text-white mb-2'>Habit type</label>
+                            <select
+                                value={habitType}
+                                onChange={e => setHabitType(e.target.value as HabitType)}
+                                className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white cursor-pointer'
+                            >
+                                {HABIT_TYPES.map(type => (
+                                    <option key={type.value} value={type.value}>
+                                        {type.label}
+                                    </option>
+                                ))}
+                            </select>
+                            {habitType === 'avoid' && (
+                                <p className='mt-1 text-xs text-slate-300'>
+                                    Every day without a tick counts as clean, starting from the day you switch.
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    <div>
+                        <label className='block text-sm font-medium text-white mb-2'>Planned days</label>
+                        <select
+                            value={scheduleType}
+                            onChange={e => setScheduleType(e.target.value as Schedule['type'])}
+                            className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white cursor-pointer'
+                        >
+                            <option value='daily'>Every day</option>
+                            <option value='weekly'>Specific days of the week</option>
+                            <option value='interval'>Every few days</option>
+                        </select>
+                    </div>
+
+                    {scheduleType === 'weekly' && (
+                        <div className='grid grid-cols-7 gap-1'>
+                            {WEEKDAY_OPTIONS.map(option => {
+                                const isSelected = weekdays.includes(option.value);
+                                return (
+                                    <button
+                                        key={option.value}
+                                        type='button'
+                                        onClick={() => toggleWeekday(option.value)}
+                                        aria-pressed={isSelected}
+                                        className={`py-2 rounded-md text-xs font-medium transition-colors cursor-pointer ${
+                                            isSelected
+                                                ? 'bg-blue-500 text-white'
+                                                : 'bg-slate-600 text-slate-300 hover:bg-slate-500'
+                                        }`}
+                                    >
+                                        {option.label}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    {scheduleType === 'interval' && (
+                        <div className='grid grid-cols-2 gap-3'>
+                            <div>
+                                <label className='block text-sm font-medium text-white mb-2'>Every (days)</label>
+                                <input
+                                    type='number'
+                                    min='1'
+                                    value={intervalDays}
+                                    onChange={e => setIntervalDays(e.target.value)}
+                                    className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white'
+                                />
+                            </div>
+                            <div>
+                                <label className='block text-sm font-medium text-white mb-2'>Starting</label>
+                                <input
+                                    type='date'
+                                    value={intervalStart}
+                                    onChange={e => e.target.value && setIntervalStart(e.target.value)}
+                                    className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white'
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {isQuantitative(row) && (
+                        <div>
+                            <label className='block text-sm font-medium text-white mb-2'>Count towards target</label>
+                            <select
+                                value={targetType}
+                                onChange={e => setTargetType(e.target.value as TargetType)}
+                                className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white cursor-pointer'
+                            >
+                                <option value='days'>Days logged</option>
+                                <option value='amount'>Total amount ({getUnitLabel(row)})</option>
+                            </select>
+                        </div>
+                    )}
+
+                    {habitType === 'build' && (
+                        <div>
+                            <label className='block text-sm font-medium text-white mb-2'>
+                                Weekly target ({targetType === 'amount' ? getUnitLabel(row) : 'days'})
+                            </label>
+                            <input
+                                type='number'
+                                value={targetValue}
+                                onChange={e => setTargetValue(e.target.value)}
+                                placeholder={targetType === 'amount' ? 'e.g., 20' : 'e.g., 3'}
+                                min='0'
+                                className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white placeholder-slate-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                            />
+                            <p className='mt-1 text-xs text-slate-300'>Leave empty to remove the target.</p>
+                        </div>
+                    )}
+
+                    {error && (
+                        <div className='rounded-lg bg-red-900/50 border border-red-700 p-3 text-red-200 text-sm'>
+                            {error}
+                        </div>
+                    )}
+
+                    <div className='flex gap-3 pt-2'>
+                        <button
+                            onClick={handleSave}
+                            className='flex-1 px-4 py-2 bg-blue-500/80 text-white rounded-lg hover:bg-blue-500 transition-colors cursor-pointer font-medium'
+                        >
+                            Save
+                        </button>
+                        <button
+                            onClick={onClose}
+                            className='px-4 py-2 bg-slate-500 text-white rounded-lg hover:bg-slate-400 transition-colors cursor-pointer'
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
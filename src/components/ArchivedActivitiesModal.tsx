@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { isArchived, isAvoidHabit, type ActivityRow } from '@/lib/activities';
+
+type IconProps = React.SVGProps<SVGSVGElement>;
+
+function XIcon(props: IconProps) {
+    return (
+        <svg
+            viewBox='0 0 24 24'
+            fill='none'
+            stroke='currentColor'
+            strokeWidth='2'
+            strokeLinecap='round'
+            strokeLinejoin='round'
+            {...props}
+        >
+            <path d='M18 6 6 18' />
+            <path d='m6 6 12 12' />
+        </svg>
+    );
+}
+
+interface ArchivedActivitiesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    rows: ActivityRow[];
+    onRestore: (rowId: string) => void;
+    onDelete: (rowId: string) => void;
+}
+
+export default function ArchivedActivitiesModal({
+    isOpen,
+    onClose,
+    rows,
+    onRestore,
+    onDelete,
+}: ArchivedActivitiesModalProps) {
+    const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        setConfirmDeleteId(null);
+    }, [isOpen]);
+
+    // Handle click outside to close
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClick = (event: MouseEvent) => {
+            if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+                onClose();
+            }
+        };
+
+        document.addEventListener('mousedown', handleClick);
+        return () => {
+            document.removeEventListener('mousedown', handleClick);
+        };
+    }, [isOpen, onClose]);
+
+    if (!isOpen) return null;
+
+    const archivedRows = rows.filter(isArchived);
+
+    return (
+        <div className='fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4'>
+            <div ref={modalRef} className='relative w-full max-w-lg rounded-lg bg-slate-700 p-6 shadow-lg'>
+                <button
+                    onClick={onClose}
+                    className='absolute right-4 top-4 text-slate-400 hover:text-white transition-colors cursor-pointer'
+                    aria-label='Close archived activities'
+                >
+                    <XIcon className='w-5 h-5' />
+                </button>
+
+                <h2 className='text-xl font-semibold text-white mb-2 pr-8'>Archived activities</h2>
+                <p className='text-sm text-slate-300 mb-6'>
+                    Archived activities are hidden from the weekly grid but still count in trends, statistics and
+                    exports.
+                </p>
+
+                {archivedRows.length === 0 ? (
+                    <p className='text-slate-400 text-sm'>No archived activities.</p>
+                ) : (
+                    <ul className='space-y-2 max-h-96 overflow-y-auto'>
+                        {archivedRows.map(row => (
+                            <li
+                                key={row.id}
+                                className='flex items-center justify-between gap-3 rounded-lg bg-slate-800 px-3 py-2'
+                            >
+                                <div className='min-w-0'>
+                                    <div className='text-white font-medium truncate'>
+                                        {row.emoji} {row.name}
+                                    </div>
+                                    <div className='text-xs text-slate-400'>
+                                        {row.completedDays.length} {isAvoidHabit(row) ? 'slips' : 'completions'} ·
+                                        archived {row.archivedAt ? new Date(row.archivedAt).toLocaleDateString() : ''}
+                                    </div>
+                                </div>
+                                {confirmDeleteId === row.id ? (
+                                    <div className='flex items-center gap-2 text-sm'>
+                                        <span className='text-red-300'>Delete history?</span>
+                                        <button
+                                            onClick={() => {
+                                                onDelete(row.id);
+                                                setConfirmDeleteId(null);
+                                            }}
+                                            className='px-2 py-1 rounded bg-red-500/80 hover:bg-red-500 text-white cursor-pointer'
+                                        >
+                                            Delete
+                                        </button>
+                                        <button
+                                            onClick={() => setConfirmDeleteId(null)}
+                                            className='px-2 py-1 rounded bg-slate-600 hover:bg-slate-500 text-white cursor-pointer'
+                                        >
+                                            Keep
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <div className='flex items-center gap-2 text-sm'>
+                                        <button
+                                            onClick={() => onRestore(row.id)}
+                                            className='px-2 py-1 rounded bg-blue-500/80 hover:bg-blue-500 text-white cursor-pointer'
+                                        >
+                                            Restore
+                                        </button>
+                                        <button
+                                            onClick={() => setConfirmDeleteId(row.id)}
+                                            className='px-2 py-1 rounded text-red-400 hover:text-red-300 cursor-pointer'
+                                        >
+                                            Delete permanently
+                                        </button>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { DEFAULT_ROW_COLOR, ROW_COLORS } from '@/lib/activities';
+
+interface ColorPickerProps {
+    value: string | null;
+    onChange: (color: string | null) => void;
+}
+
+// Preset swatches plus a custom color; null means no color
+export default function ColorPicker({ value, onChange }: ColorPickerProps) {
+    const isCustom = value !== null && !ROW_COLORS.some(color => color.value === value);
+
+    return (
+        <div className='flex flex-wrap items-center gap-2'>
+            <button
+                type='button'
+                onClick={() => onChange(null)}
+                aria-pressed={value === null}
+                title='No color'
+                className={`w-8 h-8 rounded-full border-2 border-dashed border-slate-400 text-slate-300 text-xs cursor-pointer ${
+                    value === null ? 'ring-2 ring-white ring-offset-2 ring-offset-slate-700' : ''
+                }`}
+            >
+                ∅
+            </button>
+            {ROW_COLORS.map(color => (
+                <button
+                    key={color.value}
+                    type='button'
+                    onClick={() => onChange(color.value)}
+                    aria-pressed={value === color.value}
+                    aria-label={color.label}
+                    title={color.label}
+                    className={`w-8 h-8 rounded-full cursor-pointer ${
+                        value === color.value ? 'ring-2 ring-white ring-offset-2 ring-offset-slate-700' : ''
+                    }`}
+                    style={{ backgroundColor: color.value }}
+                />
+            ))}
+            <label
+                title='Custom color'
+                className={`relative w-8 h-8 rounded-full cursor-pointer overflow-hidden bg-[conic-gradient(red,yellow,lime,aqua,blue,magenta,red)] ${
+                    isCustom ? 'ring-2 ring-white ring-offset-2 ring-offset-slate-700' : ''
+                }`}
+                style={isCustom ? { background: value } : undefined}
+            >
+                <input
+                    type='color'
+                    value={value ?? DEFAULT_ROW_COLOR}
+                    onChange={event => onChange(event.target.value.toLowerCase())}
+                    aria-label='Custom color'
+                    className='absolute inset-0 opacity-0 cursor-pointer'
+                />
+            </label>
+        </div>
+    );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { addRecentEmoji, EMOJI_CATEGORIES, getRecentEmojis, searchEmojis } from '@/lib/emojis';
+
+const RECENT_TAB = 'recent';
+
+interface EmojiPickerProps {
+    value: string;
+    onChange: (emoji: string) => void;
+}
+
+export default function EmojiPicker({ value, onChange }: EmojiPickerProps) {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [query, setQuery] = useState<string>('');
+    const [recent, setRecent] = useState<string[]>([]);
+    const [tab, setTab] = useState<string>(RECENT_TAB);
+    const pickerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const saved = getRecentEmojis();
+        setRecent(saved);
+        setTab(saved.length > 0 ? RECENT_TAB : EMOJI_CATEGORIES[0].id);
+        setQuery('');
+    }, [isOpen]);
+
+    // Handle click outside to close
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClick = (event: MouseEvent) => {
+            if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClick);
+        return () => {
+            document.removeEventListener('mousedown', handleClick);
+        };
+    }, [isOpen]);
+
+    const selectEmoji = (emoji: string) => {
+        setRecent(addRecentEmoji(emoji));
+        onChange(emoji);
+        setIsOpen(false);
+    };
+
+    const category = EMOJI_CATEGORIES.find(candidate => candidate.id === tab);
+    const shownEmojis = query.trim()
+        ? searchEmojis(query).map(option => option.emoji)
+        : tab === RECENT_TAB
+          ? recent
+          : (category?.emojis.map(option => option.emoji) ?? []);
+    const heading = query.trim() ? 'Search results' : tab === RECENT_TAB ? 'Recently used' : category?.label;
+
+    return (
+        <div ref={pickerRef} className='relative'>
+            <button
+                type='button'
+                onClick={() => setIsOpen(!isOpen)}
+                aria-expanded={isOpen}
+                aria-label={`Emoji: ${value}`}
+                className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white text-left flex items-center justify-between cursor-pointer'
+            >
+                <span className='text-2xl'>{value}</span>
+                <span>▼</span>
+            </button>
+            {isOpen && (
+                <div
+                    className='absolute top-full left-0 right-0 min-w-72 mt-1 bg-slate-600 border border-slate-500 rounded-lg p-2 z-50'
+                    onKeyDown={event => event.key === 'Escape' && setIsOpen(false)}
+                >
+                    <input
+                        type='search'
+                        value={query}
+                        onChange={event => setQuery(event.target.value)}
+                        placeholder='Search, e.g. yoga or water'
+                        aria-label='Search emojis'
+                        className='w-full px-3 py-2 mb-2 border border-slate-500 rounded-lg bg-slate-700 text-white text-sm placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+                        autoFocus
+                    />
+                    {!query.trim() && (
+                        <div className='flex gap-1 mb-2 overflow-x-auto' role='tablist' aria-label='Emoji categories'>
+                            {recent.length > 0 && (
+                                <button
+                                    type='button'
+                                    role='tab'
+                                    aria-selected={tab === RECENT_TAB}
+                                    title='Recently used'
+                                    onClick={() => setTab(RECENT_TAB)}
+                                    className={`shrink-0 w-9 h-9 rounded-md text-lg cursor-pointer ${
+                                        tab === RECENT_TAB ? 'bg-slate-500' : 'hover:bg-slate-500/60'
+                                    }`}
+                                >
+                                    🕘
+                                </button>
+                            )}
+                            {EMOJI_CATEGORIES.map(option => (
+                                <button
+                                    key={option.id}
+                                    type='button'
+                                    role='tab'
+                                    aria-selected={tab === option.id}
+                                    title={option.label}
+                                    onClick={() => setTab(option.id)}
+                                    className={`shrink-0 w-9 h-9 rounded-md text-lg cursor-pointer ${
+                                        tab === option.id ? 'bg-slate-500' : 'hover:bg-slate-500/60'
+                                    }`}
+                                >
+                                    {option.icon}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <div className='text-xs text-slate-300 mb-1'>{heading}</div>
+                    {shownEmojis.length === 0 ? (
+                        <p className='text-sm text-slate-300 py-4 text-center'>No emojis match “{query.trim()}”.</p>
+                    ) : (
+                        <div className='grid grid-cols-6 gap-1 max-h-52 overflow-y-auto'>
+                            {shownEmojis.map(emoji => (
+                                <button
+                                    key={emoji}
+                                    type='button'
+                                    onClick={() => selectEmoji(emoji)}
+                                    aria-pressed={emoji === value}
+                                    className={`p-1 rounded text-2xl cursor-pointer hover:bg-slate-500 ${
+                                        emoji === value ? 'bg-slate-500' : ''
+                                    }`}
+                                >
+                                    {emoji}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import ActivityIcon from '@/components/ActivityIcon';
+import {
+    formatActivityValue,
+    getDayValue,
+    getUnitLabel,
+    isAvoidHabit,
+    isQuantitative,
+    type ActivityRow,
+} from '@/lib/activities';
+import { searchDayNotes } from '@/lib/activityStats';
+import { parseDateKey } from '@/lib/dates';
+
+type IconProps = React.SVGProps<SVGSVGElement>;
+
+function XIcon(props: IconProps) {
+    return (
+        <svg
+            viewBox='0 0 24 24'
+            fill='none'
+            stroke='currentColor'
+            strokeWidth='2'
+            strokeLinecap='round'
+            strokeLinejoin='round'
+            {...props}
+        >
+            <path d='M18 6 6 18' />
+            <path d='m6 6 12 12' />
+        </svg>
+    );
+}
+
+// Long journals are cut off; a more specific search narrows them down
+const MAX_RESULTS = 100;
+
+interface NotesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    rows: ActivityRow[];
+    // Opens the week that holds the note's day
+    onSelectDate: (date: Date) => void;
+}
+
+export default function NotesModal({ isOpen, onClose, rows, onSelectDate }: NotesModalProps) {
+    const [query, setQuery] = useState<string>('');
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    // Handle click outside to close
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClick = (event: MouseEvent) => {
+            if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+                onClose();
+            }
+        };
+
+        document.addEventListener('mousedown', handleClick);
+        return () => {
+            document.removeEventListener('mousedown', handleClick);
+        };
+    }, [isOpen, onClose]);
+
+    if (!isOpen) return null;
+
+    const notes = searchDayNotes(rows, query);
+
+    return (
+        <div className='fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4'>
+            <div
+                ref={modalRef}
+                className='relative w-full max-w-lg rounded-lg bg-slate-700 p-6 shadow-lg max-h-[90vh] overflow-y-auto'
+            >
+                <button
+                    onClick={onClose}
+                    className='absolute right-4 top-4 text-slate-400 hover:text-white transition-colors cursor-pointer'
+                    aria-label='Close notes'
+                >
+                    <XIcon className='w-5 h-5' />
+                </button>
+
+                <h2 className='text-xl font-semibold text-white mb-4 pr-8'>Notes</h2>
+
+                <input
+                    type='search'
+                    value={query}
+                    onChange={event => setQuery(event.target.value)}
+                    placeholder='Search notes, e.g. squats'
+                    aria-label='Search notes'
+                    className='w-full px-3 py-2 mb-4 border border-slate-600 rounded-lg bg-slate-600 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+                    autoFocus
+                />
+
+                {notes.length === 0 ? (
+                    <p className='text-slate-400 text-sm'>
+                        {query.trim()
+                            ? 'No notes match your search.'
+                            : 'No notes yet. Right-click a logged day in the grid (or focus it and press N) to add one.'}
+                    </p>
+                ) : (
+                    <ul className='space-y-2' aria-live='polite'>
+                        {notes.slice(0, MAX_RESULTS).map(({ row, dateKey, note }) => (
+                            <li key={`${row.id}:${dateKey}`}>
+                                <button
+                                    onClick={() => {
+                                        onSelectDate(parseDateKey(dateKey));
+                                        onClose();
+                                    }}
+                                    className='w-full text-left rounded-lg bg-slate-800 hover:bg-slate-900 px-3 py-2 cursor-pointer transition-colors'
+                                >
+                                    <div className='flex items-center justify-between gap-2 text-xs text-slate-400'>
+                                        <span className='flex items-center gap-1 min-w-0 truncate'>
+                                            <ActivityIcon row={row} /> {row.name}
+                                            {isAvoidHabit(row)
+                                                ? ' · slip'
+                                                : isQuantitative(row)
+                                                  ? ` · ${formatActivityValue(getDayValue(row, dateKey))} ${getUnitLabel(row)}`
+                                                  : ''}
+                                        </span>
+                                        <span className='shrink-0'>
+                                            {parseDateKey(dateKey).toLocaleDateString('en-US', {
+                                                weekday: 'short',
+                                                month: 'short',
+                                                day: 'numeric',
+                                                year: 'numeric',
+                                            })}
+                                        </span>
+                                    </div>
+                                    <p className='text-white text-sm mt-1 whitespace-pre-wrap break-words'>{note}</p>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {notes.length > MAX_RESULTS && (
+                    <p className='text-slate-400 text-xs mt-3'>
+                        Showing the latest {MAX_RESULTS} of {notes.length} notes.
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,334 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ActivityRow } from '@/lib/activities';
+import {
+    disablePushNotifications,
+    enablePushNotifications,
+    getPushStatus,
+    type PushStatus,
+} from '@/lib/pushNotifications';
+import {
+    createReminder,
+    deleteReminder,
+    formatReminderDays,
+    getReminders,
+    REMINDER_KINDS,
+    setReminderEnabled,
+    type Reminder,
+    type ReminderKind,
+} from '@/lib/reminders';
+
+type IconProps = React.SVGProps<SVGSVGElement>;
+
+function XIcon(props: IconProps) {
+    return (
+        <svg
+            viewBox='0 0 24 24'
+            fill='none'
+            stroke='currentColor'
+            strokeWidth='2'
+            strokeLinecap='round'
+            strokeLinejoin='round'
+            {...props}
+        >
+            <path d='M18 6 6 18' />
+            <path d='m6 6 12 12' />
+        </svg>
+    );
+}
+
+// Monday first, in Date#getDay numbering
+const WEEKDAYS = [
+    { value: 1, label: 'M' },
+    { value: 2, label: 'T' },
+    { value: 3, label: 'W' },
+    { value: 4, label: 'T' },
+    { value: 5, label: 'F' },
+    { value: 6, label: 'S' },
+    { value: 0, label: 'S' },
+];
+
+const PUSH_STATUS_TEXT: Record<PushStatus, string> = {
+    unsupported: "This browser (or this build) can't receive push notifications.",
+    denied: 'Notifications are blocked for this site. Allow them in the browser settings to get reminders.',
+    disabled: 'Notifications are off on this device.',
+    enabled: 'Notifications are on for this device, even when the app is closed.',
+};
+
+interface RemindersModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    userId: string;
+    rows: ActivityRow[];
+}
+
+export default function RemindersModal({ isOpen, onClose, userId, rows }: RemindersModalProps) {
+    const [reminders, setReminders] = useState<Reminder[]>([]);
+    const [pushStatus, setPushStatus] = useState<PushStatus>('disabled');
+    const [kind, setKind] = useState<ReminderKind>('activity');
+    const [activityId, setActivityId] = useState<string>('');
+    const [label, setLabel] = useState<string>('');
+    const [time, setTime] = useState<string>('21:00');
+    const [days, setDays] = useState<number[]>([]);
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen || !userId) return;
+
+        setError(null);
+        getReminders(userId)
+            .then(setReminders)
+            .catch(() => setError('Failed to load reminders.'));
+        getPushStatus()
+            .then(setPushStatus)
+            .catch(() => setPushStatus('unsupported'));
+    }, [isOpen, userId]);
+
+    // Handle click outside to close
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClick = (event: MouseEvent) => {
+            if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+                onClose();
+            }
+        };
+
+        document.addEventListener('mousedown', handleClick);
+        return () => {
+            document.removeEventListener('mousedown', handleClick);
+        };
+    }, [isOpen, onClose]);
+
+    if (!isOpen) return null;
+
+    const togglePush = async () => {
+        setError(null);
+        try {
+            setPushStatus(
+                pushStatus === 'enabled'
+                    ? await disablePushNotifications(userId)
+                    : await enablePushNotifications(userId)
+            );
+        } catch {
+            setError('Failed to change notification settings. Please try again.');
+        }
+    };
+
+    const toggleDay = (day: number) => {
+        setDays(prev => (prev.includes(day) ? prev.filter(value => value !== day) : [...prev, day]));
+    };
+
+    const describeReminder = (reminder: Reminder): string => {
+        if (reminder.kind === 'activity') {
+            const row = rows.find(candidate => candidate.id === reminder.activityId);
+            return reminder.label || (row ? `${row.emoji} ${row.name}` : 'Activity');
+        }
+        if (reminder.kind === 'meal') return reminder.label || '🍽️ Log a meal';
+        return reminder.label || '🎯 Weekly targets at risk';
+    };
+
+    const handleAdd = async () => {
+        if (kind === 'activity' && !activityId) {
+            setError('Choose the activity to be reminded about.');
+            return;
+        }
+        if (!time) {
+            setError('Pick a time.');
+            return;
+        }
+
+        setIsSaving(true);
+        setError(null);
+        try {
+            const created = await createReminder(userId, {
+                kind,
+                activityId: kind === 'activity' ? activityId : null,
+                label,
+                time,
+                days,
+                enabled: true,
+            });
+            setReminders(prev => [...prev, created].sort((a, b) => a.time.localeCompare(b.time)));
+            setLabel('');
+        } catch {
+            setError('Failed to save the reminder. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleToggle = async (reminder: Reminder) => {
+        try {
+            await setReminderEnabled(userId, reminder.id, !reminder.enabled);
+            setReminders(prev =>
+                prev.map(existing =>
+                    existing.id === reminder.id ? { ...existing, enabled: !reminder.enabled } : existing
+                )
+            );
+        } catch {
+            setError('Failed to update the reminder.');
+        }
+    };
+
+    const handleDelete = async (reminderId: string) => {
+        try {
+            await deleteReminder(userId, reminderId);
+            setReminders(prev => prev.filter(reminder => reminder.id !== reminderId));
+        } catch {
+            setError('Failed to remove the reminder.');
+        }
+    };
+
+    return (
+        <div className='fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4'>
+            <div
+                ref={modalRef}
+                className='relative w-full max-w-lg rounded-lg bg-slate-700 p-6 shadow-lg max-h-[90vh] overflow-y-auto'
+            >
+                <button
+                    onClick={onClose}
+                    className='absolute right-4 top-4 text-slate-400 hover:text-white transition-colors cursor-pointer'
+                    aria-label='Close reminders'
+                >
+                    <XIcon className='w-5 h-5' />
+                </button>
+
+                <h2 className='text-xl font-semibold text-white mb-4 pr-8'>Reminders</h2>
+
+                <div className='flex items-center justify-between gap-3 rounded-lg bg-slate-800 px-3 py-2 mb-6'>
+                    <p className='text-sm text-slate-300'>{PUSH_STATUS_TEXT[pushStatus]}</p>
+                    {(pushStatus === 'enabled' || pushStatus === 'disabled') && (
+                        <button
+                            onClick={togglePush}
+                            className='shrink-0 px-3 py-1 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700 cursor-pointer'
+                        >
+                            {pushStatus === 'enabled' ? 'Turn off' : 'Turn on'}
+                        </button>
+                    )}
+                </div>
+
+                <div className='space-y-3 mb-6'>
+                    <div className='grid grid-cols-2 gap-3'>
+                        <label className='block text-sm text-white'>
+                            Remind me about
+                            <select
+                                value={kind}
+                                onChange={event => setKind(event.target.value as ReminderKind)}
+                                className='mt-1 w-full px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white'
+                            >
+                                {REMINDER_KINDS.map(option => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className='block text-sm text-white'>
+                            At
+                            <input
+                                type='time'
+                                value={time}
+                                onChange={event => setTime(event.target.value)}
+                                className='mt-1 w-full px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white [color-scheme:dark]'
+                            />
+                        </label>
+                    </div>
+
+                    {kind === 'activity' && (
+                        <select
+                            value={activityId}
+                            onChange={event => setActivityId(event.target.value)}
+                            aria-label='Activity'
+                            className='w-full px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white'
+                        >
+                            <option value=''>Choose an activity…</option>
+                            {rows.map(row => (
+                                <option key={row.id} value={row.id}>
+                                    {row.emoji} {row.name}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+
+                    <input
+                        type='text'
+                        value={label}
+                        onChange={event => setLabel(event.target.value)}
+                        placeholder={
+                            kind === 'meal'
+                                ? 'Label, e.g. Log lunch'
+                                : kind === 'activity'
+                                  ? 'Label (optional), e.g. Evening stretch'
+                                  : 'Label (optional)'
+                        }
+                        className='w-full px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white placeholder-slate-400'
+                    />
+
+                    <div className='flex items-center gap-1'>
+                        {WEEKDAYS.map(day => (
+                            <button
+                                key={day.value}
+                                onClick={() => toggleDay(day.value)}
+                                aria-pressed={days.includes(day.value)}
+                                className={`w-8 h-8 rounded-full text-sm cursor-pointer ${
+                                    days.includes(day.value) ? 'bg-blue-500 text-white' : 'bg-slate-600 text-slate-300'
+                                }`}
+                            >
+                                {day.label}
+                            </button>
+                        ))}
+                        <span className='ml-2 text-xs text-slate-400'>{formatReminderDays(days)}</span>
+                    </div>
+
+                    <button
+                        onClick={handleAdd}
+                        disabled={isSaving}
+                        className='w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed'
+                    >
+                        {isSaving ? 'Saving...' : 'Add reminder'}
+                    </button>
+                </div>
+
+                {error && <p className='text-red-400 text-sm mb-4'>{error}</p>}
+
+                {reminders.length === 0 ? (
+                    <p className='text-slate-400 text-sm'>No reminders yet.</p>
+                ) : (
+                    <ul className='space-y-2'>
+                        {reminders.map(reminder => (
+                            <li
+                                key={reminder.id}
+                                className='flex items-center justify-between gap-3 rounded-lg bg-slate-800 px-3 py-2'
+                            >
+                                <div className={`min-w-0 ${reminder.enabled ? '' : 'opacity-50'}`}>
+                                    <div className='text-white font-medium truncate'>
+                                        {reminder.time} · {describeReminder(reminder)}
+                                    </div>
+                                    <div className='text-xs text-slate-400'>{formatReminderDays(reminder.days)}</div>
+                                </div>
+                                <div className='flex items-center gap-2 shrink-0'>
+                                    <button
+                                        onClick={() => handleToggle(reminder)}
+                                        className='px-2 py-1 rounded text-sm text-slate-300 hover:text-white cursor-pointer'
+                                    >
+                                        {reminder.enabled ? 'Pause' : 'Resume'}
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(reminder.id)}
+                                        className='px-2 py-1 rounded text-sm text-red-400 hover:text-red-300 cursor-pointer'
+                                    >
+                                        Remove
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ActivityRow } from '@/lib/activities';
+import { formatDateKey } from '@/lib/dates';
+import { formatRestPeriod, type RestPeriod, type RestPeriodInput } from '@/lib/restDays';
+
+type IconProps = React.SVGProps<SVGSVGElement>;
+
+function XIcon(props: IconProps) {
+    return (
+        <svg
+            viewBox='0 0 24 24'
+            fill='none'
+            stroke='currentColor'
+            strokeWidth='2'
+            strokeLinecap='round'
+            strokeLinejoin='round'
+            {...props}
+        >
+            <path d='M18 6 6 18' />
+            <path d='m6 6 12 12' />
+        </svg>
+    );
+}
+
+interface RestDaysModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    rows: ActivityRow[];
+    periods: RestPeriod[];
+    freezesPerMonth: number;
+    onAdd: (period: RestPeriodInput) => Promise<void>;
+    onDelete: (periodId: string) => Promise<void>;
+    onFreezesChange: (freezesPerMonth: number) => Promise<void>;
+}
+
+export default function RestDaysModal({
+    isOpen,
+    onClose,
+    rows,
+    periods,
+    freezesPerMonth,
+    onAdd,
+    onDelete,
+    onFreezesChange,
+}: RestDaysModalProps) {
+    const [startDate, setStartDate] = useState<string>(formatDateKey(new Date()));
+    const [endDate, setEndDate] = useState<string>(formatDateKey(new Date()));
+    const [allActivities, setAllActivities] = useState<boolean>(true);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [reason, setReason] = useState<string>('');
+    const [freezes, setFreezes] = useState<string>(String(freezesPerMonth));
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    // Handle click outside to close
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleClick = (event: MouseEvent) => {
+            if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+                onClose();
+            }
+        };
+
+        document.addEventListener('mousedown', handleClick);
+        return () => {
+            document.removeEventListener('mousedown', handleClick);
+        };
+    }, [isOpen, onClose]);
+
+    if (!isOpen) return null;
+
+    const toggleActivity = (rowId: string) => {
+        setSelectedIds(prev => (prev.includes(rowId) ? prev.filter(id => id !== rowId) : [...prev, rowId]));
+    };
+
+    const describeScope = (period: RestPeriod): string => {
+        if (period.activityIds === null) return 'All activities';
+        return period.activityIds
+            .map(id => rows.find(row => row.id === id))
+            .filter((row): row is ActivityRow => Boolean(row))
+            .map(row => `${row.emoji} ${row.name}`)
+            .join(', ');
+    };
+
+    const handleAdd = async () => {
+        if (!startDate || !endDate) {
+            setError('Pick a start and end date.');
+            return;
+        }
+        if (endDate < startDate) {
+            setError('The end date must be on or after the start date.');
+            return;
+        }
+        if (!allActivities && selectedIds.length === 0) {
+            setError('Choose at least one activity, or cover all of them.');
+            return;
+        }
+
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onAdd({
+                startDate,
+                endDate,
+                activityIds: allActivities ? null : selectedIds,
+                reason: reason.trim() || null,
+            });
+            setReason('');
+        } catch {
+            setError('Failed to save the rest days. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleFreezesBlur = async () => {
+        const parsed = Number.parseInt(freezes, 10);
+        if (Number.isNaN(parsed) || parsed < 0 || parsed > 31) {
+            setError('Streak freezes must be a whole number between 0 and 31.');
+            setFreezes(String(freezesPerMonth));
+            return;
+        }
+        if (parsed === freezesPerMonth) return;
+
+        setError(null);
+        try {
+            await onFreezesChange(parsed);
+        } catch {
+            setError('Failed to save the streak freeze allowance. Please try again.');
+            setFreezes(String(freezesPerMonth));
+        }
+    };
+
+    return (
+        <div className='fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4'>
+            <div
+                ref={modalRef}
+                className='relative w-full max-w-lg rounded-lg bg-slate-700 p-6 shadow-lg max-h-[90vh] overflow-y-auto'
+            >
+                <button
+                    onClick={onClose}
+                    className='absolute right-4 top-4 text-slate-400 hover:text-white transition-colors cursor-pointer'
+                    aria-label='Close rest days'
+                >
+                    <XIcon className='w-5 h-5' />
+                </button>
+
+                <h2 className='text-xl font-semibold text-white mb-2 pr-8'>Rest days & vacations</h2>
+                <p className='text-sm text-slate-300 mb-6'>
+                    Rest days don&apos;t break streaks and are left out of completion rates and weekly averages.
+                </p>
+
+                <div className='space-y-3 mb-6'>
+                    <div className='grid grid-cols-2 gap-3'>
+                        <label className='block text-sm text-white'>
+                            From
+                            <input
+                                type='date'
+                                value={startDate}
+                                onChange={event => {
+                                    setStartDate(event.target.value);
+                                    if (endDate < event.target.value) setEndDate(event.target.value);
+                                }}
+                                className='mt-1 w-full px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white [color-scheme:dark]'
+                            />
+                        </label>
+                        <label className='block text-sm text-white'>
+                            To
+                            <input
+                                type='date'
+                                value={endDate}
+                                min={startDate}
+                                onChange={event => setEndDate(event.target.value)}
+                                className='mt-1 w-full px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white [color-scheme:dark]'
+                            />
+                        </label>
+                    </div>
+
+                    <div className='flex gap-2 text-sm'>
+                        <button
+                            onClick={() => setAllActivities(true)}
+                            className={`px-3 py-1 rounded-lg cursor-pointer ${allActivities ? 'bg-blue-600 text-white' : 'bg-slate-600 text-slate-300'}`}
+                        >
+                            All activities
+                        </button>
+                        <button
+                            onClick={() => setAllActivities(false)}
+                            className={`px-3 py-1 rounded-lg cursor-pointer ${!allActivities ? 'bg-blue-600 text-white' : 'bg-slate-600 text-slate-300'}`}
+                        >
+                            Chosen activities
+                        </button>
+                    </div>
+
+                    {!allActivities && (
+                        <div className='flex flex-wrap gap-2'>
+                            {rows.map(row => (
+                                <button
+                                    key={row.id}
+                                    onClick={() => toggleActivity(row.id)}
+                                    aria-pressed={selectedIds.includes(row.id)}
+                                    className={`px-2 py-1 rounded text-sm cursor-pointer ${selectedIds.includes(row.id) ? 'bg-blue-500 text-white' : 'bg-slate-600 text-slate-300'}`}
+                                >
+                                    {row.emoji} {row.name}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    <input
+                        type='text'
+                        value={reason}
+                        onChange={event => setReason(event.target.value)}
+                        placeholder='Reason (optional), e.g. sick, travelling'
+                        className='w-full px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white placeholder-slate-400'
+                    />
+
+                    <button
+                        onClick={handleAdd}
+                        disabled={isSaving}
+                        className='w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed'
+                    >
+                        {isSaving ? 'Saving...' : 'Add rest days'}
+                    </button>
+                </div>
+
+                <label className='flex items-center justify-between gap-3 text-sm text-white mb-6'>
+                    <span>
+                        Streak freezes per month
+                        <span className='block text-xs text-slate-400'>
+                            Missed planned days each activity can skip per month without losing its streak
+                        </span>
+                    </span>
+                    <input
+                        type='number'
+                        min={0}
+                        max={31}
+                        value={freezes}
+                        onChange={event => setFreezes(event.target.value)}
+                        onBlur={handleFreezesBlur}
+                        className='w-20 px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white'
+                    />
+                </label>
+
+                {error && <p className='text-red-400 text-sm mb-4'>{error}</p>}
+
+                {periods.length === 0 ? (
+                    <p className='text-slate-400 text-sm'>No rest days planned.</p>
+                ) : (
+                    <ul className='space-y-2 max-h-64 overflow-y-auto'>
+                        {periods.map(period => (
+                            <li
+                                key={period.id}
+                                className='flex items-center justify-between gap-3 rounded-lg bg-slate-800 px-3 py-2'
+                            >
+                                <div className='min-w-0'>
+                                    <div className='text-white font-medium'>🌴 {formatRestPeriod(period)}</div>
+                                    <div className='text-xs text-slate-400 truncate'>
+                                        {describeScope(period)}
+                                        {period.reason ? ` · ${period.reason}` : ''}
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={() => onDelete(period.id).catch(() => setError('Failed to remove.'))}
+                                    className='px-2 py-1 rounded text-sm text-red-400 hover:text-red-300 cursor-pointer'
+                                >
+                                    Remove
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { getBrowserTimeZone, getTimeZoneOptions, toWeekStartDay, WEEK_START_OPTIONS } from '@/lib/dates';
 import type { UserPreferences, UserPreferencesInput } from '@/lib/meals';
 import { upsertUserPreferences } from '@/lib/meals';
 
@@ -36,25 +37,40 @@ export default function SettingsModal({ isOpen, onClose, userPreferences, userId
     const [proteinGoal, setProteinGoal] = useState<string>('');
     const [carbsGoal, setCarbsGoal] = useState<string>('');
     const [fatsGoal, setFatsGoal] = useState<string>('');
+    const [weekStart, setWeekStart] = useState<string>('1');
+    // Empty follows the browser's time zone
+    const [timeZone, setTimeZone] = useState<string>('');
     const [isSaving, setIsSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const modalRef = useRef<HTMLDivElement>(null);
+    // Set once the form is used; until then it follows the preferences, e.g. when they finish loading late
+    const hasEditsRef = useRef(false);
+    const timeZoneOptions = useMemo(() => (isOpen ? getTimeZoneOptions() : []), [isOpen]);
 
-    // Initialize form values from userPreferences
     useEffect(() => {
+        hasEditsRef.current = false;
+    }, [isOpen]);
+
+    // Initialize form values from userPreferences, without wiping edits when they change on another device
+    useEffect(() => {
+        if (!isOpen || hasEditsRef.current) return;
         if (userPreferences) {
             setCaloriesGoal(userPreferences.daily_calories_goal?.toString() || '');
             setProteinGoal(userPreferences.daily_protein_goal?.toString() || '');
             setCarbsGoal(userPreferences.daily_carbs_goal?.toString() || '');
             setFatsGoal(userPreferences.daily_fats_goal?.toString() || '');
+            setWeekStart(String(toWeekStartDay(userPreferences.week_start)));
+            setTimeZone(userPreferences.timezone || '');
         } else {
             setCaloriesGoal('');
             setProteinGoal('');
             setCarbsGoal('');
             setFatsGoal('');
+            setWeekStart('1');
+            setTimeZone('');
         }
         setError(null);
-    }, [userPreferences, isOpen]);
+    }, [isOpen, userPreferences]);
 
     // Handle click outside to close
     useEffect(() => {
@@ -82,6 +98,9 @@ export default function SettingsModal({ isOpen, onClose, userPreferences, userId
                 daily_protein_goal: proteinGoal ? Number.parseInt(proteinGoal, 10) : null,
                 daily_carbs_goal: carbsGoal ? Number.parseInt(carbsGoal, 10) : null,
                 daily_fats_goal: fatsGoal ? Number.parseInt(fatsGoal, 10) : null,
+                week_start: toWeekStartDay(Number(weekStart)),
+                timezone: timeZone || null,
+                device_timezone: getBrowserTimeZone(),
             };
 
             const saved = await upsertUserPreferences(userId, preferences);
@@ -99,7 +118,11 @@ export default function SettingsModal({ isOpen, onClose, userPreferences, userId
 
     return (
         <div className='fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4'>
-            <div ref={modalRef} className='relative w-full max-w-md rounded-lg bg-slate-700 p-6 shadow-lg'>
+            <div
+                ref={modalRef}
+                onChangeCapture={() => (hasEditsRef.current = true)}
+                className='relative w-full max-w-md rounded-lg bg-slate-700 p-6 shadow-lg max-h-[90vh] overflow-y-auto'
+            >
                 {/* Close button */}
                 <button
                     onClick={onClose}
@@ -162,6 +185,40 @@ export default function SettingsModal({ isOpen, onClose, userPreferences, userId
                         />
                     </div>
 
+                    <div>
+                        <label className='block text-sm font-medium text-white mb-2'>Week Starts On</label>
+                        <select
+                            value={weekStart}
+                            onChange={e => setWeekStart(e.target.value)}
+                            className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                        >
+                            {WEEK_START_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label className='block text-sm font-medium text-white mb-2'>Time Zone</label>
+                        <select
+                            value={timeZone}
+                            onChange={e => setTimeZone(e.target.value)}
+                            className='w-full h-12 px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+                        >
+                            <option value=''>This device ({getBrowserTimeZone()})</option>
+                            {timeZoneOptions.map(zone => (
+                                <option key={zone} value={zone}>
+                                    {zone.replace(/_/g, ' ')}
+                                </option>
+                            ))}
+                        </select>
+                        <p className='mt-1 text-xs text-slate-400'>
+                            Decides which day meals and ticks land on. Set it to keep days stable while travelling.
+                        </p>
+                    </div>
+
                     {error && (
                         <div className='rounded-lg bg-red-900/50 border border-red-700 p-3 text-red-200 text-sm'>
                             {error}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSyncQueue, type SyncState, type SyncStatus } from '@/lib/syncQueue';
+
+const STATUS_STYLES: Record<SyncStatus, { dot: string; label: (pending: number) => string }> = {
+    synced: { dot: 'bg-green-400', label: () => 'All changes saved' },
+    syncing: {
+        dot: 'bg-blue-400 animate-pulse',
+        label: pending => `Syncing ${pending} change${pending === 1 ? '' : 's'}…`,
+    },
+    offline: {
+        dot: 'bg-yellow-400',
+        label: pending => (pending > 0 ? `Offline · ${pending} saved on this device` : 'Offline'),
+    },
+    error: { dot: 'bg-red-400', label: pending => (pending > 0 ? `${pending} not synced` : 'Some changes failed') },
+};
+
+export function useSyncState(): SyncState {
+    const [state, setState] = useState<SyncState>(() => getSyncQueue().getState());
+
+    useEffect(() => {
+        const queue = getSyncQueue();
+        setState(queue.getState());
+        return queue.subscribe(setState);
+    }, []);
+
+    return state;
+}
+
+export default function SyncStatusIndicator() {
+    const { status, pending, lastError } = useSyncState();
+    const style = STATUS_STYLES[status];
+    const canRetry = status === 'error' || (status === 'offline' && pending > 0);
+
+    return (
+        <button
+            type='button'
+            onClick={() => void getSyncQueue().flush()}
+            disabled={!canRetry}
+            title={lastError && status !== 'synced' ? `${lastError}${canRetry ? ' · Click to retry' : ''}` : undefined}
+            className='self-stretch px-3 py-1 text-xs text-slate-400 rounded-lg flex items-center justify-center gap-2 enabled:hover:text-white enabled:cursor-pointer transition-colors'
+            aria-live='polite'
+        >
+            <span className={`w-2 h-2 rounded-full ${style.dot}`} aria-hidden='true' />
+            <span>{style.label(pending)}</span>
+        </button>
+    );
+}
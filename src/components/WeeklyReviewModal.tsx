@@ -0,0 +1,205 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import ActivityIcon from '@/components/ActivityIcon';
+import type { ActivityRow } from '@/lib/activities';
+import { MAX_REVIEW_ANSWER_LENGTH, RATING_OPTIONS, type WeeklyReview } from '@/lib/weeklyReviews';
+
+type IconProps = React.SVGProps<SVGSVGElement>;
+
+function XIcon(props: IconProps) {
+    return (
+        <svg
+            viewBox='0 0 24 24'
+            fill='none'
+            stroke='currentColor'
+            strokeWidth='2'
+            strokeLinecap='round'
+            strokeLinejoin='round'
+            {...props}
+        >
+            <path d='M18 6 6 18' />
+            <path d='m6 6 12 12' />
+        </svg>
+    );
+}
+
+interface WeeklyReviewModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    // Activities that can be picked as next week's focus
+    rows: ActivityRow[];
+    // A review saved earlier for the week, e.g. before it was reopened
+    initialReview: WeeklyReview | null;
+    weekLabel: string;
+    onSubmit: (review: WeeklyReview) => Promise<void>;
+}
+
+export default function WeeklyReviewModal({
+    isOpen,
+    onClose,
+    rows,
+    initialReview,
+    weekLabel,
+    onSubmit,
+}: WeeklyReviewModalProps) {
+    const [rating, setRating] = useState<number | null>(initialReview?.rating ?? null);
+    const [wentWell, setWentWell] = useState<string>(initialReview?.wentWell ?? '');
+    const [toChange, setToChange] = useState<string>(initialReview?.toChange ?? '');
+    const [focusIds, setFocusIds] = useState<string[]>(
+        () => initialReview?.focusActivityIds.filter(id => rows.some(row => row.id === id)) ?? []
+    );
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    // Handle click outside to close
+    useEffect(() => {
+        if (!isOpen || isSaving) return;
+
+        const handleClick = (event: MouseEvent) => {
+            if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+                onClose();
+            }
+        };
+
+        document.addEventListener('mousedown', handleClick);
+        return () => {
+            document.removeEventListener('mousedown', handleClick);
+        };
+    }, [isOpen, isSaving, onClose]);
+
+    if (!isOpen) return null;
+
+    const toggleFocus = (rowId: string) => {
+        setFocusIds(prev => (prev.includes(rowId) ? prev.filter(id => id !== rowId) : [...prev, rowId]));
+    };
+
+    const handleSubmit = async () => {
+        if (rating === null) {
+            setError('Rate your week to complete it.');
+            return;
+        }
+
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSubmit({
+                rating,
+                wentWell: wentWell.trim() || null,
+                toChange: toChange.trim() || null,
+                focusActivityIds: focusIds,
+            });
+        } catch {
+            setError('Failed to complete the week. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className='fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4'>
+            <div
+                ref={modalRef}
+                className='relative w-full max-w-lg rounded-lg bg-slate-700 p-6 shadow-lg max-h-[90vh] overflow-y-auto'
+            >
+                <button
+                    onClick={onClose}
+                    disabled={isSaving}
+                    className='absolute right-4 top-4 text-slate-400 hover:text-white transition-colors cursor-pointer'
+                    aria-label='Close weekly review'
+                >
+                    <XIcon className='w-5 h-5' />
+                </button>
+
+                <h2 className='text-xl font-semibold text-white mb-1 pr-8'>Weekly review</h2>
+                <p className='text-sm text-slate-300 mb-6'>
+                    {weekLabel}. Your answers are saved with the week and shape its AI analysis.
+                </p>
+
+                <fieldset className='mb-5'>
+                    <legend className='text-sm font-medium text-white mb-2'>How did the week go?</legend>
+                    <div className='grid grid-cols-5 gap-2'>
+                        {RATING_OPTIONS.map(option => (
+                            <button
+                                key={option.value}
+                                type='button'
+                                onClick={() => setRating(option.value)}
+                                aria-pressed={rating === option.value}
+                                className={`flex flex-col items-center gap-1 py-2 rounded-lg cursor-pointer transition-colors ${
+                                    rating === option.value
+                                        ? 'bg-blue-600 text-white'
+                                        : 'bg-slate-600 text-slate-300 hover:bg-slate-500'
+                                }`}
+                            >
+                                <span className='text-2xl'>{option.emoji}</span>
+                                <span className='text-xs'>
+                                    {option.value} · {option.label}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+                </fieldset>
+
+                <label className='block text-sm font-medium text-white mb-4'>
+                    What went well?
+                    <textarea
+                        value={wentWell}
+                        onChange={event => setWentWell(event.target.value)}
+                        maxLength={MAX_REVIEW_ANSWER_LENGTH}
+                        rows={3}
+                        placeholder='e.g. Got to the gym three times despite a busy week'
+                        className='mt-1 w-full px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white font-normal placeholder-slate-400 resize-y focus:outline-none focus:ring-2 focus:ring-blue-500'
+                    />
+                </label>
+
+                <label className='block text-sm font-medium text-white mb-5'>
+                    What would you change?
+                    <textarea
+                        value={toChange}
+                        onChange={event => setToChange(event.target.value)}
+                        maxLength={MAX_REVIEW_ANSWER_LENGTH}
+                        rows={3}
+                        placeholder='e.g. Go to bed earlier so morning runs happen'
+                        className='mt-1 w-full px-3 py-2 border border-slate-600 rounded-lg bg-slate-600 text-white font-normal placeholder-slate-400 resize-y focus:outline-none focus:ring-2 focus:ring-blue-500'
+                    />
+                </label>
+
+                {rows.length > 0 && (
+                    <fieldset className='mb-6'>
+                        <legend className='text-sm font-medium text-white mb-2'>
+                            Focus for next week <span className='font-normal text-slate-400'>(optional)</span>
+                        </legend>
+                        <div className='flex flex-wrap gap-2'>
+                            {rows.map(row => (
+                                <button
+                                    key={row.id}
+                                    type='button'
+                                    onClick={() => toggleFocus(row.id)}
+                                    aria-pressed={focusIds.includes(row.id)}
+                                    className={`flex items-center gap-1 px-2 py-1 rounded text-sm cursor-pointer ${
+                                        focusIds.includes(row.id)
+                                            ? 'bg-blue-500 text-white'
+                                            : 'bg-slate-600 text-slate-300'
+                                    }`}
+                                >
+                                    <ActivityIcon row={row} /> {row.name}
+                                </button>
+                            ))}
+                        </div>
+                    </fieldset>
+                )}
+
+                {error && <p className='text-red-400 text-sm mb-4'>{error}</p>}
+
+                <button
+                    onClick={handleSubmit}
+                    disabled={isSaving}
+                    className='w-full px-4 py-2 bg-sky-500/75 text-white rounded-lg hover:bg-sky-500 transition-colors font-medium cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed'
+                >
+                    {isSaving ? 'Completing...' : 'Complete week ✓'}
+                </button>
+            </div>
+        </div>
+    );
+}
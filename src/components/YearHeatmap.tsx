@@ -0,0 +1,198 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+    formatActivityValue,
+    getDayValue,
+    getSuccessDays,
+    getUnitLabel,
+    isAvoidHabit,
+    isQuantitative,
+    isSkippedOn,
+    type ActivityRow,
+} from '@/lib/activities';
+import { formatDateKey, getWeekDates, getWeekdayLabels, type WeekStartDay } from '@/lib/dates';
+import { getYearHeatmap, type HeatmapLevel } from '@/lib/heatmap';
+
+const LEVEL_STYLES: Record<HeatmapLevel, string> = {
+    0: 'bg-slate-600',
+    1: 'bg-green-900',
+    2: 'bg-green-700',
+    3: 'bg-green-500',
+    4: 'bg-green-400',
+};
+
+// A selected row with its own color shades the levels in that color instead of green
+const LEVEL_OPACITY: Record<HeatmapLevel, number> = { 0: 0, 1: 0.3, 2: 0.5, 3: 0.75, 4: 1 };
+
+interface YearHeatmapProps {
+    rows: ActivityRow[];
+    selectedWeekStart: Date;
+    onSelectDate: (date: Date) => void;
+    weekStartsOn: WeekStartDay;
+    today: Date;
+}
+
+export default function YearHeatmap({ rows, selectedWeekStart, onSelectDate, weekStartsOn, today }: YearHeatmapProps) {
+    const currentYear = today.getFullYear();
+    const [year, setYear] = useState<number>(selectedWeekStart.getFullYear());
+    const [activityId, setActivityId] = useState<string>('');
+
+    const selectedRow = rows.find(row => row.id === activityId);
+    const isAvoid = selectedRow ? isAvoidHabit(selectedRow) : false;
+    const firstYear = useMemo(() => {
+        const firstKey = rows
+            .flatMap(row => row.completedDays)
+            .sort()
+            .find(Boolean);
+        return firstKey ? Math.min(Number(firstKey.slice(0, 4)), currentYear) : currentYear;
+    }, [rows, currentYear]);
+
+    const heatmap = useMemo(() => {
+        if (selectedRow && isAvoidHabit(selectedRow)) {
+            // An avoid row lights up its clean days
+            const cleanDays = new Set(getSuccessDays(selectedRow, today));
+            return getYearHeatmap(year, dateKey => (cleanDays.has(dateKey) ? 1 : 0), weekStartsOn);
+        }
+        if (selectedRow) {
+            return getYearHeatmap(year, dateKey => getDayValue(selectedRow, dateKey), weekStartsOn);
+        }
+        // Across all activities, a day's intensity is how many of them were done; slips on avoid rows aren't counted
+        const counts = new Map<string, number>();
+        rows.forEach(row => {
+            if (isAvoidHabit(row)) return;
+            row.completedDays.forEach(dateKey => counts.set(dateKey, (counts.get(dateKey) ?? 0) + 1));
+        });
+        return getYearHeatmap(year, dateKey => counts.get(dateKey) ?? 0, weekStartsOn);
+    }, [rows, selectedRow, year, weekStartsOn, today]);
+
+    // Label every other row, like the first, third and fifth day of the week
+    const weekdayLabels = getWeekdayLabels(weekStartsOn).map((label, index) =>
+        index % 2 === 0 && index < 6 ? label : ''
+    );
+    const selectedWeekKeys = new Set(getWeekDates(selectedWeekStart).map(date => formatDateKey(date)));
+    const unit = selectedRow && isQuantitative(selectedRow) ? getUnitLabel(selectedRow) : null;
+    const levelColor = selectedRow?.color ?? null;
+
+    const getLevelStyle = (level: HeatmapLevel): { className: string; style?: React.CSSProperties } =>
+        levelColor && level > 0
+            ? { className: '', style: { backgroundColor: levelColor, opacity: LEVEL_OPACITY[level] } }
+            : { className: LEVEL_STYLES[level] };
+
+    const describeValue = (value: number, dateKey: string): string => {
+        if (selectedRow && isAvoid) {
+            if (selectedRow.completedDays.includes(dateKey)) return 'Slip';
+            return value > 0 ? 'Clean' : 'Not tracked';
+        }
+        if (selectedRow) {
+            if (isSkippedOn(selectedRow, dateKey)) return 'Skipped';
+            if (unit) return `${formatActivityValue(value)} ${unit}`;
+            return value > 0 ? 'Done' : 'Not done';
+        }
+        return value === 1 ? '1 activity' : `${value} activities`;
+    };
+
+    return (
+        <div className='bg-slate-700 rounded-lg p-4 sm:p-6 mb-6'>
+            <div className='flex flex-wrap items-center justify-between gap-3 mb-4'>
+                <h3 className='text-lg font-semibold text-white flex items-center'>🗓️ Year at a Glance</h3>
+                <div className='flex items-center gap-2'>
+                    <select
+                        value={activityId}
+                        onChange={event => setActivityId(event.target.value)}
+                        aria-label='Heatmap activity'
+                        className='px-3 py-1 bg-slate-600 text-white text-sm rounded-lg border border-slate-500 cursor-pointer'
+                    >
+                        <option value=''>All activities</option>
+                        {rows.map(row => (
+                            <option key={row.id} value={row.id}>
+                                {row.emoji} {row.name}
+                            </option>
+                        ))}
+                    </select>
+                    <div className='flex items-center gap-1 text-white text-sm'>
+                        <button
+                            onClick={() => setYear(year - 1)}
+                            disabled={year <= firstYear}
+                            className='px-2 py-1 rounded-lg hover:bg-slate-600 cursor-pointer disabled:cursor-not-allowed disabled:opacity-40'
+                            aria-label='Previous year'
+                        >
+                            ‹
+                        </button>
+                        <span className='w-12 text-center font-medium'>{year}</span>
+                        <button
+                            onClick={() => setYear(year + 1)}
+                            disabled={year >= currentYear}
+                            className='px-2 py-1 rounded-lg hover:bg-slate-600 cursor-pointer disabled:cursor-not-allowed disabled:opacity-40'
+                            aria-label='Next year'
+                        >
+                            ›
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <div className='overflow-x-auto pb-2'>
+                <div className='inline-flex gap-2'>
+                    <div className='grid grid-rows-[1rem_repeat(7,0.75rem)] gap-[3px] text-[10px] text-slate-400'>
+                        <div></div>
+                        {weekdayLabels.map((label, index) => (
+                            <div key={index} className='leading-3'>
+                                {label}
+                            </div>
+                        ))}
+                    </div>
+                    <div className='flex gap-[3px]'>
+                        {heatmap.weeks.map((week, weekIndex) => (
+                            <div key={weekIndex} className='grid grid-rows-[1rem_repeat(7,0.75rem)] gap-[3px]'>
+                                <div className='text-[10px] text-slate-400 whitespace-nowrap leading-4'>
+                                    {heatmap.monthLabels.find(month => month.weekIndex === weekIndex)?.label ?? ''}
+                                </div>
+                                {week.map((day, dayIndex) =>
+                                    day ? (
+                                        <button
+                                            key={day.dateKey}
+                                            onClick={() => onSelectDate(day.date)}
+                                            title={`${day.date.toLocaleDateString('en-US', {
+                                                weekday: 'short',
+                                                month: 'short',
+                                                day: 'numeric',
+                                                year: 'numeric',
+                                            })} · ${describeValue(day.value, day.dateKey)}`}
+                                            aria-label={`${day.dateKey}: ${describeValue(day.value, day.dateKey)}`}
+                                            className={`w-3 h-3 rounded-sm cursor-pointer hover:ring-1 hover:ring-white ${getLevelStyle(day.level).className} ${
+                                                selectedWeekKeys.has(day.dateKey) ? 'ring-1 ring-blue-400' : ''
+                                            }`}
+                                            style={getLevelStyle(day.level).style}
+                                        />
+                                    ) : (
+                                        <div key={dayIndex} className='w-3 h-3' />
+                                    )
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <div className='mt-3 flex flex-wrap items-center justify-between gap-2 text-xs text-slate-300'>
+                <span>
+                    {heatmap.activeDays} {isAvoid ? 'clean' : 'active'} {heatmap.activeDays === 1 ? 'day' : 'days'} in{' '}
+                    {year}
+                    {unit ? ` · ${formatActivityValue(heatmap.total)} ${unit}` : ''}
+                </span>
+                <div className='flex items-center gap-1'>
+                    <span>Less</span>
+                    {([0, 1, 2, 3, 4] as HeatmapLevel[]).map(level => (
+                        <span
+                            key={level}
+                            className={`w-3 h-3 rounded-sm ${getLevelStyle(level).className}`}
+                            style={getLevelStyle(level).style}
+                        />
+                    ))}
+                    <span>More</span>
+                </div>
+            </div>
+        </div>
+    );
+}
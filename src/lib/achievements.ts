@@ -0,0 +1,222 @@
+import { supabase } from '@/lib/supabase';
+import { isArchived, isAvoidHabit, isRowScheduledOn, type ActivityRow } from '@/lib/activities';
+import { getRowCompletionRate } from '@/lib/activityStats';
+import {
+    addDays,
+    DEFAULT_WEEK_START,
+    formatDateKey,
+    getWeekDates,
+    getWeekStartDate,
+    normalizeDateKey,
+    parseDateKey,
+    type WeekStartDay,
+} from '@/lib/dates';
+import type { DailyTotals, UserPreferences } from '@/lib/meals';
+import { isRestDay, type RestPeriod } from '@/lib/restDays';
+import { getActivityStreakStats } from '@/lib/streaks';
+
+/**
+ * Data the rules are checked against. Each page passes what it has loaded: rules whose data is missing
+ * (e.g. food rules on the activity grid before the totals arrive) simply stay locked until a page that has it checks.
+ */
+export interface AchievementContext {
+    today: Date;
+    rows?: ActivityRow[];
+    restPeriods?: RestPeriod[];
+    freezesPerMonth?: number;
+    weekStartsOn?: WeekStartDay;
+    dailyTotals?: DailyTotals[];
+    preferences?: UserPreferences | null;
+}
+
+export interface Achievement {
+    id: string;
+    name: string;
+    description: string;
+    emoji: string;
+    isUnlocked: (context: AchievementContext) => boolean;
+}
+
+export interface UnlockedAchievement {
+    achievementId: string;
+    unlockedAt: string;
+}
+
+export interface UnlockedAchievementRecord {
+    user_id: string;
+    achievement_id: string;
+    unlocked_at: string;
+}
+
+// Ticks on avoid rows are slips, so they don't count as completions
+const getTotalCompletions = (rows: ActivityRow[]): number =>
+    rows.reduce((total, row) => total + (isAvoidHabit(row) ? 0 : row.completedDays.length), 0);
+
+const getLongestRowStreak = ({ rows = [], restPeriods = [], freezesPerMonth = 0, today }: AchievementContext) =>
+    rows.reduce((longest, row) => {
+        const { longest: streak } = getActivityStreakStats(row, today, {
+            isScheduled: date => isRowScheduledOn(row, date) && !isRestDay(restPeriods, row.id, formatDateKey(date)),
+            freezesPerMonth,
+        });
+        return Math.max(longest, streak?.length ?? 0);
+    }, 0);
+
+/**
+ * Whether any finished week had every planned, unskipped day of every activity done (or clean, for avoid rows). Activities
+ * only count from their first completion onwards, so adding a new habit doesn't spoil the weeks before it existed.
+ */
+const hasPerfectWeek = ({
+    rows = [],
+    restPeriods = [],
+    weekStartsOn = DEFAULT_WEEK_START,
+    today,
+}: AchievementContext) => {
+    const trackedRows = rows
+        .filter(row => !isArchived(row))
+        .map(row => ({
+            row,
+            firstKey: (isAvoidHabit(row) ? row.trackedSince : null) ?? [...row.completedDays].sort()[0],
+        }))
+        .filter(({ firstKey }) => Boolean(firstKey));
+    if (trackedRows.length === 0) return false;
+
+    const firstKey = trackedRows.map(({ firstKey }) => firstKey).sort()[0];
+    const todayKey = formatDateKey(today);
+
+    for (
+        let weekStart = getWeekStartDate(parseDateKey(firstKey), weekStartsOn);
+        formatDateKey(addDays(weekStart, 6)) < todayKey;
+        weekStart = addDays(weekStart, 7)
+    ) {
+        const weekDates = getWeekDates(weekStart);
+        const weekEndKey = formatDateKey(weekDates[6]);
+        const rates = trackedRows
+            .filter(({ firstKey }) => firstKey <= weekEndKey)
+            .map(({ row }) => getRowCompletionRate(row, weekDates, today, restPeriods))
+            .filter((rate): rate is number => rate !== null);
+        if (rates.length > 0 && rates.every(rate => rate === 1)) return true;
+    }
+    return false;
+};
+
+// Longest run of consecutive days whose logged protein reached the daily goal
+const getLongestProteinGoalRun = ({ dailyTotals = [], preferences }: AchievementContext): number => {
+    const goal = preferences?.daily_protein_goal;
+    if (!goal || goal <= 0) return 0;
+
+    const goalDays = dailyTotals
+        .filter(total => (total.total_protein ?? 0) >= goal)
+        .map(total => normalizeDateKey(total.meal_day))
+        .sort();
+
+    let longest = 0;
+    let run = 0;
+    let previous: string | null = null;
+    goalDays.forEach(dateKey => {
+        run = previous && formatDateKey(addDays(parseDateKey(previous), 1)) === dateKey ? run + 1 : 1;
+        longest = Math.max(longest, run);
+        previous = dateKey;
+    });
+    return longest;
+};
+
+export const ACHIEVEMENTS: Achievement[] = [
+    {
+        id: 'first-completion',
+        name: 'First Step',
+        description: 'Tick off an activity for the first time',
+        emoji: '👟',
+        isUnlocked: ({ rows }) => Boolean(rows && getTotalCompletions(rows) >= 1),
+    },
+    {
+        id: 'streak-7',
+        name: 'Week Warrior',
+        description: 'Reach a 7-day streak on any activity',
+        emoji: '🔥',
+        isUnlocked: context => Boolean(context.rows) && getLongestRowStreak(context) >= 7,
+    },
+    {
+        id: 'streak-30',
+        name: 'Unstoppable',
+        description: 'Reach a 30-day streak on any activity',
+        emoji: '🚀',
+        isUnlocked: context => Boolean(context.rows) && getLongestRowStreak(context) >= 30,
+    },
+    {
+        id: 'completions-100',
+        name: 'Century',
+        description: 'Log 100 completions in total',
+        emoji: '💯',
+        isUnlocked: ({ rows }) => Boolean(rows && getTotalCompletions(rows) >= 100),
+    },
+    {
+        id: 'perfect-week',
+        name: 'Perfect Week',
+        description: 'Complete every planned day of every activity for a whole week',
+        emoji: '🌟',
+        isUnlocked: context => Boolean(context.rows) && hasPerfectWeek(context),
+    },
+    {
+        id: 'first-meal',
+        name: 'Food Logger',
+        description: 'Log your first meal in the food diary',
+        emoji: '🍽️',
+        isUnlocked: ({ dailyTotals }) => Boolean(dailyTotals?.some(total => (total.total_calories ?? 0) > 0)),
+    },
+    {
+        id: 'protein-goal-10',
+        name: 'Protein Pro',
+        description: 'Hit your daily protein goal 10 days in a row',
+        emoji: '🥩',
+        isUnlocked: context => getLongestProteinGoalRun(context) >= 10,
+    },
+];
+
+// Achievements the context now satisfies that weren't unlocked before
+export const getNewlyUnlockedAchievements = (context: AchievementContext, unlockedIds: Set<string>): Achievement[] =>
+    ACHIEVEMENTS.filter(achievement => !unlockedIds.has(achievement.id) && achievement.isUnlocked(context));
+
+export async function getUnlockedAchievements(userId: string): Promise<UnlockedAchievement[]> {
+    const { data, error } = await supabase
+        .from('user_achievements')
+        .select('*')
+        .eq('user_id', userId)
+        .order('unlocked_at', { ascending: true });
+
+    if (error) {
+        if (error.code === '42P01' || error.code === 'PGRST205' || error.message?.includes('does not exist')) {
+            console.warn('user_achievements table does not exist yet. Please run the migration.');
+            return [];
+        }
+        console.error('Error fetching achievements:', error);
+        throw error;
+    }
+
+    return ((data || []) as UnlockedAchievementRecord[]).map(record => ({
+        achievementId: record.achievement_id,
+        unlockedAt: record.unlocked_at,
+    }));
+}
+
+export async function saveUnlockedAchievements(
+    userId: string,
+    achievementIds: string[]
+): Promise<UnlockedAchievement[]> {
+    const unlockedAt = new Date().toISOString();
+    // Another device may have unlocked the same badge first; its unlock date is kept
+    const { error } = await supabase.from('user_achievements').upsert(
+        achievementIds.map(achievementId => ({
+            user_id: userId,
+            achievement_id: achievementId,
+            unlocked_at: unlockedAt,
+        })),
+        { onConflict: 'user_id,achievement_id', ignoreDuplicates: true }
+    );
+
+    if (error) {
+        console.error('Error saving achievements:', error);
+        throw error;
+    }
+
+    return achievementIds.map(achievementId => ({ achievementId, unlockedAt }));
+}
@@ -0,0 +1,313 @@
+import { addDays, formatDateKey, normalizeDateKey, parseDateKey } from '@/lib/dates';
+import { DAILY_SCHEDULE, isScheduledOn, parseSchedule, type Schedule } from '@/lib/schedules';
+
+export type MeasurementType = 'boolean' | 'count' | 'minutes' | 'distance' | 'custom';
+
+// `days` counts days with any completion, `amount` sums the logged values of a quantitative row
+export type TargetType = 'days' | 'amount';
+
+// `build` rows are ticked when done; `avoid` rows count unticked days as clean and a tick logs a slip
+export type HabitType = 'build' | 'avoid';
+
+export type TargetStatus = 'met' | 'on-track' | 'behind';
+
+// A day is done when logged, skipped when excused (e.g. an injury), and missed otherwise
+export type DayStatus = 'done' | 'skipped' | 'missed';
+
+export interface TargetProgress {
+    progress: number;
+    target: number;
+    status: TargetStatus;
+}
+
+export interface ActivityRow {
+    id: string;
+    name: string;
+    emoji: string;
+    // Hex color such as #3b82f6 behind the emoji and in charts; null uses the default look
+    color: string | null;
+    description: string | null;
+    habitType: HabitType;
+    // First day an avoid row counts clean days from, so the days before it was set up aren't scored
+    trackedSince: string | null;
+    measurementType: MeasurementType;
+    unit: string | null;
+    weeklyTarget: number | null;
+    targetType: TargetType;
+    schedule: Schedule;
+    // User-defined section of the grid, e.g. Health or Chores; null for ungrouped rows
+    group: string | null;
+    // Archived rows are hidden from the weekly grid but keep their history for trends and statistics
+    archivedAt: string | null;
+    completedDays: string[];
+    // Logged amount per date key; only used by non-boolean measurement types
+    dayValues: Record<string, number>;
+    // Skipped date keys with an optional reason; they neither count as done nor break streaks
+    skippedDays: Record<string, string | null>;
+    // Journal note per logged (or skipped) date key, e.g. "5x5 squats at 80 kg"
+    dayNotes: Record<string, string>;
+}
+
+export interface ActivityRowRecord {
+    id: string;
+    user_id: string;
+    name: string;
+    emoji: string;
+    color?: string | null;
+    description?: string | null;
+    habit_type?: HabitType | null;
+    tracked_since?: string | null;
+    measurement_type?: MeasurementType | null;
+    unit?: string | null;
+    weekly_target?: number | null;
+    target_type?: TargetType | null;
+    schedule?: Schedule | null;
+    group_name?: string | null;
+    archived_at?: string | null;
+    // Legacy completion storage, only read when activity_completions hasn't been migrated yet
+    completed_days?: string[] | null;
+    day_values?: Record<string, number> | null;
+    order_index: number;
+}
+
+export const MEASUREMENT_TYPES: { value: MeasurementType; label: string; defaultUnit: string | null }[] = [
+    { value: 'boolean', label: 'Done / not done', defaultUnit: null },
+    { value: 'count', label: 'Count', defaultUnit: 'times' },
+    { value: 'minutes', label: 'Duration', defaultUnit: 'min' },
+    { value: 'distance', label: 'Distance', defaultUnit: 'km' },
+    { value: 'custom', label: 'Custom unit', defaultUnit: null },
+];
+
+export const HABIT_TYPES: { value: HabitType; label: string }[] = [
+    { value: 'build', label: 'Build: tick the days it was done' },
+    { value: 'avoid', label: 'Avoid: tick the days it slipped' },
+];
+
+export const ROW_COLORS: { value: string; label: string }[] = [
+    { value: '#ef4444', label: 'Red' },
+    { value: '#f97316', label: 'Orange' },
+    { value: '#eab308', label: 'Yellow' },
+    { value: '#22c55e', label: 'Green' },
+    { value: '#14b8a6', label: 'Teal' },
+    { value: '#3b82f6', label: 'Blue' },
+    { value: '#8b5cf6', label: 'Violet' },
+    { value: '#ec4899', label: 'Pink' },
+];
+
+// Used by charts for rows without a color and for the all-activities view
+export const DEFAULT_ROW_COLOR = '#A020F0';
+
+export const isHexColor = (value: unknown): value is string =>
+    typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+export const getRowColor = (row: Pick<ActivityRow, 'color'> | undefined): string => row?.color ?? DEFAULT_ROW_COLOR;
+
+export const isArchived = (row: Pick<ActivityRow, 'archivedAt'>): boolean => row.archivedAt !== null;
+
+export const isQuantitative = (row: Pick<ActivityRow, 'measurementType'>): boolean => row.measurementType !== 'boolean';
+
+export const isAvoidHabit = (row: Pick<ActivityRow, 'habitType'>): boolean => row.habitType === 'avoid';
+
+export const getUnitLabel = (row: Pick<ActivityRow, 'measurementType' | 'unit'>): string => {
+    if (row.unit) return row.unit;
+    return MEASUREMENT_TYPES.find(type => type.value === row.measurementType)?.defaultUnit ?? '';
+};
+
+export const createActivityRow = (
+    fields: Pick<ActivityRow, 'id' | 'name' | 'emoji'> & Partial<ActivityRow>
+): ActivityRow => ({
+    color: null,
+    description: null,
+    habitType: 'build',
+    trackedSince: null,
+    measurementType: 'boolean',
+    unit: null,
+    weeklyTarget: null,
+    targetType: 'days',
+    schedule: DAILY_SCHEDULE,
+    group: null,
+    archivedAt: null,
+    completedDays: [],
+    dayValues: {},
+    skippedDays: {},
+    dayNotes: {},
+    ...fields,
+});
+
+export const rowFromRecord = (record: ActivityRowRecord): ActivityRow => {
+    const dayValues: Record<string, number> = {};
+    Object.entries(record.day_values ?? {}).forEach(([day, value]) => {
+        if (typeof value === 'number' && Number.isFinite(value)) {
+            dayValues[normalizeDateKey(day)] = value;
+        }
+    });
+
+    return {
+        id: record.id,
+        name: record.name,
+        emoji: record.emoji,
+        color: isHexColor(record.color) ? record.color.toLowerCase() : null,
+        description: record.description ?? null,
+        habitType: record.habit_type ?? 'build',
+        trackedSince: record.tracked_since ? normalizeDateKey(record.tracked_since) : null,
+        measurementType: record.measurement_type ?? 'boolean',
+        unit: record.unit ?? null,
+        weeklyTarget: record.weekly_target ?? null,
+        targetType: record.target_type ?? 'days',
+        schedule: parseSchedule(record.schedule),
+        group: record.group_name?.trim() || null,
+        archivedAt: record.archived_at ?? null,
+        completedDays: (record.completed_days || []).map(normalizeDateKey),
+        dayValues,
+        skippedDays: {},
+        dayNotes: {},
+    };
+};
+
+// Completions are stored separately in activity_completions, so the record only carries row settings
+export const rowToRecord = (row: ActivityRow, userId: string, orderIndex: number): ActivityRowRecord => ({
+    id: row.id,
+    user_id: userId,
+    name: row.name,
+    emoji: row.emoji,
+    color: row.color,
+    description: row.description,
+    habit_type: row.habitType,
+    tracked_since: row.trackedSince,
+    measurement_type: row.measurementType,
+    unit: row.unit,
+    weekly_target: row.weeklyTarget,
+    target_type: row.targetType,
+    schedule: row.schedule,
+    group_name: row.group,
+    archived_at: row.archivedAt,
+    order_index: orderIndex,
+});
+
+// Boolean rows count a completed day as 1, quantitative rows report the logged amount
+export const getDayValue = (row: ActivityRow, dateKey: string): number => {
+    if (!isQuantitative(row)) {
+        return row.completedDays.includes(dateKey) ? 1 : 0;
+    }
+    return row.dayValues[dateKey] ?? 0;
+};
+
+export const isSkippedOn = (row: Pick<ActivityRow, 'skippedDays'>, dateKey: string): boolean =>
+    Object.prototype.hasOwnProperty.call(row.skippedDays, dateKey);
+
+export const getDayStatus = (row: ActivityRow, dateKey: string): DayStatus => {
+    if (row.completedDays.includes(dateKey)) return 'done';
+    return isSkippedOn(row, dateKey) ? 'skipped' : 'missed';
+};
+
+// Logging a value (or clearing the day) replaces a skip on the same day; a note stays until the day is cleared
+export const setDayValue = (row: ActivityRow, dateKey: string, value: number | null): ActivityRow => {
+    const dayValues = { ...row.dayValues };
+    const dayNotes = { ...row.dayNotes };
+    const completedDays = row.completedDays.filter(day => day !== dateKey);
+    const skippedDays = { ...row.skippedDays };
+    delete skippedDays[dateKey];
+
+    if (value !== null && Number.isFinite(value) && value > 0) {
+        completedDays.push(dateKey);
+        if (isQuantitative(row)) {
+            dayValues[dateKey] = value;
+        }
+    } else {
+        delete dayValues[dateKey];
+        delete dayNotes[dateKey];
+    }
+
+    return { ...row, completedDays, dayValues, skippedDays, dayNotes };
+};
+
+// A skip keeps the day's journal note, so it's back when the day is logged again
+export const setDaySkipped = (row: ActivityRow, dateKey: string, reason: string | null): ActivityRow => {
+    const dayValues = { ...row.dayValues };
+    delete dayValues[dateKey];
+
+    return {
+        ...row,
+        completedDays: row.completedDays.filter(day => day !== dateKey),
+        dayValues,
+        skippedDays: { ...row.skippedDays, [dateKey]: reason },
+    };
+};
+
+// Only logged (or skipped) days carry a note; an empty note removes it
+export const setDayNote = (row: ActivityRow, dateKey: string, note: string | null): ActivityRow => {
+    const dayNotes = { ...row.dayNotes };
+    const trimmed = note?.trim();
+    if (trimmed && (row.completedDays.includes(dateKey) || isSkippedOn(row, dateKey))) {
+        dayNotes[dateKey] = trimmed;
+    } else {
+        delete dayNotes[dateKey];
+    }
+    return { ...row, dayNotes };
+};
+
+/**
+ * The days a row succeeded on: its ticks for build rows, and every day without a slip for avoid rows,
+ * from the day tracking started up to today (today stays clean until a slip is logged).
+ */
+export const getSuccessDays = (row: ActivityRow, today: Date): string[] => {
+    if (!isAvoidHabit(row)) return row.completedDays;
+
+    const startKey = row.trackedSince ?? [...row.completedDays].sort()[0];
+    if (!startKey) return [];
+
+    const todayKey = formatDateKey(today);
+    const slips = new Set(row.completedDays);
+    const days: string[] = [];
+    for (let cursor = parseDateKey(startKey); formatDateKey(cursor) <= todayKey; cursor = addDays(cursor, 1)) {
+        const dateKey = formatDateKey(cursor);
+        if (!slips.has(dateKey)) days.push(dateKey);
+    }
+    return days;
+};
+
+export const sumDayValues = (row: ActivityRow, dateKeys: string[]): number => {
+    return dateKeys.reduce((total, dateKey) => total + getDayValue(row, dateKey), 0);
+};
+
+export const formatActivityValue = (value: number): string => {
+    return Number.isInteger(value) ? String(value) : value.toFixed(1);
+};
+
+export const formatTarget = (row: ActivityRow): string => {
+    if (row.weeklyTarget === null) return '';
+    if (row.targetType === 'amount') {
+        return `${formatActivityValue(row.weeklyTarget)} ${getUnitLabel(row)}/week`;
+    }
+    return row.weeklyTarget === 1 ? '1 day/week' : `${formatActivityValue(row.weeklyTarget)} days/week`;
+};
+
+export const isRowScheduledOn = (row: ActivityRow, date: Date): boolean => isScheduledOn(row.schedule, date);
+
+// Compares progress with an even pace across the week's scheduled days; today still counts as a chance to catch up.
+// Avoid rows have no target, since their ticks are slips rather than progress
+export const getTargetProgress = (row: ActivityRow, weekDates: Date[], today: Date): TargetProgress | null => {
+    if (isAvoidHabit(row) || row.weeklyTarget === null || row.weeklyTarget <= 0) return null;
+
+    const weekKeys = weekDates.map(date => formatDateKey(date));
+    const completedInWeek = weekKeys.filter(key => row.completedDays.includes(key));
+    const progress =
+        row.targetType === 'amount' && isQuantitative(row)
+            ? sumDayValues(row, completedInWeek)
+            : completedInWeek.length;
+
+    const todayKey = formatDateKey(today);
+    const scheduledDates = weekDates.filter(date => isRowScheduledOn(row, date));
+    const plannedDates = scheduledDates.length > 0 ? scheduledDates : weekDates;
+    const elapsedDays = plannedDates.filter(date => formatDateKey(date) < todayKey).length;
+    const expected = (row.weeklyTarget * elapsedDays) / plannedDates.length;
+
+    let status: TargetStatus = 'behind';
+    if (progress >= row.weeklyTarget) {
+        status = 'met';
+    } else if (progress >= expected) {
+        status = 'on-track';
+    }
+
+    return { progress, target: row.weeklyTarget, status };
+};
@@ -0,0 +1,149 @@
+import { getDayValue, getSuccessDays, isAvoidHabit, isSkippedOn, type ActivityRow } from '@/lib/activities';
+import {
+    addDays,
+    DEFAULT_WEEK_START,
+    formatDateKey,
+    getWeekdayLabels,
+    parseDateKey,
+    type WeekStartDay,
+} from '@/lib/dates';
+import { isRestDay, type RestPeriod } from '@/lib/restDays';
+import { getCompletionRate } from '@/lib/schedules';
+
+export interface CompletionRatePeriod {
+    label: string;
+    days: number;
+}
+
+export const COMPLETION_RATE_PERIODS: CompletionRatePeriod[] = [
+    { label: '7 days', days: 7 },
+    { label: '30 days', days: 30 },
+    { label: '90 days', days: 90 },
+    { label: 'Year', days: 365 },
+];
+
+export interface WeekdayCount {
+    label: string;
+    count: number;
+}
+
+export interface HistoryEntry {
+    dateKey: string;
+    value: number;
+    skipped: boolean;
+    // Reason given for a skip
+    reason: string | null;
+    // Journal note on a logged day
+    note: string | null;
+}
+
+export interface DayNote {
+    row: ActivityRow;
+    dateKey: string;
+    note: string;
+}
+
+export interface HistoryMonth {
+    key: string;
+    label: string;
+    entries: HistoryEntry[];
+}
+
+/**
+ * Share of a row's planned days in `dates` that were done (or clean, for avoid rows). Rest days and
+ * skipped days are left out of the denominator, so being excused never lowers the rate.
+ */
+export function getRowCompletionRate(
+    row: ActivityRow,
+    dates: Date[],
+    today: Date = new Date(),
+    restPeriods: RestPeriod[] = []
+): number | null {
+    const countedDates = dates.filter(date => {
+        const dateKey = formatDateKey(date);
+        return !isRestDay(restPeriods, row.id, dateKey) && !isSkippedOn(row, dateKey);
+    });
+    return getCompletionRate(getSuccessDays(row, today), row.schedule, countedDates, today);
+}
+
+/**
+ * Completion rate over the last `days` days, up to and including today, leaving out the row's rest and skipped days.
+ * The window never starts before the first completion (or, for avoid rows, the day tracking started),
+ * so a habit started last week isn't judged on the months before. Avoid rows are rated on their clean days.
+ */
+export function getCompletionRateForPeriod(
+    row: ActivityRow,
+    days: number,
+    today: Date = new Date(),
+    restPeriods: RestPeriod[] = []
+): number | null {
+    const firstKey = (isAvoidHabit(row) ? row.trackedSince : null) ?? [...row.completedDays].sort()[0];
+    if (!firstKey) return null;
+
+    const periodStart = addDays(today, -(days - 1));
+    const firstDay = parseDateKey(firstKey);
+    const start = firstDay > periodStart ? firstDay : periodStart;
+
+    const dates: Date[] = [];
+    for (let cursor = new Date(start); formatDateKey(cursor) <= formatDateKey(today); cursor = addDays(cursor, 1)) {
+        dates.push(cursor);
+    }
+    return getRowCompletionRate(row, dates, today, restPeriods);
+}
+
+// Completions (slips, for avoid rows) per weekday, in week order starting from the user's week start day
+export function getWeekdayDistribution(
+    row: ActivityRow,
+    weekStartsOn: WeekStartDay = DEFAULT_WEEK_START
+): WeekdayCount[] {
+    const counts = getWeekdayLabels(weekStartsOn).map(label => ({ label, count: 0 }));
+    row.completedDays.forEach(dateKey => {
+        const weekdayIndex = (parseDateKey(dateKey).getDay() - weekStartsOn + 7) % 7;
+        counts[weekdayIndex].count += 1;
+    });
+    return counts;
+}
+
+// Logged and skipped days (slips, for avoid rows) grouped by month, newest first
+export function getHistoryByMonth(row: ActivityRow): HistoryMonth[] {
+    const months = new Map<string, HistoryMonth>();
+    [...row.completedDays, ...Object.keys(row.skippedDays)]
+        .sort()
+        .reverse()
+        .forEach(dateKey => {
+            const key = dateKey.slice(0, 7);
+            let month = months.get(key);
+            if (!month) {
+                month = {
+                    key,
+                    label: parseDateKey(dateKey).toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+                    entries: [],
+                };
+                months.set(key, month);
+            }
+            const skipped = isSkippedOn(row, dateKey);
+            month.entries.push({
+                dateKey,
+                value: getDayValue(row, dateKey),
+                skipped,
+                reason: skipped ? row.skippedDays[dateKey] : null,
+                note: row.dayNotes[dateKey] ?? null,
+            });
+        });
+    return Array.from(months.values());
+}
+
+/**
+ * Journal notes across rows, newest first. With a query, only notes (or activity names) containing
+ * every word of it are kept, ignoring case.
+ */
+export function searchDayNotes(rows: ActivityRow[], query = ''): DayNote[] {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return rows
+        .flatMap(row => Object.entries(row.dayNotes).map(([dateKey, note]) => ({ row, dateKey, note })))
+        .filter(({ row, note }) => {
+            const text = `${note} ${row.name}`.toLowerCase();
+            return words.every(word => text.includes(word));
+        })
+        .sort((a, b) => b.dateKey.localeCompare(a.dateKey));
+}
@@ -0,0 +1,71 @@
+import { supabase } from '@/lib/supabase';
+
+export type AiEndpoint = 'weekly-analysis' | 'meal-estimate';
+
+// Requests each user can make per endpoint within the window. Enforced by consume_ai_request in the database,
+// which has its own copy of these numbers; here they only word the error message
+export const AI_RATE_LIMITS: Record<AiEndpoint, { maxRequests: number; windowSeconds: number }> = {
+    'weekly-analysis': { maxRequests: 10, windowSeconds: 60 * 60 },
+    'meal-estimate': { maxRequests: 30, windowSeconds: 60 * 60 },
+};
+
+export interface MealEstimate {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fats: number;
+}
+
+export const MAX_MEAL_DESCRIPTION_LENGTH = 1000;
+
+export const buildMealEstimatePrompt = (description: string): string =>
+    `You estimate nutrition facts. Return JSON like {"calories":120, "protein":8, "carbs":15, "fats":4} with whole numbers.
+If data is missing, best-guess typical values. Description: ${description}`;
+
+// Pulls the JSON object out of the model's reply; missing or invalid values become 0
+export const parseMealEstimate = (rawText: string): MealEstimate => {
+    const jsonMatch = rawText.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+        throw new Error('Unable to parse AI response');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]) as Partial<Record<keyof MealEstimate, unknown>>;
+    const sanitize = (value: unknown) =>
+        typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.round(value) : 0;
+
+    return {
+        calories: sanitize(parsed.calories),
+        protein: sanitize(parsed.protein),
+        carbs: sanitize(parsed.carbs),
+        fats: sanitize(parsed.fats),
+    };
+};
+
+/**
+ * Calls one of the /api/ai route handlers as the signed-in user. The Gemini key stays on the server,
+ * which checks the session and rate-limits each user. Failures throw with the handler's message, e.g. when
+ * the rate limit is reached.
+ */
+export async function requestAi<T>(endpoint: AiEndpoint, body: unknown): Promise<T> {
+    const {
+        data: { session },
+    } = await supabase.auth.getSession();
+    if (!session) {
+        throw new Error('Please sign in to use AI features.');
+    }
+
+    const response = await fetch(`/api/ai/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.access_token}` },
+        body: JSON.stringify(body),
+    });
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok) {
+        throw new Error(result?.error ?? 'The AI request failed.');
+    }
+    return result as T;
+}
+
+export const estimateMeal = (description: string): Promise<MealEstimate> =>
+    requestAi<MealEstimate>('meal-estimate', { description });
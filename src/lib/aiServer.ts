@@ -0,0 +1,108 @@
+import { GoogleGenAI } from '@google/genai';
+import { createClient, type SupabaseClient, type User } from '@supabase/supabase-js';
+import { AI_RATE_LIMITS, type AiEndpoint } from '@/lib/ai';
+
+// Only read on the server, so the key never reaches the browser
+const getGeminiApiKey = (): string | undefined => process.env.GEMINI_API_KEY;
+
+// Request bodies are small JSON documents; anything bigger is refused before it reaches the model
+const MAX_BODY_BYTES = 200_000;
+
+interface AiRequestContext {
+    user: User;
+    // Acts as the signed-in user, so row level security applies
+    client: SupabaseClient;
+}
+
+// Checks the Supabase access token the client sends as a bearer token
+const authenticate = async (request: Request): Promise<AiRequestContext | null> => {
+    const token = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+    if (!token || !supabaseUrl || !anonKey) return null;
+
+    const client = createClient(supabaseUrl, anonKey, {
+        auth: { persistSession: false },
+        global: { headers: { Authorization: `Bearer ${token}` } },
+    });
+    const { data, error } = await client.auth.getUser(token);
+    if (error || !data.user) return null;
+    return { user: data.user, client };
+};
+
+// The limits themselves are set in the database function, so a caller can't raise them
+const consumeRequest = async ({ client }: AiRequestContext, endpoint: AiEndpoint): Promise<boolean> => {
+    const { data, error } = await client.rpc('consume_ai_request', { endpoint_name: endpoint });
+
+    if (error) {
+        console.error('Error checking the AI rate limit:', error);
+        throw error;
+    }
+    return data === true;
+};
+
+export async function generateText(prompt: string): Promise<string> {
+    const ai = new GoogleGenAI({ apiKey: getGeminiApiKey() ?? '' });
+    const response = await ai.models.generateContent({
+        model: 'gemini-2.0-flash-001',
+        contents: prompt,
+    });
+
+    if (response.text) return response.text;
+    return (
+        response.candidates?.[0]?.content?.parts
+            ?.map(part => ('text' in part && typeof part.text === 'string' ? part.text : ''))
+            .join('') ?? ''
+    );
+}
+
+/**
+ * Runs an AI route handler for a signed-in user within their rate limit. `parse` checks the JSON body and
+ * returns null when it's invalid, which doesn't count towards the limit; `run` returns the response data.
+ */
+export async function handleAiRequest<T>(
+    request: Request,
+    endpoint: AiEndpoint,
+    { parse, run }: { parse: (body: unknown) => T | null; run: (input: T) => Promise<unknown> }
+): Promise<Response> {
+    const context = await authenticate(request);
+    if (!context) {
+        return Response.json({ error: 'Please sign in to use AI features.' }, { status: 401 });
+    }
+    if (!getGeminiApiKey()) {
+        return Response.json({ error: 'AI features are not configured. Set GEMINI_API_KEY.' }, { status: 503 });
+    }
+
+    // The header is checked first so an oversized body isn't read at all; it can be missing, so the bytes are counted too
+    const declaredLength = Number(request.headers.get('content-length'));
+    if (declaredLength > MAX_BODY_BYTES) {
+        return Response.json({ error: 'The request is too large.' }, { status: 413 });
+    }
+    const rawBody = await request.text();
+    if (Buffer.byteLength(rawBody) > MAX_BODY_BYTES) {
+        return Response.json({ error: 'The request is too large.' }, { status: 413 });
+    }
+    let input: T | null = null;
+    try {
+        input = parse(JSON.parse(rawBody));
+    } catch {
+        // Not JSON
+    }
+    if (input === null) {
+        return Response.json({ error: 'The request is invalid.' }, { status: 400 });
+    }
+
+    try {
+        if (!(await consumeRequest(context, endpoint))) {
+            const minutes = Math.round(AI_RATE_LIMITS[endpoint].windowSeconds / 60);
+            return Response.json(
+                { error: `You've reached the limit for AI requests. Please try again within ${minutes} minutes.` },
+                { status: 429 }
+            );
+        }
+        return Response.json(await run(input));
+    } catch (error) {
+        console.error(`AI request to ${endpoint} failed:`, error);
+        return Response.json({ error: 'The AI request failed. Please try again.' }, { status: 502 });
+    }
+}
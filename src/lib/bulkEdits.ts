@@ -0,0 +1,128 @@
+import {
+    getDayValue,
+    isAvoidHabit,
+    isQuantitative,
+    isSkippedOn,
+    setDayNote,
+    setDaySkipped,
+    setDayValue,
+    type ActivityRow,
+} from '@/lib/activities';
+import type { CompletionChange } from '@/lib/completions';
+import { addDays, formatDateKey, parseDateKey } from '@/lib/dates';
+
+export interface CellRef {
+    rowId: string;
+    dateKey: string;
+}
+
+// What a cell should hold afterwards, in the same shape the sync queue sends
+export type CellEdit = CellRef & Pick<CompletionChange, 'value' | 'note' | 'skipped'>;
+
+// A bulk edit that has been applied, with the edits that put the cells back
+export interface AppliedBulkEdit {
+    label: string;
+    undo: CellEdit[];
+}
+
+export const getCellKey = ({ rowId, dateKey }: CellRef): string => `${rowId}:${dateKey}`;
+
+/**
+ * The rectangle of cells between two corners, using the order the grid shows its rows and days.
+ * Cells outside `rows` or `dateKeys` (e.g. a collapsed group or a future day) are left out.
+ */
+export function getCellRange(rows: ActivityRow[], dateKeys: string[], anchor: CellRef, focus: CellRef): CellRef[] {
+    const rowIndexes = [anchor, focus].map(cell => rows.findIndex(row => row.id === cell.rowId));
+    const dateIndexes = [anchor, focus].map(cell => dateKeys.indexOf(cell.dateKey));
+    if (rowIndexes.includes(-1) || dateIndexes.includes(-1)) return [];
+
+    const cells: CellRef[] = [];
+    for (let rowIndex = Math.min(...rowIndexes); rowIndex <= Math.max(...rowIndexes); rowIndex += 1) {
+        for (let dateIndex = Math.min(...dateIndexes); dateIndex <= Math.max(...dateIndexes); dateIndex += 1) {
+            cells.push({ rowId: rows[rowIndex].id, dateKey: dateKeys[dateIndex] });
+        }
+    }
+    return cells;
+}
+
+const getCellEdit = (row: ActivityRow, dateKey: string): CellEdit => {
+    if (isSkippedOn(row, dateKey)) {
+        return { rowId: row.id, dateKey, value: null, skipped: { reason: row.skippedDays[dateKey] ?? null } };
+    }
+    const value = getDayValue(row, dateKey);
+    return value > 0
+        ? { rowId: row.id, dateKey, value, note: row.dayNotes[dateKey] ?? null }
+        : { rowId: row.id, dateKey, value: null };
+};
+
+const isUnchanged = (row: ActivityRow, edit: CellEdit): boolean => {
+    const current = getCellEdit(row, edit.dateKey);
+    if (current.skipped || edit.skipped) return current.skipped?.reason === edit.skipped?.reason;
+    return current.value === edit.value;
+};
+
+/**
+ * Builds edits cell by cell and drops the ones that wouldn't change anything. A cell that stays logged
+ * keeps its own note, so bulk edits never overwrite the journal.
+ */
+const buildEdits = (
+    rows: ActivityRow[],
+    cells: CellRef[],
+    getEdit: (row: ActivityRow, dateKey: string) => CellEdit | null
+): CellEdit[] =>
+    cells.flatMap(cell => {
+        const row = rows.find(candidate => candidate.id === cell.rowId);
+        const edit = row ? getEdit(row, cell.dateKey) : null;
+        if (!row || !edit || isUnchanged(row, edit)) return [];
+        return [edit.skipped || edit.value === null ? edit : { ...edit, note: row.dayNotes[cell.dateKey] ?? null }];
+    });
+
+/**
+ * Marks cells as done. Avoid rows are left alone, since a tick there logs a slip. Quantitative rows keep a
+ * logged amount, and empty ones get `amount` when given.
+ */
+export const getMarkCompleteEdits = (rows: ActivityRow[], cells: CellRef[], amount: number | null): CellEdit[] =>
+    buildEdits(rows, cells, (row, dateKey) => {
+        if (isAvoidHabit(row)) return null;
+        if (!isQuantitative(row)) return { rowId: row.id, dateKey, value: 1 };
+
+        const current = getDayValue(row, dateKey);
+        if (current > 0) return { rowId: row.id, dateKey, value: current };
+        return amount !== null && amount > 0 ? { rowId: row.id, dateKey, value: amount } : null;
+    });
+
+export const getClearEdits = (rows: ActivityRow[], cells: CellRef[]): CellEdit[] =>
+    buildEdits(rows, cells, (row, dateKey) => ({ rowId: row.id, dateKey, value: null }));
+
+// Gives each cell the state of the same activity seven days earlier, skips and amounts included
+export const getCopyLastWeekEdits = (rows: ActivityRow[], cells: CellRef[]): CellEdit[] =>
+    buildEdits(rows, cells, (row, dateKey) => ({
+        ...getCellEdit(row, formatDateKey(addDays(parseDateKey(dateKey), -7))),
+        dateKey,
+    }));
+
+// The edits that restore the cells touched by `edits` to how they are in `rows`
+export const getUndoEdits = (rows: ActivityRow[], edits: CellEdit[]): CellEdit[] =>
+    edits.flatMap(edit => {
+        const row = rows.find(candidate => candidate.id === edit.rowId);
+        return row ? [getCellEdit(row, edit.dateKey)] : [];
+    });
+
+export const applyCellEdits = (rows: ActivityRow[], edits: CellEdit[]): ActivityRow[] =>
+    rows.map(row =>
+        edits.reduce(
+            (updated, edit) =>
+                edit.rowId !== row.id
+                    ? updated
+                    : edit.skipped
+                      ? setDaySkipped(updated, edit.dateKey, edit.skipped.reason)
+                      : setDayNote(setDayValue(updated, edit.dateKey, edit.value), edit.dateKey, edit.note ?? null),
+            row
+        )
+    );
+
+export const toCompletionChanges = (rows: ActivityRow[], edits: CellEdit[]): CompletionChange[] =>
+    edits.flatMap(({ rowId, ...edit }) => {
+        const row = rows.find(candidate => candidate.id === rowId);
+        return row ? [{ activityId: row.id, measurementType: row.measurementType, ...edit }] : [];
+    });
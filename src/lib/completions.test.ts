@@ -0,0 +1,116 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { createActivityRow, setDayNote, setDaySkipped, setDayValue, type ActivityRowRecord } from '@/lib/activities';
+import {
+    applyCompletions,
+    getLegacyTimestampCompletions,
+    saveCompletionBatch,
+    toCompletionRecords,
+} from '@/lib/completions';
+
+// Writes always get the mocked client below, so the shared browser client is never created
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+// Legacy timestamps are read in the device's time zone; Istanbul is UTC+3 all year
+const originalTimeZone = process.env.TZ;
+process.env.TZ = 'Europe/Istanbul';
+
+afterAll(() => {
+    process.env.TZ = originalTimeZone;
+});
+
+const legacyRow = (fields: Partial<ActivityRowRecord>): ActivityRowRecord => ({
+    id: 'run',
+    user_id: 'user-1',
+    name: 'Run',
+    emoji: '🏃',
+    order_index: 0,
+    ...fields,
+});
+
+describe('getLegacyTimestampCompletions', () => {
+    it('keeps a tick made just after local midnight east of UTC on its local day', () => {
+        const completions = getLegacyTimestampCompletions(
+            legacyRow({ completed_days: ['2026-02-03T00:30:00+03:00', '2026-02-03T21:30:00.000Z'] })
+        );
+
+        // The first is 2 February in UTC and the second is 4 February in Istanbul
+        expect(completions.map(completion => completion.completed_on)).toEqual(['2026-02-03', '2026-02-04']);
+    });
+
+    it('leaves plain date keys to the migration and carries logged amounts over', () => {
+        const completions = getLegacyTimestampCompletions(
+            legacyRow({
+                measurement_type: 'distance',
+                completed_days: ['2026-02-01', '2026-02-02T22:15:00.000Z'],
+                day_values: { '2026-02-01': 3, '2026-02-03': 5 },
+            })
+        );
+
+        expect(completions).toEqual([
+            {
+                user_id: 'user-1',
+                activity_id: 'run',
+                completed_on: '2026-02-03',
+                value: 5,
+                status: 'done',
+            },
+        ]);
+    });
+});
+
+describe('skipping a logged day', () => {
+    const loggedRow = setDayNote(
+        setDayValue(createActivityRow({ id: 'gym', name: 'Gym', emoji: '🏋️' }), '2026-02-03', 1),
+        '2026-02-03',
+        '5x5 squats at 80 kg'
+    );
+
+    it('keeps the journal note next to the skip reason', () => {
+        const skipped = setDaySkipped(loggedRow, '2026-02-03', 'Sore knee');
+        expect(skipped.dayNotes).toEqual({ '2026-02-03': '5x5 squats at 80 kg' });
+
+        const reloaded = applyCompletions(
+            createActivityRow({ id: 'gym', name: 'Gym', emoji: '🏋️' }),
+            toCompletionRecords(skipped, 'user-1')
+        );
+        expect(reloaded.skippedDays).toEqual({ '2026-02-03': 'Sore knee' });
+        expect(reloaded.dayNotes).toEqual({ '2026-02-03': '5x5 squats at 80 kg' });
+
+        const loggedAgain = setDayValue(reloaded, '2026-02-03', 1);
+        expect(loggedAgain.dayNotes).toEqual({ '2026-02-03': '5x5 squats at 80 kg' });
+    });
+
+    it('leaves the stored note out of the upsert for skipped days', async () => {
+        const upserts: Record<string, unknown>[][] = [];
+        const client = {
+            from: () => ({
+                upsert: async (records: Record<string, unknown>[]) => {
+                    upserts.push(records);
+                    return { error: null };
+                },
+            }),
+        } as unknown as SupabaseClient;
+
+        await saveCompletionBatch(
+            'user-1',
+            [
+                { activityId: 'gym', measurementType: 'boolean', dateKey: '2026-02-02', value: 1, note: 'Legs' },
+                {
+                    activityId: 'gym',
+                    measurementType: 'boolean',
+                    dateKey: '2026-02-03',
+                    value: null,
+                    skipped: { reason: 'Sore knee' },
+                },
+            ],
+            client
+        );
+
+        expect(upserts).toEqual([
+            [expect.objectContaining({ completed_on: '2026-02-02', status: 'done', note: 'Legs' })],
+            [expect.objectContaining({ completed_on: '2026-02-03', status: 'skipped', skip_reason: 'Sore knee' })],
+        ]);
+        expect(upserts[1]?.[0]).not.toHaveProperty('note');
+    });
+});
@@ -0,0 +1,335 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { isQuantitative, type ActivityRow, type ActivityRowRecord, type MeasurementType } from '@/lib/activities';
+import { normalizeDateKey } from '@/lib/dates';
+
+// A record is either a completion or a skip; there is at most one per activity per day
+export type CompletionStatus = 'done' | 'skipped';
+
+export interface ActivityCompletionRecord {
+    id?: string;
+    user_id: string;
+    activity_id: string;
+    completed_on: string;
+    value: number | null;
+    status?: CompletionStatus | null;
+    // Journal note for the day, kept while the day is skipped
+    note?: string | null;
+    skip_reason?: string | null;
+}
+
+// The new state of one activity day: a positive value logs it, a skip excuses it, anything else clears it
+export interface CompletionChange {
+    activityId: string;
+    measurementType: MeasurementType;
+    dateKey: string;
+    value: number | null;
+    // Journal note kept with a logged day
+    note?: string | null;
+    // Set when the day is skipped rather than logged; the value is ignored and the stored note is kept then
+    skipped?: { reason: string | null };
+}
+
+// Supabase caps a single select at 1000 rows, so long histories are read page by page
+const PAGE_SIZE = 1000;
+
+const isMissingTableError = (error: { code?: string; message?: string }): boolean => {
+    return error.code === '42P01' || error.code === 'PGRST205' || !!error.message?.includes('does not exist');
+};
+
+/**
+ * Loads every completion for a user, or for one of their activities. Resolves to null when the completions
+ * table hasn't been migrated yet, so callers can fall back to the legacy `completed_days` arrays.
+ */
+export async function getCompletions(userId: string, activityId?: string): Promise<ActivityCompletionRecord[] | null> {
+    const completions: ActivityCompletionRecord[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+        let query = supabase
+            .from('activity_completions')
+            .select('id, activity_id, completed_on, value, status, note, skip_reason')
+            .eq('user_id', userId);
+        if (activityId) {
+            query = query.eq('activity_id', activityId);
+        }
+
+        const { data, error } = await query
+            .order('completed_on', { ascending: true })
+            .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+            if (isMissingTableError(error)) {
+                console.warn('activity_completions table does not exist yet. Please run the migration.');
+                return null;
+            }
+            console.error('Error fetching activity completions:', error);
+            throw error;
+        }
+
+        const page = (data || []) as Omit<ActivityCompletionRecord, 'user_id'>[];
+        completions.push(...page.map(record => ({ ...record, user_id: userId })));
+        if (page.length < PAGE_SIZE) return completions;
+    }
+}
+
+// Rebuilds a row's completed days, values, notes and skipped days from its completion records
+export const applyCompletions = (row: ActivityRow, completions: ActivityCompletionRecord[]): ActivityRow => {
+    const completedDays: string[] = [];
+    const dayValues: Record<string, number> = {};
+    const skippedDays: Record<string, string | null> = {};
+    const dayNotes: Record<string, string> = {};
+
+    completions.forEach(completion => {
+        if (completion.activity_id !== row.id) return;
+        const dateKey = normalizeDateKey(completion.completed_on);
+        if (completion.note) {
+            dayNotes[dateKey] = completion.note;
+        }
+        if (completion.status === 'skipped') {
+            skippedDays[dateKey] = completion.skip_reason ?? null;
+            return;
+        }
+        completedDays.push(dateKey);
+        if (isQuantitative(row) && completion.value !== null) {
+            dayValues[dateKey] = Number(completion.value);
+        }
+    });
+
+    return { ...row, completedDays, dayValues, skippedDays, dayNotes };
+};
+
+const isDateKey = (value: string): boolean => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/**
+ * Completion records for the legacy `completed_days` entries that older clients wrote as full timestamps, e.g.
+ * "2026-02-02T21:30:00.000Z" for a tick at 00:30 on 3 February in UTC+3. Those clients read them back in the
+ * browser's time zone, which the database doesn't know, so the completions migration leaves them to the client.
+ */
+export const getLegacyTimestampCompletions = (record: ActivityRowRecord): ActivityCompletionRecord[] => {
+    const completions = new Map<string, ActivityCompletionRecord>();
+    (record.completed_days || [])
+        .filter(day => !isDateKey(day) && !Number.isNaN(new Date(day).getTime()))
+        .forEach(day => {
+            const dateKey = normalizeDateKey(day);
+            const value = record.day_values?.[day] ?? record.day_values?.[dateKey] ?? null;
+            completions.set(dateKey, {
+                user_id: record.user_id,
+                activity_id: record.id,
+                completed_on: dateKey,
+                value: (record.measurement_type ?? 'boolean') === 'boolean' ? null : value,
+                status: 'done',
+            });
+        });
+    return [...completions.values()];
+};
+
+/**
+ * Moves legacy timestamp entries into activity_completions on this device, then drops them from the row's
+ * `completed_days`. Days already recorded are left alone, as they were edited since.
+ */
+export async function backfillLegacyCompletions(userId: string, records: ActivityRowRecord[]): Promise<void> {
+    for (const record of records) {
+        const completions = getLegacyTimestampCompletions(record);
+        if (completions.length === 0) continue;
+
+        const { error } = await supabase
+            .from('activity_completions')
+            .upsert(completions, { onConflict: 'activity_id,completed_on', ignoreDuplicates: true });
+        if (error) {
+            if (isMissingTableError(error)) {
+                console.warn('activity_completions table does not exist yet. Please run the migration.');
+                return;
+            }
+            console.error('Error backfilling activity completions:', error);
+            throw error;
+        }
+
+        const { error: rowError } = await supabase
+            .from('activity_rows')
+            .update({ completed_days: (record.completed_days || []).filter(isDateKey) })
+            .eq('user_id', userId)
+            .eq('id', record.id);
+        if (rowError) {
+            console.error('Error clearing legacy completed days:', rowError);
+            throw rowError;
+        }
+    }
+}
+
+export const toCompletionRecords = (row: ActivityRow, userId: string): ActivityCompletionRecord[] => {
+    return [
+        ...row.completedDays.map(dateKey => ({
+            user_id: userId,
+            activity_id: row.id,
+            completed_on: dateKey,
+            value: isQuantitative(row) ? (row.dayValues[dateKey] ?? null) : null,
+            status: 'done' as const,
+            note: row.dayNotes[dateKey] ?? null,
+        })),
+        ...Object.entries(row.skippedDays).map(([dateKey, reason]) => ({
+            user_id: userId,
+            activity_id: row.id,
+            completed_on: dateKey,
+            value: null,
+            status: 'skipped' as const,
+            note: row.dayNotes[dateKey] ?? null,
+            skip_reason: reason,
+        })),
+    ];
+};
+
+/**
+ * Writes a single day for one activity: a positive value upserts the completion and its note (replacing
+ * a skip), anything else removes the day's record. Boolean rows store a null value.
+ */
+export async function saveCompletion(
+    userId: string,
+    row: Pick<ActivityRow, 'id' | 'measurementType'>,
+    dateKey: string,
+    value: number | null,
+    note: string | null = null,
+    client: SupabaseClient = supabase
+): Promise<void> {
+    if (value === null || !Number.isFinite(value) || value <= 0) {
+        await deleteCompletion(userId, row.id, dateKey, client);
+        return;
+    }
+
+    const { error } = await client.from('activity_completions').upsert(
+        {
+            user_id: userId,
+            activity_id: row.id,
+            completed_on: dateKey,
+            value: isQuantitative(row) ? value : null,
+            status: 'done',
+            note,
+        },
+        { onConflict: 'activity_id,completed_on' }
+    );
+
+    if (error) {
+        console.error('Error saving activity completion:', error);
+        throw error;
+    }
+}
+
+// Marks a day as skipped, replacing a completion on the same day. The note column isn't sent, so a journal note stays
+export async function saveSkip(
+    userId: string,
+    activityId: string,
+    dateKey: string,
+    reason: string | null,
+    client: SupabaseClient = supabase
+): Promise<void> {
+    const { error } = await client.from('activity_completions').upsert(
+        {
+            user_id: userId,
+            activity_id: activityId,
+            completed_on: dateKey,
+            value: null,
+            status: 'skipped',
+            skip_reason: reason,
+        },
+        { onConflict: 'activity_id,completed_on' }
+    );
+
+    if (error) {
+        console.error('Error saving skipped day:', error);
+        throw error;
+    }
+}
+
+/**
+ * Writes many days at once, e.g. a bulk edit from the grid: logged days go in one upsert and skipped days in
+ * another, which leaves out the note column so their journal notes stay. Cleared days are removed with one
+ * delete per activity.
+ */
+export async function saveCompletionBatch(
+    userId: string,
+    changes: CompletionChange[],
+    client: SupabaseClient = supabase
+): Promise<void> {
+    const records: ActivityCompletionRecord[] = [];
+    const skipRecords: ActivityCompletionRecord[] = [];
+    const clearedDays = new Map<string, string[]>();
+
+    changes.forEach(change => {
+        if (change.skipped) {
+            skipRecords.push({
+                user_id: userId,
+                activity_id: change.activityId,
+                completed_on: change.dateKey,
+                value: null,
+                status: 'skipped',
+                skip_reason: change.skipped.reason,
+            });
+        } else if (change.value !== null && Number.isFinite(change.value) && change.value > 0) {
+            records.push({
+                user_id: userId,
+                activity_id: change.activityId,
+                completed_on: change.dateKey,
+                value: change.measurementType === 'boolean' ? null : change.value,
+                status: 'done',
+                note: change.note ?? null,
+            });
+        } else {
+            clearedDays.set(change.activityId, [...(clearedDays.get(change.activityId) ?? []), change.dateKey]);
+        }
+    });
+
+    for (const batch of [records, skipRecords]) {
+        if (batch.length === 0) continue;
+        const { error } = await client
+            .from('activity_completions')
+            .upsert(batch, { onConflict: 'activity_id,completed_on' });
+        if (error) {
+            console.error('Error saving activity completions:', error);
+            throw error;
+        }
+    }
+
+    for (const [activityId, dateKeys] of clearedDays) {
+        const { error } = await client
+            .from('activity_completions')
+            .delete()
+            .eq('user_id', userId)
+            .eq('activity_id', activityId)
+            .in('completed_on', dateKeys);
+        if (error) {
+            console.error('Error clearing activity completions:', error);
+            throw error;
+        }
+    }
+}
+
+export async function deleteCompletion(
+    userId: string,
+    activityId: string,
+    dateKey: string,
+    client: SupabaseClient = supabase
+): Promise<void> {
+    const { error } = await client
+        .from('activity_completions')
+        .delete()
+        .eq('user_id', userId)
+        .eq('activity_id', activityId)
+        .eq('completed_on', dateKey);
+
+    if (error) {
+        console.error('Error deleting activity completion:', error);
+        throw error;
+    }
+}
+
+export async function insertCompletions(records: ActivityCompletionRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const { error } = await supabase
+        .from('activity_completions')
+        .upsert(records, { onConflict: 'activity_id,completed_on' });
+
+    if (error) {
+        console.error('Error inserting activity completions:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { formatISOWeekParam, getISOWeekKey, getWeekAnchor, getWeekStartDate, type WeekStartDay } from '@/lib/dates';
+
+describe('getISOWeekKey', () => {
+    it('gives the same key whichever day the week starts on', () => {
+        const day = new Date(2026, 1, 4);
+        const keys = ([1, 0, 6] as WeekStartDay[]).map(weekStartsOn =>
+            getISOWeekKey(getWeekStartDate(day, weekStartsOn))
+        );
+        expect(keys).toEqual(['2026-02-02', '2026-02-02', '2026-02-02']);
+    });
+
+    it('matches the ISO week the grid labels the week with', () => {
+        // Sunday 2025-12-28 starts a week labelled 2026-W01
+        const weekStart = new Date(2025, 11, 28);
+        expect(formatISOWeekParam(getWeekAnchor(weekStart))).toBe('2026-W01');
+        expect(getISOWeekKey(weekStart)).toBe('2025-12-29');
+    });
+});
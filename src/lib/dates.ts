@@ -0,0 +1,215 @@
+const DAY_IN_MS = 86400000;
+
+export const formatDateKey = (date: Date): string => {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+};
+
+export const parseDateKey = (value: string): Date => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year ?? 1970, (month ?? 1) - 1, day ?? 1);
+};
+
+export const normalizeDateKey = (value: string): string => {
+    if (!value) return value;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return value;
+    }
+
+    const parsed = new Date(value);
+    if (Number.isNaN(parsed.getTime())) {
+        return value;
+    }
+
+    parsed.setHours(0, 0, 0, 0);
+    return formatDateKey(parsed);
+};
+
+export const addDays = (date: Date, days: number): Date => {
+    const next = new Date(date);
+    next.setDate(next.getDate() + days);
+    return next;
+};
+
+// Day a week begins on, using Date#getDay numbering (0 = Sunday, 1 = Monday, 6 = Saturday)
+export type WeekStartDay = 0 | 1 | 6;
+
+export const DEFAULT_WEEK_START: WeekStartDay = 1;
+
+export const WEEK_START_OPTIONS: { value: WeekStartDay; label: string }[] = [
+    { value: 1, label: 'Monday' },
+    { value: 0, label: 'Sunday' },
+    { value: 6, label: 'Saturday' },
+];
+
+export const toWeekStartDay = (value: number | null | undefined): WeekStartDay =>
+    value === 0 || value === 6 ? value : DEFAULT_WEEK_START;
+
+export const getWeekStartDate = (date: Date, weekStartsOn: WeekStartDay = DEFAULT_WEEK_START): Date => {
+    const startOfWeek = new Date(date);
+    startOfWeek.setHours(0, 0, 0, 0);
+    const daysSinceStart = (date.getDay() - weekStartsOn + 7) % 7;
+    startOfWeek.setDate(startOfWeek.getDate() - daysSinceStart);
+    return startOfWeek;
+};
+
+// Short weekday names in display order for a week start, e.g. Sun–Sat
+export const getWeekdayLabels = (weekStartsOn: WeekStartDay = DEFAULT_WEEK_START): string[] => {
+    const labels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+    return Array.from({ length: 7 }, (_v, index) => labels[(weekStartsOn + index) % 7]);
+};
+
+/**
+ * The day that names a week in ISO week labels and `?week=` links. For Monday weeks this is the ISO Thursday;
+ * Sunday and Saturday weeks use their fourth day too, so each is labelled with the ISO week it mostly overlaps.
+ */
+export const getWeekAnchor = (weekStart: Date): Date => addDays(weekStart, 3);
+
+// Key for data saved per week, such as its status, review and analysis: the Monday of the ISO week the displayed
+// week falls in, so it stays the same whichever day the week starts on
+export const getISOWeekKey = (weekStart: Date): string => formatDateKey(getWeekStartDate(getWeekAnchor(weekStart)));
+
+export const getWeekDates = (weekStart: Date): Date[] => {
+    return Array.from({ length: 7 }, (_v, index) => addDays(weekStart, index));
+};
+
+export const isSameDay = (a: Date, b: Date): boolean => formatDateKey(a) === formatDateKey(b);
+
+export function getISOWeekNumber(date: Date): number {
+    const tempDate = new Date(date.getTime());
+    tempDate.setHours(0, 0, 0, 0);
+    // Thursday in current week decides the year
+    tempDate.setDate(tempDate.getDate() + 3 - ((tempDate.getDay() + 6) % 7));
+    // January 4 is always in week 1.
+    const week1 = new Date(tempDate.getFullYear(), 0, 4);
+    // Adjust to Thursday in week 1 and count number of weeks from date to week1.
+    return 1 + Math.round(((tempDate.getTime() - week1.getTime()) / DAY_IN_MS - 3 + ((week1.getDay() + 6) % 7)) / 7);
+}
+
+export function getISOWeekYear(date: Date): number {
+    const thursday = new Date(date.getTime());
+    thursday.setDate(thursday.getDate() + 3 - ((thursday.getDay() + 6) % 7));
+    return thursday.getFullYear();
+}
+
+// Formats a date as an ISO week parameter, e.g. `2026-W42`
+export function formatISOWeekParam(date: Date): string {
+    return `${getISOWeekYear(date)}-W${String(getISOWeekNumber(date)).padStart(2, '0')}`;
+}
+
+// Parses an ISO week parameter like `2026-W42` into the Monday that starts the week
+export function parseISOWeekParam(value: string): Date | null {
+    const match = value.match(/^(\d{4})-?W(\d{1,2})$/i);
+    if (!match) return null;
+
+    const year = Number(match[1]);
+    const week = Number(match[2]);
+    if (week < 1 || week > 53) return null;
+
+    // January 4 is always in week 1, so its Monday anchors the year
+    const week1Monday = getWeekStartDate(new Date(year, 0, 4));
+    const monday = addDays(week1Monday, (week - 1) * 7);
+
+    // Reject week 53 for years that only have 52 ISO weeks
+    if (getISOWeekYear(monday) !== year) return null;
+
+    return monday;
+}
+
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const getTimeZoneOptions = (): string[] => {
+    const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+    const browserZone = getBrowserTimeZone();
+    return zones.includes(browserZone) ? zones : [browserZone, ...zones];
+};
+
+const getZonedParts = (instant: Date, timeZone: string) => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+    }).formatToParts(instant);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(entry => entry.type === type)?.value ?? 0);
+    return {
+        year: part('year'),
+        month: part('month'),
+        day: part('day'),
+        hour: part('hour'),
+        minute: part('minute'),
+        second: part('second'),
+    };
+};
+
+// Milliseconds the zone's wall clock is ahead of UTC at an instant
+const getTimeZoneOffset = (instant: Date, timeZone: string): number => {
+    const parts = getZonedParts(instant, timeZone);
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+/*
+ * Calendar dates are passed around as local-midnight Dates, as everywhere else in the app. A time zone only
+ * matters when converting to and from instants such as `meal_time`; null means the browser's own zone.
+ */
+
+export const getDateInTimeZone = (instant: Date, timeZone?: string | null): Date => {
+    if (!timeZone) {
+        const date = new Date(instant);
+        date.setHours(0, 0, 0, 0);
+        return date;
+    }
+    const { year, month, day } = getZonedParts(instant, timeZone);
+    return new Date(year, month - 1, day);
+};
+
+export const getToday = (timeZone?: string | null): Date => getDateInTimeZone(new Date(), timeZone);
+
+// Wall-clock time of an instant in a time zone as HH:MM
+export const getTimeInTimeZone = (instant: Date, timeZone?: string | null): string => {
+    if (!timeZone) {
+        return `${String(instant.getHours()).padStart(2, '0')}:${String(instant.getMinutes()).padStart(2, '0')}`;
+    }
+    const { hour, minute } = getZonedParts(instant, timeZone);
+    return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+// The instant a calendar date and HH:MM wall-clock time occur in a time zone
+export const zonedTimeToInstant = (date: Date, time: string, timeZone?: string | null): Date => {
+    const [hours = 0, minutes = 0] = time.split(':').map(Number);
+    if (!timeZone) {
+        const local = new Date(date);
+        local.setHours(hours, minutes, 0, 0);
+        return local;
+    }
+    const wallClock = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes);
+    // Correct the first guess with the offset in effect at that guess, which handles DST transitions
+    const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+    return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+};
+
+// Instants bounding whole calendar days in a time zone, for querying timestamp columns
+export const getZonedDayRange = (
+    firstDay: Date,
+    lastDay: Date,
+    timeZone?: string | null
+): { start: Date; end: Date } => ({
+    start: zonedTimeToInstant(firstDay, '00:00', timeZone),
+    end: new Date(zonedTimeToInstant(addDays(lastDay, 1), '00:00', timeZone).getTime() - 1),
+});
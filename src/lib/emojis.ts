@@ -0,0 +1,252 @@
+export interface EmojiOption {
+    emoji: string;
+    // Space-separated search words
+    keywords: string;
+}
+
+export interface EmojiCategory {
+    id: string;
+    label: string;
+    // Shown on the category tab
+    icon: string;
+    emojis: EmojiOption[];
+}
+
+const toOptions = (entries: [string, string][]): EmojiOption[] =>
+    entries.map(([emoji, keywords]) => ({ emoji, keywords }));
+
+export const EMOJI_CATEGORIES: EmojiCategory[] = [
+    {
+        id: 'sport',
+        label: 'Sport & exercise',
+        icon: '🏃',
+        emojis: toOptions([
+            ['🏃', 'run running jog cardio'],
+            ['🚶', 'walk walking steps'],
+            ['🏋️', 'gym weights lifting strength'],
+            ['🚴', 'bike cycling ride'],
+            ['🏊', 'swim swimming pool'],
+            ['🧘', 'yoga meditate stretch'],
+            ['🤸', 'gymnastics stretch mobility'],
+            ['🧗', 'climb climbing bouldering'],
+            ['🥾', 'hike hiking boots'],
+            ['⛷️', 'ski skiing snow'],
+            ['🏂', 'snowboard snow'],
+            ['🏄', 'surf surfing'],
+            ['🚣', 'row rowing boat'],
+            ['🤾', 'handball ball'],
+            ['🏒', 'hockey ice'],
+            ['⚽', 'football soccer ball'],
+            ['🏀', 'basketball ball'],
+            ['🏐', 'volleyball ball'],
+            ['🎾', 'tennis racket'],
+            ['🏸', 'badminton racket'],
+            ['🏓', 'ping pong table tennis'],
+            ['⛳', 'golf'],
+            ['🥊', 'boxing punch'],
+            ['🥋', 'martial arts karate judo'],
+            ['🥏', 'frisbee disc'],
+            ['🛹', 'skateboard skate'],
+            ['⛸️', 'ice skating skate'],
+            ['🕺', 'dance dancing'],
+            ['💃', 'dance dancing salsa'],
+            ['🤺', 'fencing'],
+        ]),
+    },
+    {
+        id: 'health',
+        label: 'Health & wellbeing',
+        icon: '💪',
+        emojis: toOptions([
+            ['💪', 'strength muscle workout'],
+            ['🧠', 'brain mind mental'],
+            ['❤️', 'heart love health'],
+            ['😴', 'sleep rest bed'],
+            ['🛌', 'sleep bed nap'],
+            ['💤', 'sleep zzz'],
+            ['💊', 'pill medicine vitamins'],
+            ['🩺', 'doctor checkup'],
+            ['🦷', 'teeth floss dentist'],
+            ['🧴', 'skincare lotion sunscreen'],
+            ['🚿', 'shower cold'],
+            ['🛀', 'bath relax'],
+            ['🧖', 'sauna spa'],
+            ['🌬️', 'breathe breathing'],
+            ['🙏', 'gratitude pray'],
+            ['😊', 'smile happy mood'],
+            ['🧘‍♀️', 'meditation mindfulness'],
+            ['⚖️', 'weight scale'],
+            ['📵', 'no phone screen detox'],
+            ['🚭', 'no smoking quit'],
+        ]),
+    },
+    {
+        id: 'food',
+        label: 'Food & drink',
+        icon: '🥗',
+        emojis: toOptions([
+            ['🥗', 'salad healthy greens'],
+            ['🍎', 'apple fruit'],
+            ['🍌', 'banana fruit'],
+            ['🥦', 'broccoli vegetables veggies'],
+            ['🥕', 'carrot vegetables'],
+            ['🥑', 'avocado'],
+            ['🍳', 'cook cooking breakfast egg'],
+            ['🥣', 'cereal breakfast bowl'],
+            ['🍲', 'stew soup meal'],
+            ['🍱', 'lunch bento meal prep'],
+            ['🥩', 'meat protein steak'],
+            ['🐟', 'fish'],
+            ['💧', 'water hydrate drink'],
+            ['🚰', 'water tap drink'],
+            ['🍵', 'tea green'],
+            ['☕', 'coffee caffeine'],
+            ['🥛', 'milk'],
+            ['🍷', 'wine alcohol'],
+            ['🍺', 'beer alcohol'],
+            ['🍬', 'candy sugar sweets'],
+            ['🍫', 'chocolate sweets'],
+            ['🍔', 'burger fast food junk'],
+            ['🍕', 'pizza fast food'],
+            ['🍟', 'fries fast food'],
+        ]),
+    },
+    {
+        id: 'learning',
+        label: 'Learning & work',
+        icon: '📚',
+        emojis: toOptions([
+            ['📚', 'books read study'],
+            ['📖', 'read book reading'],
+            ['✍️', 'write writing journal'],
+            ['📝', 'notes journal write'],
+            ['📓', 'notebook journal diary'],
+            ['🎓', 'study school course'],
+            ['🧑‍💻', 'code coding programming'],
+            ['💻', 'laptop computer work'],
+            ['🌍', 'language travel world'],
+            ['🗣️', 'speak language talk'],
+            ['🧮', 'math abacus'],
+            ['🔬', 'science research'],
+            ['📈', 'progress growth invest'],
+            ['💼', 'work job business'],
+            ['📧', 'email inbox'],
+            ['🗓️', 'plan planning calendar'],
+            ['✅', 'todo done check'],
+            ['⏰', 'alarm wake early'],
+            ['⏳', 'focus time hourglass'],
+            ['🎯', 'goal target focus'],
+        ]),
+    },
+    {
+        id: 'hobbies',
+        label: 'Hobbies & creativity',
+        icon: '🎨',
+        emojis: toOptions([
+            ['🎨', 'art paint painting'],
+            ['✏️', 'draw drawing sketch'],
+            ['📷', 'photo photography camera'],
+            ['🎸', 'guitar music'],
+            ['🎹', 'piano keyboard music'],
+            ['🥁', 'drums music'],
+            ['🎻', 'violin music'],
+            ['🎤', 'sing singing karaoke'],
+            ['🎧', 'music listen podcast'],
+            ['🎮', 'games gaming video'],
+            ['♟️', 'chess'],
+            ['🧩', 'puzzle'],
+            ['🧶', 'knit knitting crochet'],
+            ['🪡', 'sew sewing'],
+            ['🪴', 'plant plants garden'],
+            ['🌱', 'grow garden seedling'],
+            ['🎬', 'film movie'],
+            ['📺', 'tv television screen'],
+        ]),
+    },
+    {
+        id: 'home',
+        label: 'Home & life',
+        icon: '🏠',
+        emojis: toOptions([
+            ['🏠', 'home house'],
+            ['🧹', 'clean cleaning sweep chores'],
+            ['🧺', 'laundry washing'],
+            ['🧽', 'dishes sponge clean'],
+            ['🗑️', 'trash bins rubbish'],
+            ['🛏️', 'make bed'],
+            ['🛒', 'shopping groceries'],
+            ['💰', 'money save savings budget'],
+            ['💳', 'spend card budget'],
+            ['🐕', 'dog walk pet'],
+            ['🐈', 'cat pet'],
+            ['👶', 'baby kids'],
+            ['👨‍👩‍👧', 'family'],
+            ['📞', 'call phone friends'],
+            ['💌', 'letter message friends'],
+            ['🤝', 'social meet friends'],
+            ['🚗', 'car drive'],
+            ['🚌', 'bus commute'],
+            ['🔧', 'fix repair diy'],
+            ['❓', 'other question'],
+        ]),
+    },
+    {
+        id: 'nature',
+        label: 'Nature & symbols',
+        icon: '🌞',
+        emojis: toOptions([
+            ['🌞', 'sun sunshine outside'],
+            ['🌙', 'moon night evening'],
+            ['⭐', 'star'],
+            ['🔥', 'fire streak hot'],
+            ['⚡', 'energy lightning'],
+            ['🌈', 'rainbow'],
+            ['🌊', 'sea ocean wave'],
+            ['🌳', 'tree nature forest'],
+            ['🌸', 'flower blossom'],
+            ['🍀', 'luck clover'],
+            ['❄️', 'cold snow ice'],
+            ['💎', 'gem diamond'],
+            ['🏆', 'trophy win'],
+            ['🎉', 'party celebrate'],
+            ['🚫', 'no stop avoid'],
+            ['⛔', 'no entry avoid'],
+        ]),
+    },
+];
+
+const RECENT_EMOJIS_KEY = 'recentEmojis';
+const MAX_RECENT_EMOJIS = 16;
+
+// Recently picked emojis are remembered per device, like other view preferences
+export const getRecentEmojis = (): string[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const saved = JSON.parse(localStorage.getItem(RECENT_EMOJIS_KEY) ?? '[]');
+        return Array.isArray(saved) ? saved.filter(emoji => typeof emoji === 'string') : [];
+    } catch {
+        return [];
+    }
+};
+
+export const addRecentEmoji = (emoji: string): string[] => {
+    const recent = [emoji, ...getRecentEmojis().filter(existing => existing !== emoji)].slice(0, MAX_RECENT_EMOJIS);
+    try {
+        localStorage.setItem(RECENT_EMOJIS_KEY, JSON.stringify(recent));
+    } catch {
+        // Storage can be full or disabled; the list just isn't remembered then
+    }
+    return recent;
+};
+
+// Matches every search word against an emoji's keywords, e.g. "yoga" or "water drink"
+export const searchEmojis = (query: string): EmojiOption[] => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return [];
+
+    return EMOJI_CATEGORIES.flatMap(category => category.emojis).filter(option =>
+        words.every(
+            word => option.emoji === word || option.keywords.split(' ').some(keyword => keyword.startsWith(word))
+        )
+    );
+};
@@ -0,0 +1,46 @@
+import {
+    getDayValue,
+    getUnitLabel,
+    isArchived,
+    isAvoidHabit,
+    isQuantitative,
+    isSkippedOn,
+    type ActivityRow,
+} from '@/lib/activities';
+
+const escapeCsvValue = (value: string | number): string => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One line per activity per logged or skipped day, archived rows included so exports hold the full history.
+// Days logged on avoid rows are slips, which the `entry` column tells apart from completions and skips.
+// The `note` column holds the journal note of a logged day, or the reason for a skip
+export function buildActivityCsv(rows: ActivityRow[]): string {
+    const header = ['activity', 'emoji', 'status', 'entry', 'date', 'value', 'unit', 'note'];
+    const lines = rows.flatMap(row =>
+        [...row.completedDays, ...Object.keys(row.skippedDays)]
+            .sort()
+            .map(dateKey => [
+                row.name,
+                row.emoji,
+                isArchived(row) ? 'archived' : 'active',
+                isSkippedOn(row, dateKey) ? 'skipped' : isAvoidHabit(row) ? 'slip' : 'completed',
+                dateKey,
+                getDayValue(row, dateKey),
+                isQuantitative(row) ? getUnitLabel(row) : '',
+                (isSkippedOn(row, dateKey) ? row.skippedDays[dateKey] : row.dayNotes[dateKey]) ?? '',
+            ])
+    );
+
+    return [header, ...lines].map(line => line.map(escapeCsvValue).join(',')).join('\n');
+}
+
+export function downloadFile(filename: string, content: string, type = 'text/csv;charset=utf-8') {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,73 @@
+import { addDays, DEFAULT_WEEK_START, formatDateKey, getWeekStartDate, type WeekStartDay } from '@/lib/dates';
+
+export type HeatmapLevel = 0 | 1 | 2 | 3 | 4;
+
+export interface HeatmapDay {
+    date: Date;
+    dateKey: string;
+    value: number;
+    level: HeatmapLevel;
+}
+
+export interface YearHeatmap {
+    // One column per week, starting on the user's week start day; days outside the year are null
+    weeks: (HeatmapDay | null)[][];
+    monthLabels: { label: string; weekIndex: number }[];
+    max: number;
+    total: number;
+    activeDays: number;
+}
+
+const getLevel = (value: number, max: number): HeatmapLevel => {
+    if (value <= 0 || max <= 0) return 0;
+    return Math.min(4, Math.max(1, Math.ceil((value / max) * 4))) as HeatmapLevel;
+};
+
+/**
+ * Lays out every day of a year as week columns, with intensity levels relative to the busiest day.
+ * `getValue` returns the amount logged on a date key, e.g. completed activities or a row's logged value.
+ */
+export function getYearHeatmap(
+    year: number,
+    getValue: (dateKey: string) => number,
+    weekStartsOn: WeekStartDay = DEFAULT_WEEK_START
+): YearHeatmap {
+    const firstDay = new Date(year, 0, 1);
+    const lastDay = new Date(year, 11, 31);
+    const lastKey = formatDateKey(lastDay);
+
+    const days: { date: Date; dateKey: string; value: number; inYear: boolean }[] = [];
+    for (let cursor = getWeekStartDate(firstDay, weekStartsOn); ; cursor = addDays(cursor, 1)) {
+        const dateKey = formatDateKey(cursor);
+        if (dateKey > lastKey && cursor.getDay() === weekStartsOn) break;
+        const inYear = cursor.getFullYear() === year;
+        days.push({ date: cursor, dateKey, value: inYear ? getValue(dateKey) : 0, inYear });
+    }
+
+    const max = days.reduce((highest, day) => Math.max(highest, day.value), 0);
+    const weeks: (HeatmapDay | null)[][] = [];
+    const monthLabels: { label: string; weekIndex: number }[] = [];
+
+    days.forEach((day, index) => {
+        const weekIndex = Math.floor(index / 7);
+        if (index % 7 === 0) weeks.push([]);
+        weeks[weekIndex].push(
+            day.inYear
+                ? { date: day.date, dateKey: day.dateKey, value: day.value, level: getLevel(day.value, max) }
+                : null
+        );
+
+        if (day.inYear && day.date.getDate() === 1) {
+            monthLabels.push({ label: day.date.toLocaleDateString('en-US', { month: 'short' }), weekIndex });
+        }
+    });
+
+    const yearDays = days.filter(day => day.inYear);
+    return {
+        weeks,
+        monthLabels,
+        max,
+        total: yearDays.reduce((sum, day) => sum + day.value, 0),
+        activeDays: yearDays.filter(day => day.value > 0).length,
+    };
+}
@@ -1,3 +1,5 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { formatDateKey, getBrowserTimeZone } from '@/lib/dates';
 import { supabase } from '@/lib/supabase';
 
 export interface Meal {
@@ -56,6 +58,13 @@ export interface UserPreferences {
     daily_protein_goal: number | null;
     daily_carbs_goal: number | null;
     daily_fats_goal: number | null;
+    streak_freezes_per_month?: number | null;
+    // 1 = Monday, 0 = Sunday, 6 = Saturday
+    week_start?: number | null;
+    // IANA zone, e.g. Europe/Helsinki; null follows the browser
+    timezone?: string | null;
+    // Zone of the browser last used, which server-side grouping falls back to while `timezone` is null
+    device_timezone?: string | null;
     updated_at: string;
 }
 
@@ -64,6 +73,10 @@ export interface UserPreferencesInput {
     daily_protein_goal?: number | null;
     daily_carbs_goal?: number | null;
     daily_fats_goal?: number | null;
+    streak_freezes_per_month?: number | null;
+    week_start?: number | null;
+    timezone?: string | null;
+    device_timezone?: string | null;
 }
 
 export async function getMealsForRange(userId: string, start: Date, end: Date): Promise<Meal[]> {
@@ -83,7 +96,11 @@ export async function getMealsForRange(userId: string, start: Date, end: Date):
     return data ?? [];
 }
 
-export async function upsertMeal(userId: string, meal: Partial<Meal> & MealInput & { id?: string }): Promise<Meal> {
+export async function upsertMeal(
+    userId: string,
+    meal: Partial<Meal> & MealInput & { id?: string },
+    client: SupabaseClient = supabase
+): Promise<Meal> {
     const roundNumeric = (value: number | null | undefined): number => {
         if (typeof value !== 'number' || Number.isNaN(value)) {
             return 0;
@@ -103,7 +120,7 @@ export async function upsertMeal(userId: string, meal: Partial<Meal> & MealInput
         notes: meal.notes ?? null,
     };
 
-    const { data, error } = await supabase.from('meals').upsert(payload).select().single();
+    const { data, error } = await client.from('meals').upsert(payload).select().single();
 
     if (error) {
         console.error('Error saving meal:', error);
@@ -113,6 +130,15 @@ export async function upsertMeal(userId: string, meal: Partial<Meal> & MealInput
     return data as Meal;
 }
 
+// Meals still waiting in the sync queue replace or extend the list loaded from the server
+export const applyPendingMeals = (meals: Meal[], pending: Meal[]): Meal[] => {
+    const mealsById = new Map(meals.map(meal => [meal.id, meal]));
+    pending.forEach(meal => mealsById.set(meal.id, meal));
+    return Array.from(mealsById.values()).sort(
+        (a, b) => new Date(a.meal_time).getTime() - new Date(b.meal_time).getTime()
+    );
+};
+
 export async function deleteMeal(userId: string, mealId: string): Promise<void> {
     const { error } = await supabase.from('meals').delete().eq('user_id', userId).eq('id', mealId);
 
@@ -122,13 +148,14 @@ export async function deleteMeal(userId: string, mealId: string): Promise<void>
     }
 }
 
+// `meal_day` is grouped in the user's time zone (see syncDeviceTimeZone), so the range is given as calendar dates
 export async function getDailyTotalsForRange(userId: string, start: Date, end: Date): Promise<DailyTotals[]> {
     const { data, error } = await supabase
         .from('meal_daily_totals')
         .select('*')
         .eq('user_id', userId)
-        .gte('meal_day', start.toISOString())
-        .lte('meal_day', end.toISOString())
+        .gte('meal_day', formatDateKey(start))
+        .lte('meal_day', formatDateKey(end))
         .order('meal_day', { ascending: true });
 
     if (error) {
@@ -317,14 +344,17 @@ export async function upsertUserPreferences(
         return Math.round(value);
     };
 
-    const payload = {
+    // Only the fields that were passed are written, so each screen can save its own preferences
+    const payload: Record<string, string | number | null> = {
         user_id: userId,
-        daily_calories_goal: roundNumeric(preferences.daily_calories_goal),
-        daily_protein_goal: roundNumeric(preferences.daily_protein_goal),
-        daily_carbs_goal: roundNumeric(preferences.daily_carbs_goal),
-        daily_fats_goal: roundNumeric(preferences.daily_fats_goal),
         updated_at: new Date().toISOString(),
     };
+    (Object.keys(preferences) as (keyof UserPreferencesInput)[]).forEach(key => {
+        const value = preferences[key];
+        if (value !== undefined) {
+            payload[key] = typeof value === 'string' ? value : roundNumeric(value);
+        }
+    });
 
     const { data, error } = await supabase
         .from('user_preferences')
@@ -343,3 +373,19 @@ export async function upsertUserPreferences(
 
     return data as UserPreferences;
 }
+
+/**
+ * Records this browser's time zone while the time zone setting follows the device, so the
+ * meal_daily_totals view and reminders group days the same way the page does. Returns the preferences
+ * unchanged when nothing needed saving.
+ */
+export async function syncDeviceTimeZone(
+    userId: string,
+    preferences: UserPreferences | null
+): Promise<UserPreferences | null> {
+    const deviceTimeZone = getBrowserTimeZone();
+    if (preferences?.timezone || preferences?.device_timezone === deviceTimeZone) {
+        return preferences;
+    }
+    return upsertUserPreferences(userId, { device_timezone: deviceTimeZone });
+}
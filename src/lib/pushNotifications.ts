@@ -0,0 +1,107 @@
+import { supabase } from '@/lib/supabase';
+import { isAllowedPushEndpoint } from '@/lib/reminders';
+
+// 'unsupported' covers browsers without service workers or push, and builds without a VAPID key
+export type PushStatus = 'unsupported' | 'denied' | 'disabled' | 'enabled';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+const getVapidPublicKey = (): string => process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY ?? '';
+
+const isPushSupported = (): boolean =>
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window &&
+    getVapidPublicKey() !== '';
+
+const toUint8Array = (base64Url: string): Uint8Array<ArrayBuffer> => {
+    const base64 = (base64Url + '='.repeat((4 - (base64Url.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+    const raw = window.atob(base64);
+    const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+    for (let index = 0; index < raw.length; index += 1) {
+        bytes[index] = raw.charCodeAt(index);
+    }
+    return bytes;
+};
+
+const getRegistration = async (): Promise<ServiceWorkerRegistration> => {
+    const existing = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+    return existing ?? navigator.serviceWorker.register(SERVICE_WORKER_URL);
+};
+
+export async function getPushStatus(): Promise<PushStatus> {
+    if (!isPushSupported()) return 'unsupported';
+    if (Notification.permission === 'denied') return 'denied';
+
+    const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+    const subscription = await registration?.pushManager.getSubscription();
+    return subscription ? 'enabled' : 'disabled';
+}
+
+/**
+ * Asks for notification permission, subscribes this browser to push and stores the subscription,
+ * so the reminder dispatcher can reach it even when no tab is open.
+ */
+export async function enablePushNotifications(userId: string): Promise<PushStatus> {
+    if (!isPushSupported()) return 'unsupported';
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') return permission === 'denied' ? 'denied' : 'disabled';
+
+    const registration = await getRegistration();
+    await navigator.serviceWorker.ready;
+    const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: toUint8Array(getVapidPublicKey()),
+        }));
+
+    const { endpoint, keys } = subscription.toJSON();
+    if (!endpoint || !isAllowedPushEndpoint(endpoint)) {
+        await subscription.unsubscribe();
+        throw new Error('This browser uses a push service reminders cannot be sent to.');
+    }
+    const { error } = await supabase.from('push_subscriptions').upsert(
+        {
+            user_id: userId,
+            endpoint,
+            p256dh: keys?.p256dh,
+            auth: keys?.auth,
+        },
+        { onConflict: 'user_id,endpoint' }
+    );
+
+    if (error) {
+        console.error('Error saving push subscription:', error);
+        throw error;
+    }
+
+    return 'enabled';
+}
+
+/**
+ * Removes this browser's subscription for the user and unsubscribes it. Also called on logout, so the next
+ * person to sign in on this browser doesn't receive the previous user's reminders.
+ */
+export async function disablePushNotifications(userId: string): Promise<PushStatus> {
+    if (!isPushSupported()) return 'unsupported';
+
+    const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+    const subscription = await registration?.pushManager.getSubscription();
+    if (subscription) {
+        const { error } = await supabase
+            .from('push_subscriptions')
+            .delete()
+            .eq('user_id', userId)
+            .eq('endpoint', subscription.endpoint);
+        if (error) {
+            console.error('Error removing push subscription:', error);
+            throw error;
+        }
+        await subscription.unsubscribe();
+    }
+
+    return 'disabled';
+}
@@ -0,0 +1,44 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+
+// The parts of a realtime payload the pages use; deleted records only carry their primary key
+export type TableChange<T extends object> =
+    | { eventType: 'INSERT' | 'UPDATE'; new: T; old: Partial<T> }
+    | { eventType: 'DELETE'; old: Partial<T> };
+
+/**
+ * Subscribes to inserts, updates and deletes on one of the user's tables. Returns an unsubscribe function.
+ * Postgres can't filter deletes by user, and deleted records only carry their primary key, so handlers
+ * should look deletes up by id and ignore ids they don't know.
+ */
+export function subscribeToUserTable<T extends object>(
+    table: string,
+    userId: string,
+    onChange: (change: TableChange<T>) => void
+): () => void {
+    const filter = `user_id=eq.${userId}`;
+    // supabase-js only knows the records as plain objects; the caller's record type is applied here
+    const handleChange = (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) =>
+        onChange(payload as unknown as TableChange<T>);
+    const channel = supabase
+        .channel(`${table}:${userId}`)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, handleChange)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, handleChange)
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, handleChange)
+        .subscribe((status, error) => {
+            if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+                console.error(`Error subscribing to ${table} changes:`, error ?? status);
+            }
+        });
+
+    return () => {
+        void supabase.removeChannel(channel);
+    };
+}
+
+// Inserts or replaces a record by id, keeping the list order for existing records
+export const mergeById = <T extends { id: string }>(items: T[], record: T): T[] => {
+    return items.some(item => item.id === record.id)
+        ? items.map(item => (item.id === record.id ? record : item))
+        : [...items, record];
+};
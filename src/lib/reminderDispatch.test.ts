@@ -0,0 +1,241 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { dispatchReminders } from '@/lib/reminderDispatch';
+import {
+    createMemoryDelivery,
+    type PushSubscriptionRecord,
+    type ReminderDelivery,
+    type ReminderRecord,
+} from '@/lib/reminders';
+
+// The dispatcher always gets the mocked client below, so the shared browser client is never created
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+interface Query {
+    table: string;
+    action: 'select' | 'update' | 'delete';
+    payload?: unknown;
+    filters: Record<string, unknown>;
+}
+
+interface MockData {
+    reminders: ReminderRecord[];
+    subscriptions: PushSubscriptionRecord[];
+    mealCount?: number;
+    timezone?: string | null;
+    deviceTimezone?: string | null;
+}
+
+// Answers the handful of query chains the dispatcher builds and records each one
+const createMockClient = ({
+    reminders,
+    subscriptions,
+    mealCount = 0,
+    timezone = 'UTC',
+    deviceTimezone = null,
+}: MockData) => {
+    const queries: Query[] = [];
+
+    const respond = (query: Query) => {
+        if (query.action !== 'select') return { error: null };
+        if (query.table === 'reminders') return { data: reminders, error: null };
+        if (query.table === 'user_preferences') {
+            const preference = { user_id: 'user-1', timezone, device_timezone: deviceTimezone, week_start: 1 };
+            return { data: [preference], error: null };
+        }
+        if (query.table === 'push_subscriptions') {
+            const data = subscriptions.filter(subscription => subscription.user_id === query.filters.user_id);
+            return { data, error: null };
+        }
+        if (query.table === 'meals') return { count: mealCount, error: null };
+        return { data: [], error: null };
+    };
+
+    const client = {
+        from: (table: string) => {
+            const query: Query = { table, action: 'select', filters: {} };
+            queries.push(query);
+            const filter = (column: string, value: unknown) => {
+                query.filters[column] = value;
+                return builder;
+            };
+            const builder = {
+                select: () => builder,
+                update: (payload: unknown) => {
+                    query.action = 'update';
+                    query.payload = payload;
+                    return builder;
+                },
+                delete: () => {
+                    query.action = 'delete';
+                    return builder;
+                },
+                eq: filter,
+                in: filter,
+                is: filter,
+                gte: filter,
+                lte: filter,
+                then: (onFulfilled: (value: unknown) => unknown, onRejected?: (reason: unknown) => unknown) =>
+                    Promise.resolve(respond(query)).then(onFulfilled, onRejected),
+            };
+            return builder;
+        },
+    } as unknown as SupabaseClient;
+
+    return { client, queries };
+};
+
+const mealReminder = (id: string): ReminderRecord => ({
+    id,
+    user_id: 'user-1',
+    kind: 'meal',
+    activity_id: null,
+    label: '',
+    time: '12:00',
+    days: null,
+    enabled: true,
+    last_sent_on: null,
+});
+
+const subscription = (endpoint: string): PushSubscriptionRecord => ({
+    user_id: 'user-1',
+    endpoint,
+    p256dh: 'key',
+    auth: 'secret',
+});
+
+const NOW = new Date('2026-02-03T12:10:00Z');
+
+const getStampedReminders = (queries: Query[]) =>
+    queries
+        .filter(query => query.table === 'reminders' && query.action === 'update')
+        .map(query => [query.filters.id, query.payload]);
+
+beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('dispatchReminders', () => {
+    it('sends a due reminder to every subscription and stamps it as sent', async () => {
+        const { client, queries } = createMockClient({
+            reminders: [mealReminder('lunch')],
+            subscriptions: [subscription('phone'), subscription('laptop')],
+        });
+        const delivery = createMemoryDelivery();
+
+        const result = await dispatchReminders({ client, delivery, now: NOW });
+
+        expect(result).toEqual({
+            due: 1,
+            sent: 1,
+            skipped: 0,
+            expiredSubscriptions: 0,
+            failed: 0,
+            failedDeliveries: 0,
+        });
+        expect(delivery.sent.map(({ subscription }) => subscription.endpoint)).toEqual(['phone', 'laptop']);
+        expect(getStampedReminders(queries)).toEqual([['lunch', { last_sent_on: '2026-02-03' }]]);
+    });
+
+    it('skips reminders that are not due yet', async () => {
+        const { client } = createMockClient({
+            reminders: [{ ...mealReminder('dinner'), time: '18:00' }],
+            subscriptions: [subscription('phone')],
+        });
+
+        const result = await dispatchReminders({ client, delivery: createMemoryDelivery(), now: NOW });
+
+        expect(result.due).toBe(0);
+    });
+
+    it("falls back to the device's time zone while the user follows it", async () => {
+        // 12:10 UTC is 14:10 in Helsinki
+        const { client, queries } = createMockClient({
+            reminders: [{ ...mealReminder('lunch'), time: '14:00' }],
+            subscriptions: [subscription('phone')],
+            timezone: null,
+            deviceTimezone: 'Europe/Helsinki',
+        });
+
+        const result = await dispatchReminders({ client, delivery: createMemoryDelivery(), now: NOW });
+
+        expect(result).toMatchObject({ due: 1, sent: 1 });
+        expect(getStampedReminders(queries)).toEqual([['lunch', { last_sent_on: '2026-02-03' }]]);
+    });
+
+    it('stamps a reminder without sending it when there is nothing to remind about', async () => {
+        const { client, queries } = createMockClient({
+            reminders: [mealReminder('lunch')],
+            subscriptions: [subscription('phone')],
+            mealCount: 1,
+        });
+        const delivery = createMemoryDelivery();
+
+        const result = await dispatchReminders({ client, delivery, now: NOW });
+
+        expect(result).toMatchObject({ due: 1, sent: 0, skipped: 1 });
+        expect(delivery.sent).toHaveLength(0);
+        expect(getStampedReminders(queries)).toEqual([['lunch', { last_sent_on: '2026-02-03' }]]);
+    });
+
+    it('keeps sending to other devices and reminders when one subscription throws', async () => {
+        const { client, queries } = createMockClient({
+            reminders: [mealReminder('lunch'), mealReminder('snack')],
+            subscriptions: [subscription('broken'), subscription('phone')],
+        });
+        const memory = createMemoryDelivery();
+        const delivery: ReminderDelivery = {
+            send: async (target, notification) => {
+                if (target.endpoint === 'broken') throw new Error('Push service unavailable');
+                return memory.send(target, notification);
+            },
+        };
+
+        const result = await dispatchReminders({ client, delivery, now: NOW });
+
+        expect(result).toMatchObject({ due: 2, sent: 2, failed: 0, failedDeliveries: 2 });
+        expect(memory.sent.map(({ notification }) => notification.tag)).toEqual(['reminder-lunch', 'reminder-snack']);
+        expect(getStampedReminders(queries).map(([id]) => id)).toEqual(['lunch', 'snack']);
+    });
+
+    it('counts a reminder as failed but still stamps it when no device could be reached', async () => {
+        const { client, queries } = createMockClient({
+            reminders: [mealReminder('lunch')],
+            subscriptions: [subscription('phone')],
+        });
+        const delivery: ReminderDelivery = {
+            send: async () => {
+                throw new Error('Push service unavailable');
+            },
+        };
+
+        const result = await dispatchReminders({ client, delivery, now: NOW });
+
+        expect(result).toMatchObject({ due: 1, sent: 0, failed: 1, failedDeliveries: 1 });
+        expect(getStampedReminders(queries).map(([id]) => id)).toEqual(['lunch']);
+    });
+
+    it('removes expired subscriptions and stops sending to them', async () => {
+        const { client, queries } = createMockClient({
+            reminders: [mealReminder('lunch'), mealReminder('snack')],
+            subscriptions: [subscription('old'), subscription('phone')],
+        });
+        const memory = createMemoryDelivery();
+        const delivery: ReminderDelivery = {
+            send: async (target, notification) =>
+                target.endpoint === 'old' ? 'expired' : memory.send(target, notification),
+        };
+
+        const result = await dispatchReminders({ client, delivery, now: NOW });
+
+        expect(result).toMatchObject({ sent: 2, expiredSubscriptions: 1 });
+        expect(queries.filter(query => query.table === 'push_subscriptions' && query.action === 'delete')).toEqual([
+            expect.objectContaining({ filters: { user_id: 'user-1', endpoint: 'old' } }),
+        ]);
+        expect(memory.sent.map(({ subscription }) => subscription.endpoint)).toEqual(['phone', 'phone']);
+    });
+});
@@ -0,0 +1,216 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { rowFromRecord, type ActivityRowRecord } from '@/lib/activities';
+import { applyCompletions, type ActivityCompletionRecord } from '@/lib/completions';
+import { formatDateKey, getDateInTimeZone, getWeekDates, getWeekStartDate, toWeekStartDay } from '@/lib/dates';
+import {
+    buildReminderNotification,
+    isReminderDue,
+    MEAL_REMINDER_LOOKBACK_HOURS,
+    reminderFromRecord,
+    type PushSubscriptionRecord,
+    type Reminder,
+    type ReminderDelivery,
+    type ReminderRecord,
+} from '@/lib/reminders';
+
+export interface DispatchResult {
+    due: number;
+    sent: number;
+    // Due reminders with nothing to remind about, e.g. the activity was already done
+    skipped: number;
+    expiredSubscriptions: number;
+    // Due reminders that couldn't be handled, e.g. their user's data failed to load
+    failed: number;
+    // Single pushes that threw; the reminder still counts as sent when another device got it
+    failedDeliveries: number;
+}
+
+interface UserCalendar {
+    timeZone: string | null;
+    deviceTimeZone: string | null;
+    weekStart: number | null;
+}
+
+interface PreferenceRecord {
+    user_id: string;
+    timezone: string | null;
+    device_timezone: string | null;
+    week_start: number | null;
+}
+
+const loadActivityRows = async (client: SupabaseClient, userId: string, weekStartKey: string) => {
+    const [{ data: rowData, error: rowError }, { data: completionData, error: completionError }] = await Promise.all([
+        client.from('activity_rows').select('*').eq('user_id', userId).is('archived_at', null),
+        client
+            .from('activity_completions')
+            .select('id, activity_id, completed_on, value, status, note, skip_reason')
+            .eq('user_id', userId)
+            .gte('completed_on', weekStartKey),
+    ]);
+    if (rowError) throw rowError;
+    if (completionError) throw completionError;
+
+    const completions = ((completionData || []) as Omit<ActivityCompletionRecord, 'user_id'>[]).map(record => ({
+        ...record,
+        user_id: userId,
+    }));
+    return ((rowData || []) as ActivityRowRecord[]).map(record => applyCompletions(rowFromRecord(record), completions));
+};
+
+const hasMealSince = async (client: SupabaseClient, userId: string, since: Date, now: Date): Promise<boolean> => {
+    const { count, error } = await client
+        .from('meals')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .gte('meal_time', since.toISOString())
+        .lte('meal_time', now.toISOString());
+    if (error) throw error;
+    return (count ?? 0) > 0;
+};
+
+/**
+ * Sends every reminder that is due at `now` to all of its user's subscribed browsers.
+ * Runs with a service-role client, since it reads every user's reminders; `delivery` decides how
+ * notifications actually go out, so it can be swapped for the in-memory stand-in.
+ */
+export async function dispatchReminders({
+    client,
+    delivery,
+    now = new Date(),
+}: {
+    client: SupabaseClient;
+    delivery: ReminderDelivery;
+    now?: Date;
+}): Promise<DispatchResult> {
+    const result: DispatchResult = {
+        due: 0,
+        sent: 0,
+        skipped: 0,
+        expiredSubscriptions: 0,
+        failed: 0,
+        failedDeliveries: 0,
+    };
+
+    const { data: reminderData, error: reminderError } = await client.from('reminders').select('*').eq('enabled', true);
+    if (reminderError) {
+        console.error('Error fetching reminders:', reminderError);
+        throw reminderError;
+    }
+
+    const remindersByUser = new Map<string, Reminder[]>();
+    ((reminderData || []) as ReminderRecord[]).forEach(record => {
+        remindersByUser.set(record.user_id, [
+            ...(remindersByUser.get(record.user_id) ?? []),
+            reminderFromRecord(record),
+        ]);
+    });
+    if (remindersByUser.size === 0) return result;
+
+    const { data: preferenceData, error: preferenceError } = await client
+        .from('user_preferences')
+        .select('user_id, timezone, device_timezone, week_start')
+        .in('user_id', Array.from(remindersByUser.keys()));
+    if (preferenceError) {
+        console.error('Error fetching user preferences:', preferenceError);
+        throw preferenceError;
+    }
+    const calendars = new Map<string, UserCalendar>(
+        ((preferenceData || []) as PreferenceRecord[]).map(preference => [
+            preference.user_id,
+            {
+                timeZone: preference.timezone,
+                deviceTimeZone: preference.device_timezone,
+                weekStart: preference.week_start,
+            },
+        ])
+    );
+
+    for (const [userId, reminders] of remindersByUser) {
+        // Same fallback as the meal_daily_totals view: the chosen zone, then the last device's, then UTC
+        const calendar = calendars.get(userId) ?? { timeZone: null, deviceTimeZone: null, weekStart: null };
+        const timeZone = calendar.timeZone ?? calendar.deviceTimeZone ?? 'UTC';
+        const due = reminders.filter(reminder => isReminderDue(reminder, now, timeZone));
+        if (due.length === 0) continue;
+        result.due += due.length;
+        let handled = 0;
+
+        try {
+            const { data: subscriptionData, error: subscriptionError } = await client
+                .from('push_subscriptions')
+                .select('*')
+                .eq('user_id', userId);
+            if (subscriptionError) throw subscriptionError;
+            let subscriptions = (subscriptionData || []) as PushSubscriptionRecord[];
+            if (subscriptions.length === 0) continue;
+
+            const today = getDateInTimeZone(now, timeZone);
+            const weekStart = getWeekStartDate(today, toWeekStartDay(calendar.weekStart));
+            const needsRows = due.some(reminder => reminder.kind !== 'meal');
+            const rows = needsRows ? await loadActivityRows(client, userId, formatDateKey(weekStart)) : [];
+            const needsMeals = due.some(reminder => reminder.kind === 'meal');
+            const hasRecentMeal = needsMeals
+                ? await hasMealSince(
+                      client,
+                      userId,
+                      new Date(now.getTime() - MEAL_REMINDER_LOOKBACK_HOURS * 3600000),
+                      now
+                  )
+                : false;
+
+            for (const reminder of due) {
+                const notification = buildReminderNotification(reminder, {
+                    rows,
+                    weekDates: getWeekDates(weekStart),
+                    today,
+                    hasRecentMeal,
+                });
+
+                if (notification) {
+                    const expired = new Set<string>();
+                    let delivered = 0;
+                    // One broken device mustn't stop the others, or the reminder from being marked as sent
+                    for (const subscription of subscriptions) {
+                        try {
+                            const outcome = await delivery.send(subscription, notification);
+                            if (outcome === 'expired') {
+                                await client
+                                    .from('push_subscriptions')
+                                    .delete()
+                                    .eq('user_id', userId)
+                                    .eq('endpoint', subscription.endpoint);
+                                expired.add(subscription.endpoint);
+                            } else {
+                                delivered += 1;
+                            }
+                        } catch (error) {
+                            console.error(`Failed to send reminder ${reminder.id} to ${subscription.endpoint}:`, error);
+                            result.failedDeliveries += 1;
+                        }
+                    }
+                    subscriptions = subscriptions.filter(subscription => !expired.has(subscription.endpoint));
+                    result.expiredSubscriptions += expired.size;
+                    if (delivered > 0) {
+                        result.sent += 1;
+                    } else {
+                        result.failed += 1;
+                    }
+                } else {
+                    result.skipped += 1;
+                }
+
+                // Sent, failed or not needed, either way it's handled for the day, so it isn't retried every run
+                const { error: updateError } = await client
+                    .from('reminders')
+                    .update({ last_sent_on: formatDateKey(today) })
+                    .eq('id', reminder.id);
+                handled += 1;
+                if (updateError) throw updateError;
+            }
+        } catch (error) {
+            console.error(`Failed to dispatch reminders for user ${userId}:`, error);
+            result.failed += due.length - handled;
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,269 @@
+import { supabase } from '@/lib/supabase';
+import { getDayStatus, getTargetProgress, isArchived, isAvoidHabit, type ActivityRow } from '@/lib/activities';
+import { formatDateKey, getDateInTimeZone, getTimeInTimeZone } from '@/lib/dates';
+
+// An activity reminder fires unless the activity is ticked off or skipped today; a meal reminder unless a meal was logged
+// shortly before; a target reminder nudges about weekly targets that are falling behind
+export type ReminderKind = 'activity' | 'meal' | 'target';
+
+export interface Reminder {
+    id: string;
+    kind: ReminderKind;
+    // Only set for activity reminders
+    activityId: string | null;
+    label: string;
+    // HH:MM in the user's time zone
+    time: string;
+    // Weekdays it fires on, using Date#getDay numbering; empty means every day
+    days: number[];
+    enabled: boolean;
+    // Date key of the last day it was sent (or skipped because there was nothing to remind about)
+    lastSentOn: string | null;
+}
+
+export interface ReminderRecord {
+    id: string;
+    user_id: string;
+    kind: ReminderKind;
+    activity_id: string | null;
+    label: string;
+    time: string;
+    days: number[] | null;
+    enabled: boolean;
+    last_sent_on: string | null;
+}
+
+export type ReminderInput = Omit<Reminder, 'id' | 'lastSentOn'>;
+
+export interface ReminderNotification {
+    title: string;
+    body: string;
+    // Page opened when the notification is clicked
+    url: string;
+    // Notifications with the same tag replace each other instead of stacking
+    tag: string;
+}
+
+export interface PushSubscriptionRecord {
+    id?: string;
+    user_id: string;
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+}
+
+/**
+ * Push services are public HTTPS hosts, so anything else is refused before it's stored or sent to: the server
+ * posts to these URLs, and must not be pointed at localhost, an IP address or an internal name.
+ * The push_subscriptions table has the same check, and the server also checks what the host resolves to.
+ */
+export const isAllowedPushEndpoint = (endpoint: string): boolean => {
+    let url: URL;
+    try {
+        url = new URL(endpoint);
+    } catch {
+        return false;
+    }
+
+    // IP addresses come out of URL in dotted or [bracketed] form, whichever way they were written
+    const hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+    return (
+        url.protocol === 'https:' &&
+        !url.username &&
+        !url.password &&
+        hostname.includes('.') &&
+        !/^[\d.]+$/.test(hostname) &&
+        !hostname.startsWith('[') &&
+        !/(^|\.)(localhost|local|internal)$/.test(hostname)
+    );
+};
+
+export type DeliveryResult = 'sent' | 'expired';
+
+/**
+ * Sends a notification to one browser subscription. Resolves to 'expired' when the push service no longer
+ * knows the subscription, so it can be removed. The dispatcher only talks to this interface, so tests and
+ * local development can swap web push for the in-memory stand-in.
+ */
+export interface ReminderDelivery {
+    send: (subscription: PushSubscriptionRecord, notification: ReminderNotification) => Promise<DeliveryResult>;
+}
+
+export const createMemoryDelivery = (): ReminderDelivery & {
+    sent: { subscription: PushSubscriptionRecord; notification: ReminderNotification }[];
+} => {
+    const sent: { subscription: PushSubscriptionRecord; notification: ReminderNotification }[] = [];
+    return {
+        sent,
+        send: async (subscription, notification) => {
+            sent.push({ subscription, notification });
+            return 'sent';
+        },
+    };
+};
+
+export const REMINDER_KINDS: { value: ReminderKind; label: string }[] = [
+    { value: 'activity', label: 'Activity' },
+    { value: 'meal', label: 'Meal logging' },
+    { value: 'target', label: 'Weekly targets at risk' },
+];
+
+// A reminder that couldn't be sent within this long after its time (e.g. the scheduler was down) is dropped for the day
+export const REMINDER_WINDOW_MINUTES = 60;
+
+// A meal logged this many hours before a meal reminder counts as logged, e.g. breakfast at 11:00 satisfies "lunch by 14:00"
+export const MEAL_REMINDER_LOOKBACK_HOURS = 4;
+
+const toMinutes = (time: string): number => {
+    const [hours = 0, minutes = 0] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+export const reminderFromRecord = (record: ReminderRecord): Reminder => ({
+    id: record.id,
+    kind: record.kind,
+    activityId: record.activity_id,
+    label: record.label,
+    time: record.time.slice(0, 5),
+    days: record.days ?? [],
+    enabled: record.enabled,
+    lastSentOn: record.last_sent_on,
+});
+
+export const formatReminderDays = (days: number[]): string => {
+    if (days.length === 0 || days.length === 7) return 'Every day';
+    const labels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+    // List Monday first, with Sunday last
+    return [...days]
+        .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+        .map(day => labels[day])
+        .join(', ');
+};
+
+// Whether a reminder should go out now: its time has passed today, within the window, and it hasn't gone out today
+export const isReminderDue = (reminder: Reminder, now: Date, timeZone: string | null): boolean => {
+    if (!reminder.enabled) return false;
+
+    const today = getDateInTimeZone(now, timeZone);
+    if (reminder.lastSentOn === formatDateKey(today)) return false;
+    if (reminder.days.length > 0 && !reminder.days.includes(today.getDay())) return false;
+
+    const minutesLate = toMinutes(getTimeInTimeZone(now, timeZone)) - toMinutes(reminder.time);
+    return minutesLate >= 0 && minutesLate < REMINDER_WINDOW_MINUTES;
+};
+
+// Active rows whose weekly target is behind an even pace
+export const getTargetsAtRisk = (rows: ActivityRow[], weekDates: Date[], today: Date): ActivityRow[] =>
+    rows.filter(row => !isArchived(row) && getTargetProgress(row, weekDates, today)?.status === 'behind');
+
+/**
+ * The notification for a due reminder, or null when there's nothing to remind about
+ * (the activity is already done, skipped or slipped, a meal was logged, or every target is on track).
+ */
+export function buildReminderNotification(
+    reminder: Reminder,
+    {
+        rows,
+        weekDates,
+        today,
+        hasRecentMeal,
+    }: { rows: ActivityRow[]; weekDates: Date[]; today: Date; hasRecentMeal: boolean }
+): ReminderNotification | null {
+    if (reminder.kind === 'activity') {
+        const row = rows.find(candidate => candidate.id === reminder.activityId);
+        if (!row || isArchived(row) || getDayStatus(row, formatDateKey(today)) !== 'missed') return null;
+        return {
+            title: `${row.emoji} ${reminder.label || row.name}`,
+            // A tick on an avoid row is a slip, so its reminder is a nudge to stay clean instead
+            body: isAvoidHabit(row)
+                ? `No slips on ${row.name} so far today. Keep it up!`
+                : `${row.name} isn't ticked off yet today.`,
+            url: `/activities/${encodeURIComponent(row.id)}`,
+            tag: `reminder-${reminder.id}`,
+        };
+    }
+
+    if (reminder.kind === 'meal') {
+        if (hasRecentMeal) return null;
+        return {
+            title: `🍽️ ${reminder.label || 'Log your meal'}`,
+            body: 'Nothing logged in the food diary yet.',
+            url: '/food-diary',
+            tag: `reminder-${reminder.id}`,
+        };
+    }
+
+    const atRisk = getTargetsAtRisk(rows, weekDates, today);
+    if (atRisk.length === 0) return null;
+    return {
+        title: `🎯 ${reminder.label || 'Weekly targets at risk'}`,
+        body: atRisk
+            .map(row => {
+                const progress = getTargetProgress(row, weekDates, today);
+                return `${row.emoji} ${row.name}: ${progress?.progress ?? 0}/${row.weeklyTarget}`;
+            })
+            .join(', '),
+        url: '/',
+        tag: `reminder-${reminder.id}`,
+    };
+}
+
+export async function getReminders(userId: string): Promise<Reminder[]> {
+    const { data, error } = await supabase
+        .from('reminders')
+        .select('*')
+        .eq('user_id', userId)
+        .order('time', { ascending: true });
+
+    if (error) {
+        if (error.code === '42P01' || error.code === 'PGRST205' || error.message?.includes('does not exist')) {
+            console.warn('reminders table does not exist yet. Please run the migration.');
+            return [];
+        }
+        console.error('Error fetching reminders:', error);
+        throw error;
+    }
+
+    return ((data || []) as ReminderRecord[]).map(reminderFromRecord);
+}
+
+export async function createReminder(userId: string, reminder: ReminderInput): Promise<Reminder> {
+    const { data, error } = await supabase
+        .from('reminders')
+        .insert({
+            user_id: userId,
+            kind: reminder.kind,
+            activity_id: reminder.kind === 'activity' ? reminder.activityId : null,
+            label: reminder.label.trim(),
+            time: reminder.time,
+            days: reminder.days,
+            enabled: reminder.enabled,
+        })
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Error creating reminder:', error);
+        throw error;
+    }
+
+    return reminderFromRecord(data as ReminderRecord);
+}
+
+export async function setReminderEnabled(userId: string, reminderId: string, enabled: boolean): Promise<void> {
+    const { error } = await supabase.from('reminders').update({ enabled }).eq('user_id', userId).eq('id', reminderId);
+
+    if (error) {
+        console.error('Error updating reminder:', error);
+        throw error;
+    }
+}
+
+export async function deleteReminder(userId: string, reminderId: string): Promise<void> {
+    const { error } = await supabase.from('reminders').delete().eq('user_id', userId).eq('id', reminderId);
+
+    if (error) {
+        console.error('Error deleting reminder:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,113 @@
+import { supabase } from '@/lib/supabase';
+import { normalizeDateKey, parseDateKey } from '@/lib/dates';
+
+// A single rest day has the same start and end date; a vacation spans several days
+export interface RestPeriod {
+    id: string;
+    startDate: string;
+    endDate: string;
+    // null covers every activity
+    activityIds: string[] | null;
+    reason: string | null;
+}
+
+export interface RestPeriodRecord {
+    id: string;
+    user_id: string;
+    start_date: string;
+    end_date: string;
+    activity_ids: string[] | null;
+    reason: string | null;
+}
+
+export type RestPeriodInput = Omit<RestPeriod, 'id'>;
+
+const periodFromRecord = (record: RestPeriodRecord): RestPeriod => ({
+    id: record.id,
+    startDate: normalizeDateKey(record.start_date),
+    endDate: normalizeDateKey(record.end_date),
+    activityIds: record.activity_ids && record.activity_ids.length > 0 ? record.activity_ids : null,
+    reason: record.reason,
+});
+
+export const appliesToActivity = (period: RestPeriod, activityId: string | null): boolean => {
+    if (period.activityIds === null) return true;
+    return activityId !== null && period.activityIds.includes(activityId);
+};
+
+/**
+ * Whether a date is a rest day for an activity. Pass null to ask about rest days that cover every activity.
+ * Rest days neither extend nor break streaks and are left out of completion rates.
+ */
+export const isRestDay = (periods: RestPeriod[], activityId: string | null, dateKey: string): boolean => {
+    return periods.some(
+        period => period.startDate <= dateKey && dateKey <= period.endDate && appliesToActivity(period, activityId)
+    );
+};
+
+export const getRestPeriodOn = (
+    periods: RestPeriod[],
+    activityId: string | null,
+    dateKey: string
+): RestPeriod | undefined => {
+    return periods.find(
+        period => period.startDate <= dateKey && dateKey <= period.endDate && appliesToActivity(period, activityId)
+    );
+};
+
+export const formatRestPeriod = (period: RestPeriod): string => {
+    const format = (dateKey: string) =>
+        parseDateKey(dateKey).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    return period.startDate === period.endDate
+        ? format(period.startDate)
+        : `${format(period.startDate)} – ${format(period.endDate)}`;
+};
+
+export async function getRestPeriods(userId: string): Promise<RestPeriod[]> {
+    const { data, error } = await supabase
+        .from('rest_periods')
+        .select('*')
+        .eq('user_id', userId)
+        .order('start_date', { ascending: false });
+
+    if (error) {
+        if (error.code === '42P01' || error.code === 'PGRST205' || error.message?.includes('does not exist')) {
+            console.warn('rest_periods table does not exist yet. Please run the migration.');
+            return [];
+        }
+        console.error('Error fetching rest periods:', error);
+        throw error;
+    }
+
+    return ((data || []) as RestPeriodRecord[]).map(periodFromRecord);
+}
+
+export async function createRestPeriod(userId: string, period: RestPeriodInput): Promise<RestPeriod> {
+    const { data, error } = await supabase
+        .from('rest_periods')
+        .insert({
+            user_id: userId,
+            start_date: period.startDate,
+            end_date: period.endDate,
+            activity_ids: period.activityIds,
+            reason: period.reason,
+        })
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Error creating rest period:', error);
+        throw error;
+    }
+
+    return periodFromRecord(data as RestPeriodRecord);
+}
+
+export async function deleteRestPeriod(userId: string, periodId: string): Promise<void> {
+    const { error } = await supabase.from('rest_periods').delete().eq('user_id', userId).eq('id', periodId);
+
+    if (error) {
+        console.error('Error deleting rest period:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { createActivityRow, type ActivityRow } from '@/lib/activities';
+import { getRowSections, moveRowByStep } from '@/lib/rowGroups';
+
+const row = (id: string, group: string | null): ActivityRow => createActivityRow({ id, name: id, emoji: '⭐', group });
+
+const rows = [row('read', null), row('run', 'Health'), row('sleep', 'Health'), row('dishes', 'Chores')];
+
+// What the grid shows with the Health group collapsed
+const visibleRows = getRowSections(rows).flatMap(section => (section.group === 'Health' ? [] : section.rows));
+
+const summarize = (result: ActivityRow[]) => result.map(({ id, group }) => `${id}:${group ?? '-'}`);
+
+describe('moveRowByStep', () => {
+    it('swaps with the neighbouring row inside a group', () => {
+        expect(summarize(moveRowByStep(rows, rows, 'sleep', -1))).toEqual([
+            'read:-',
+            'sleep:Health',
+            'run:Health',
+            'dishes:Chores',
+        ]);
+    });
+
+    it('steps over a collapsed group into the next visible one', () => {
+        expect(summarize(moveRowByStep(rows, visibleRows, 'read', 1))).toEqual([
+            'run:Health',
+            'sleep:Health',
+            'read:Chores',
+            'dishes:Chores',
+        ]);
+        expect(summarize(moveRowByStep(rows, visibleRows, 'dishes', -1))).toEqual([
+            'read:-',
+            'dishes:-',
+            'run:Health',
+            'sleep:Health',
+        ]);
+    });
+
+    it('leaves the rows alone at the edge of the grid', () => {
+        expect(moveRowByStep(rows, visibleRows, 'read', -1)).toBe(rows);
+    });
+});
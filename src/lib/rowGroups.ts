@@ -0,0 +1,93 @@
+import type { ActivityRow } from '@/lib/activities';
+
+export interface RowSection {
+    // null holds the rows without a group, shown above the named groups
+    group: string | null;
+    rows: ActivityRow[];
+}
+
+export type DropPlacement = 'before' | 'after';
+
+export const normalizeGroupName = (value: string | null | undefined): string | null => value?.trim() || null;
+
+/**
+ * Splits rows into sections: ungrouped rows first, then each group in the order its first row appears.
+ * Rows keep their relative order inside a section.
+ */
+export function getRowSections(rows: ActivityRow[]): RowSection[] {
+    const ungrouped: RowSection = { group: null, rows: [] };
+    const groups = new Map<string, RowSection>();
+
+    rows.forEach(row => {
+        if (row.group === null) {
+            ungrouped.rows.push(row);
+            return;
+        }
+        let section = groups.get(row.group);
+        if (!section) {
+            section = { group: row.group, rows: [] };
+            groups.set(row.group, section);
+        }
+        section.rows.push(row);
+    });
+
+    return [ungrouped, ...groups.values()];
+}
+
+// Reorders rows so each group is contiguous, which is the order the grid shows and order_index stores
+export const sortRowsByGroup = (rows: ActivityRow[]): ActivityRow[] =>
+    getRowSections(rows).flatMap(section => section.rows);
+
+export const getGroupNames = (rows: ActivityRow[]): string[] =>
+    getRowSections(rows)
+        .map(section => section.group)
+        .filter((group): group is string => group !== null);
+
+// Moves a row next to another one, joining the target's group
+export function moveRowNextTo(
+    rows: ActivityRow[],
+    rowId: string,
+    targetRowId: string,
+    placement: DropPlacement
+): ActivityRow[] {
+    const row = rows.find(candidate => candidate.id === rowId);
+    const target = rows.find(candidate => candidate.id === targetRowId);
+    if (!row || !target || row.id === target.id) return rows;
+
+    const remaining = rows.filter(candidate => candidate.id !== rowId);
+    const targetIndex = remaining.findIndex(candidate => candidate.id === targetRowId);
+    remaining.splice(placement === 'before' ? targetIndex : targetIndex + 1, 0, { ...row, group: target.group });
+    return sortRowsByGroup(remaining);
+}
+
+// Moves a row to the end of a group, e.g. when it is dropped on the group's header
+export function moveRowToGroup(rows: ActivityRow[], rowId: string, group: string | null): ActivityRow[] {
+    const row = rows.find(candidate => candidate.id === rowId);
+    if (!row) return rows;
+
+    const remaining = rows.filter(candidate => candidate.id !== rowId);
+    const lastIndex = remaining.findLastIndex(candidate => candidate.group === group);
+    remaining.splice(lastIndex === -1 ? remaining.length : lastIndex + 1, 0, { ...row, group });
+    return sortRowsByGroup(remaining);
+}
+
+/**
+ * Moves a row one step up or down among `visibleRows` (the rows the grid shows, in order). At the edge of a
+ * group it crosses into the neighbouring group instead of swapping, so the keyboard can reach every group.
+ */
+export function moveRowByStep(
+    rows: ActivityRow[],
+    visibleRows: ActivityRow[],
+    rowId: string,
+    direction: -1 | 1
+): ActivityRow[] {
+    const index = visibleRows.findIndex(row => row.id === rowId);
+    const row = visibleRows[index];
+    const neighbour = visibleRows[index + direction];
+    if (!row || !neighbour) return rows;
+
+    if (neighbour.group !== row.group) {
+        return moveRowNextTo(rows, rowId, neighbour.id, direction === -1 ? 'after' : 'before');
+    }
+    return moveRowNextTo(rows, rowId, neighbour.id, direction === -1 ? 'before' : 'after');
+}
@@ -0,0 +1,92 @@
+import { formatDateKey, parseDateKey } from '@/lib/dates';
+
+// `weekly` days use Date#getDay numbering (0 = Sunday); `interval` repeats every N days from its start date
+export type Schedule =
+    | { type: 'daily' }
+    | { type: 'weekly'; days: number[] }
+    | { type: 'interval'; every: number; startDate: string };
+
+export const DAILY_SCHEDULE: Schedule = { type: 'daily' };
+
+export const WEEKDAY_OPTIONS: { value: number; label: string }[] = [
+    { value: 1, label: 'Mon' },
+    { value: 2, label: 'Tue' },
+    { value: 3, label: 'Wed' },
+    { value: 4, label: 'Thu' },
+    { value: 5, label: 'Fri' },
+    { value: 6, label: 'Sat' },
+    { value: 0, label: 'Sun' },
+];
+
+const daysBetween = (from: Date, to: Date): number => {
+    return Math.round((to.getTime() - from.getTime()) / 86400000);
+};
+
+export function isScheduledOn(schedule: Schedule, date: Date): boolean {
+    switch (schedule.type) {
+        case 'weekly':
+            return schedule.days.includes(date.getDay());
+        case 'interval': {
+            const offset = daysBetween(parseDateKey(schedule.startDate), date);
+            return offset >= 0 && offset % schedule.every === 0;
+        }
+        default:
+            return true;
+    }
+}
+
+export function parseSchedule(value: unknown): Schedule {
+    if (!value || typeof value !== 'object') return DAILY_SCHEDULE;
+    const candidate = value as Partial<{ type: string; days: unknown; every: unknown; startDate: unknown }>;
+
+    if (candidate.type === 'weekly' && Array.isArray(candidate.days)) {
+        const days = candidate.days.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6);
+        return days.length > 0 ? { type: 'weekly', days } : DAILY_SCHEDULE;
+    }
+    if (
+        candidate.type === 'interval' &&
+        typeof candidate.every === 'number' &&
+        candidate.every >= 1 &&
+        typeof candidate.startDate === 'string'
+    ) {
+        return { type: 'interval', every: Math.round(candidate.every), startDate: candidate.startDate };
+    }
+    return DAILY_SCHEDULE;
+}
+
+export function formatSchedule(schedule: Schedule): string {
+    switch (schedule.type) {
+        case 'weekly':
+            return WEEKDAY_OPTIONS.filter(option => schedule.days.includes(option.value))
+                .map(option => option.label)
+                .join('/');
+        case 'interval':
+            return schedule.every === 1 ? 'Every day' : `Every ${schedule.every} days`;
+        default:
+            return 'Every day';
+    }
+}
+
+export function getScheduledDays(schedule: Schedule, dates: Date[]): Date[] {
+    return dates.filter(date => isScheduledOn(schedule, date));
+}
+
+/**
+ * Share of scheduled days that were completed, as a 0–1 fraction.
+ * Future days are left out, and today only counts once it's done. Returns null when nothing was due.
+ */
+export function getCompletionRate(
+    completedDays: string[],
+    schedule: Schedule,
+    dates: Date[],
+    today: Date = new Date()
+): number | null {
+    const todayKey = formatDateKey(today);
+    const completed = new Set(completedDays);
+    const dueKeys = getScheduledDays(schedule, dates)
+        .map(date => formatDateKey(date))
+        .filter(dateKey => dateKey < todayKey || (dateKey === todayKey && completed.has(dateKey)));
+    if (dueKeys.length === 0) return null;
+
+    return dueKeys.filter(dateKey => completed.has(dateKey)).length / dueKeys.length;
+}
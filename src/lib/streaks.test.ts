@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { createActivityRow } from '@/lib/activities';
+import { getActivityStreakStats, getStreakStats } from '@/lib/streaks';
+
+// Tuesday
+const TODAY = new Date(2026, 1, 3);
+
+describe('getStreakStats', () => {
+    it('returns no streaks without completions', () => {
+        expect(getStreakStats([], TODAY)).toEqual({ current: null, longest: null });
+    });
+
+    it('keeps the current streak while today is still open', () => {
+        const stats = getStreakStats(['2026-02-01', '2026-02-02'], TODAY);
+        expect(stats.current).toEqual({ start: '2026-02-01', end: '2026-02-02', length: 2 });
+
+        const withToday = getStreakStats(['2026-02-01', '2026-02-02', '2026-02-03'], TODAY);
+        expect(withToday.current).toEqual({ start: '2026-02-01', end: '2026-02-03', length: 3 });
+    });
+
+    it('breaks the current streak once a past day is missed', () => {
+        const stats = getStreakStats(['2026-01-31', '2026-02-01'], TODAY);
+        expect(stats.current).toBeNull();
+        expect(stats.longest).toEqual({ start: '2026-01-31', end: '2026-02-01', length: 2 });
+    });
+
+    it('carries a streak across a month boundary', () => {
+        const stats = getStreakStats(['2026-01-30', '2026-01-31', '2026-02-01', '2026-02-02'], TODAY);
+        expect(stats.current).toEqual({ start: '2026-01-30', end: '2026-02-02', length: 4 });
+    });
+
+    it('ignores ticks after today', () => {
+        const stats = getStreakStats(['2026-02-03', '2026-02-04'], TODAY);
+        expect(stats.current).toEqual({ start: '2026-02-03', end: '2026-02-03', length: 1 });
+    });
+
+    it('prefers the most recent streak on ties', () => {
+        const stats = getStreakStats(['2026-01-20', '2026-01-21', '2026-01-25', '2026-01-26'], TODAY);
+        expect(stats.longest).toEqual({ start: '2026-01-25', end: '2026-01-26', length: 2 });
+    });
+
+    it('does not break a streak on unscheduled days', () => {
+        // 2026-02-01 is a Sunday
+        const stats = getStreakStats(['2026-01-30', '2026-01-31', '2026-02-02'], TODAY, {
+            isScheduled: date => date.getDay() !== 0,
+        });
+        expect(stats.current).toEqual({ start: '2026-01-30', end: '2026-02-02', length: 3 });
+    });
+
+    it('spends one freeze per calendar month', () => {
+        const completed = [
+            '2026-01-26',
+            '2026-01-27',
+            '2026-01-29',
+            '2026-01-30',
+            '2026-01-31',
+            '2026-02-02',
+            '2026-02-03',
+        ];
+
+        // 2026-01-28 uses January's freeze and 2026-02-01 uses February's
+        const stats = getStreakStats(completed, TODAY, { freezesPerMonth: 1 });
+        expect(stats.current).toEqual({ start: '2026-01-26', end: '2026-02-03', length: 7 });
+        expect(getStreakStats(completed, TODAY).current).toEqual({
+            start: '2026-02-02',
+            end: '2026-02-03',
+            length: 2,
+        });
+    });
+
+    it('breaks the streak once the month runs out of freezes', () => {
+        const completed = ['2026-01-26', '2026-01-27', '2026-01-29', '2026-01-31', '2026-02-01', '2026-02-02'];
+
+        // 2026-01-28 uses January's only freeze, so 2026-01-30 breaks the streak
+        const stats = getStreakStats(completed, TODAY, { freezesPerMonth: 1 });
+        expect(stats.current).toEqual({ start: '2026-01-31', end: '2026-02-02', length: 3 });
+        expect(stats.longest).toEqual(stats.current);
+    });
+
+    it('does not spend freezes while there is no streak to protect', () => {
+        // December's streak breaks on 2025-12-22; the empty days in early January leave January's freeze for 2026-01-12
+        const completed = ['2025-12-20', '2026-01-10', '2026-01-11', '2026-01-13', '2026-01-14'];
+        const stats = getStreakStats(completed, new Date(2026, 0, 14), { freezesPerMonth: 1 });
+        expect(stats.current).toEqual({ start: '2026-01-10', end: '2026-01-14', length: 4 });
+    });
+});
+
+describe('getActivityStreakStats', () => {
+    it('treats skipped days as neither done nor missed', () => {
+        const row = createActivityRow({
+            id: 'run',
+            name: 'Run',
+            emoji: '🏃',
+            completedDays: ['2026-02-01', '2026-02-03'],
+            skippedDays: { '2026-02-02': 'Sick' },
+        });
+        expect(getActivityStreakStats(row, TODAY).current).toEqual({
+            start: '2026-02-01',
+            end: '2026-02-03',
+            length: 2,
+        });
+
+        const withoutSkip = { ...row, skippedDays: {} };
+        expect(getActivityStreakStats(withoutSkip, TODAY).current).toEqual({
+            start: '2026-02-03',
+            end: '2026-02-03',
+            length: 1,
+        });
+    });
+
+    it('counts clean days for avoid habits and restarts after a slip', () => {
+        const row = createActivityRow({
+            id: 'sugar',
+            name: 'Sugar',
+            emoji: '🍬',
+            habitType: 'avoid',
+            trackedSince: '2026-01-25',
+            completedDays: ['2026-01-29'],
+        });
+        const stats = getActivityStreakStats(row, TODAY);
+        expect(stats.current).toEqual({ start: '2026-01-30', end: '2026-02-03', length: 5 });
+        expect(stats.longest).toEqual(stats.current);
+    });
+
+    it('ends an avoid habit streak as soon as a slip is logged today', () => {
+        const row = createActivityRow({
+            id: 'sugar',
+            name: 'Sugar',
+            emoji: '🍬',
+            habitType: 'avoid',
+            trackedSince: '2026-01-25',
+            completedDays: ['2026-02-03'],
+        });
+        const stats = getActivityStreakStats(row, TODAY);
+        expect(stats.current).toBeNull();
+        expect(stats.longest).toEqual({ start: '2026-01-25', end: '2026-02-02', length: 9 });
+    });
+});
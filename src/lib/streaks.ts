@@ -0,0 +1,101 @@
+import { getSuccessDays, isAvoidHabit, isSkippedOn, type ActivityRow } from '@/lib/activities';
+import { addDays, formatDateKey, parseDateKey } from '@/lib/dates';
+
+export interface Streak {
+    length: number;
+    start: string;
+    end: string;
+}
+
+export interface StreakStats {
+    current: Streak | null;
+    longest: Streak | null;
+}
+
+const EMPTY_STATS: StreakStats = { current: null, longest: null };
+
+export interface StreakOptions {
+    // Days that aren't scheduled (or are rest days) can extend a streak but never break it
+    isScheduled?: (date: Date) => boolean;
+    // Missed scheduled days forgiven per calendar month before a streak breaks
+    freezesPerMonth?: number;
+}
+
+/**
+ * Computes the current and all-time longest streak for a set of completed date keys.
+ * A streak is still current while today is unfinished, so a missing tick today doesn't reset it.
+ */
+export function getStreakStats(
+    dateKeys: Iterable<string>,
+    today: Date = new Date(),
+    { isScheduled = () => true, freezesPerMonth = 0 }: StreakOptions = {}
+): StreakStats {
+    const todayKey = formatDateKey(today);
+
+    // Ignore anything logged after today so future ticks can't inflate a streak
+    const completed = new Set(Array.from(dateKeys).filter(dateKey => dateKey <= todayKey));
+    if (completed.size === 0) return EMPTY_STATS;
+
+    const firstKey = Array.from(completed).sort()[0];
+    let run: Streak | null = null;
+    let longest: Streak | null = null;
+    const freezesUsed = new Map<string, number>();
+
+    for (let cursor = parseDateKey(firstKey); formatDateKey(cursor) <= todayKey; cursor = addDays(cursor, 1)) {
+        const dateKey = formatDateKey(cursor);
+
+        if (completed.has(dateKey)) {
+            const extended: Streak = run
+                ? { start: run.start, end: dateKey, length: run.length + 1 }
+                : { start: dateKey, end: dateKey, length: 1 };
+            run = extended;
+            // On ties the most recent streak wins, since that's the one people remember
+            if (!longest || extended.length >= longest.length) {
+                longest = extended;
+            }
+        } else if (run && dateKey !== todayKey && isScheduled(cursor)) {
+            // Freezes are spent in date order, and only while there is a streak to protect
+            const monthKey = dateKey.slice(0, 7);
+            const used = freezesUsed.get(monthKey) ?? 0;
+            if (used < freezesPerMonth) {
+                freezesUsed.set(monthKey, used + 1);
+            } else {
+                run = null;
+            }
+        }
+    }
+
+    return { current: run, longest };
+}
+
+/**
+ * Streaks for a single activity, scored on its success days. Skipped days never break a streak, and a slip
+ * logged today ends an avoid row's current streak straight away rather than once the day is over.
+ */
+export function getActivityStreakStats(
+    row: ActivityRow,
+    today: Date = new Date(),
+    { isScheduled = () => true, freezesPerMonth }: StreakOptions = {}
+): StreakStats {
+    const stats = getStreakStats(getSuccessDays(row, today), today, {
+        isScheduled: date => !isSkippedOn(row, formatDateKey(date)) && isScheduled(date),
+        freezesPerMonth,
+    });
+    if (isAvoidHabit(row) && row.completedDays.includes(formatDateKey(today))) {
+        return { ...stats, current: null };
+    }
+    return stats;
+}
+
+export function formatStreakRange(streak: Streak): string {
+    const start = parseDateKey(streak.start);
+    const end = parseDateKey(streak.end);
+    const sameYear = start.getFullYear() === end.getFullYear();
+    const startLabel = start.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        ...(sameYear ? {} : { year: 'numeric' }),
+    });
+    const endLabel = end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    return streak.start === streak.end ? endLabel : `${startLabel} – ${endLabel}`;
+}
@@ -0,0 +1,159 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStorage, createSyncQueue, type SyncOperation } from '@/lib/syncQueue';
+
+// The queue always gets the mocked client below, so the shared browser client is never created
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+type MockResponse = { error: unknown };
+
+// Records every upsert and answers with the given response, e.g. a network failure or a Postgres error
+const createMockClient = (respond: (record: Record<string, unknown>) => MockResponse | Promise<MockResponse>) => {
+    const upserts: Record<string, unknown>[] = [];
+    const client = {
+        from: () => ({
+            upsert: async (record: Record<string, unknown>) => {
+                upserts.push(record);
+                return respond(record);
+            },
+        }),
+    } as unknown as SupabaseClient;
+    return { client, upserts };
+};
+
+const completion = (dateKey: string, value: number): SyncOperation => ({
+    kind: 'completion',
+    userId: 'user-1',
+    activityId: 'run',
+    measurementType: 'count',
+    dateKey,
+    value,
+});
+
+const NETWORK_ERROR = { message: 'TypeError: Failed to fetch', details: '', hint: '', code: '' };
+const FOREIGN_KEY_ERROR = { message: 'insert or update violates foreign key constraint', code: '23503' };
+
+beforeEach(() => {
+    // Retries are scheduled with timers; fake ones keep them from firing between assertions
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('createSyncQueue', () => {
+    it('keeps changes queued while offline and replays them once back online', async () => {
+        let online = false;
+        const { client, upserts } = createMockClient(() => ({ error: null }));
+        const queue = createSyncQueue({ client, isOnline: () => online });
+
+        await queue.enqueue(completion('2026-02-01', 1));
+        expect(upserts).toHaveLength(0);
+        expect(queue.getState()).toMatchObject({ status: 'offline', pending: 1 });
+
+        online = true;
+        await queue.flush();
+        expect(upserts).toEqual([expect.objectContaining({ completed_on: '2026-02-01', value: 1 })]);
+        expect(queue.getState()).toEqual({ status: 'synced', pending: 0, lastError: null });
+    });
+
+    it('collapses repeated edits to the same day and replays the rest in queue order', async () => {
+        let online = false;
+        const { client, upserts } = createMockClient(() => ({ error: null }));
+        const queue = createSyncQueue({ client, isOnline: () => online });
+
+        vi.setSystemTime(new Date(2026, 1, 2, 9, 0));
+        await queue.enqueue(completion('2026-02-01', 1));
+        vi.setSystemTime(new Date(2026, 1, 2, 9, 1));
+        await queue.enqueue(completion('2026-02-02', 4));
+        vi.setSystemTime(new Date(2026, 1, 2, 9, 2));
+        await queue.enqueue(completion('2026-02-01', 3));
+        expect(await queue.getPending()).toHaveLength(2);
+
+        // The re-queued day moves behind the edit made before it
+        online = true;
+        await queue.flush();
+        expect(upserts.map(record => [record.completed_on, record.value])).toEqual([
+            ['2026-02-02', 4],
+            ['2026-02-01', 3],
+        ]);
+    });
+
+    it('keeps every change when the connection drops mid-replay', async () => {
+        const { client, upserts } = createMockClient(() => ({ error: NETWORK_ERROR }));
+        const storage = createMemoryStorage();
+        const queue = createSyncQueue({ client, storage });
+
+        await queue.enqueue(completion('2026-02-01', 1));
+        await queue.flush();
+        await queue.flush();
+
+        // Three tries, as many as MAX_ATTEMPTS, yet network failures never count so the change is kept
+        expect(upserts).toHaveLength(3);
+        expect(queue.getState()).toMatchObject({ status: 'offline', pending: 1 });
+        expect((await storage.getAll())[0]?.attempts).toBe(0);
+    });
+
+    it('does not drop a newer edit made while the older one was being replayed', async () => {
+        let newerEdit: Promise<void> | null = null;
+        const { client, upserts } = createMockClient(() => {
+            if (!newerEdit) {
+                newerEdit = queue.enqueue(completion('2026-02-01', 2));
+            }
+            return { error: null };
+        });
+        const queue = createSyncQueue({ client });
+
+        await queue.enqueue(completion('2026-02-01', 1));
+        await newerEdit;
+
+        expect(upserts.map(record => record.value)).toEqual([1, 2]);
+        expect(queue.getState()).toEqual({ status: 'synced', pending: 0, lastError: null });
+    });
+
+    it('retries a rejected change and keeps it queued until it runs out of attempts', async () => {
+        const { client } = createMockClient(() => ({ error: FOREIGN_KEY_ERROR }));
+        const storage = createMemoryStorage();
+        const queue = createSyncQueue({ client, storage });
+
+        await queue.enqueue(completion('2026-02-01', 1));
+
+        expect(queue.getState()).toMatchObject({ status: 'error', pending: 1, lastError: FOREIGN_KEY_ERROR.message });
+        expect((await storage.getAll())[0]?.attempts).toBe(1);
+    });
+
+    it('drops a change and tells listeners once it reaches the maximum attempts', async () => {
+        const { client, upserts } = createMockClient(() => ({ error: FOREIGN_KEY_ERROR }));
+        const queue = createSyncQueue({ client });
+        const rejected = vi.fn();
+        queue.onRejected(rejected);
+
+        const operation = completion('2026-02-01', 1);
+        await queue.enqueue(operation);
+        await queue.flush();
+        expect(rejected).not.toHaveBeenCalled();
+
+        await queue.flush();
+        expect(upserts).toHaveLength(3);
+        expect(rejected).toHaveBeenCalledWith(operation, FOREIGN_KEY_ERROR);
+        expect(await queue.getPending()).toHaveLength(0);
+        expect(queue.getState()).toMatchObject({ status: 'error', pending: 0 });
+    });
+
+    it('counts errors without a Postgres code towards the maximum attempts', async () => {
+        const { client } = createMockClient(() => ({ error: new Error('Unexpected response') }));
+        const queue = createSyncQueue({ client });
+        const rejected = vi.fn();
+        queue.onRejected(rejected);
+
+        await queue.enqueue(completion('2026-02-01', 1));
+        await queue.flush();
+        await queue.flush();
+
+        expect(rejected).toHaveBeenCalledTimes(1);
+        expect(await queue.getPending()).toHaveLength(0);
+    });
+});
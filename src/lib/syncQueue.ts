@@ -0,0 +1,332 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { saveCompletion, saveCompletionBatch, saveSkip, type CompletionChange } from '@/lib/completions';
+import { upsertMeal, type MealInput } from '@/lib/meals';
+
+/**
+ * Offline-first write queue for activity completions and meals.
+ *
+ * Conflict policy:
+ * - Changes are keyed by what they touch (one activity day, or one meal), so repeated edits to the same
+ *   cell or meal collapse into the latest one before they are sent. Bulk edits from the grid travel as one
+ *   batch with their own key, and replay in queue order with the single-day changes around them.
+ * - When a change is replayed it overwrites the server copy (last write wins). Completions are stored one
+ *   record per day, so edits made on other devices to other days are never touched.
+ * - If the server rejects a change, it is retried a few times and then dropped. Listeners are told about
+ *   the dropped change so the page can reload and show the server's copy instead.
+ */
+
+export type SyncOperation =
+    | ({ kind: 'completion'; userId: string } & CompletionChange)
+    | { kind: 'completions'; userId: string; batchId: string; changes: CompletionChange[] }
+    | { kind: 'meal'; userId: string; meal: MealInput & { id: string } };
+
+export interface QueuedOperation {
+    key: string;
+    // Changes every time the key is re-queued, so a replay never removes a newer edit made while it ran
+    revision: string;
+    queuedAt: string;
+    attempts: number;
+    operation: SyncOperation;
+}
+
+export type SyncStatus = 'synced' | 'syncing' | 'offline' | 'error';
+
+export interface SyncState {
+    status: SyncStatus;
+    pending: number;
+    lastError: string | null;
+}
+
+export interface SyncStorage {
+    getAll(): Promise<QueuedOperation[]>;
+    put(entry: QueuedOperation): Promise<void>;
+    // Only removes the entry when it still has the given revision
+    remove(key: string, revision: string): Promise<void>;
+}
+
+export interface SyncQueueOptions {
+    client?: SupabaseClient;
+    storage?: SyncStorage;
+    isOnline?: () => boolean;
+    retryDelayMs?: number;
+}
+
+export interface SyncQueue {
+    enqueue(operation: SyncOperation): Promise<void>;
+    flush(): Promise<void>;
+    getState(): SyncState;
+    getPending(): Promise<SyncOperation[]>;
+    subscribe(listener: (state: SyncState) => void): () => void;
+    onRejected(listener: (operation: SyncOperation, error: unknown) => void): () => void;
+}
+
+const MAX_ATTEMPTS = 3;
+const DB_NAME = 'activity-app-sync';
+const STORE_NAME = 'operations';
+
+export const getOperationKey = (operation: SyncOperation): string => {
+    if (operation.kind === 'completion') return `completion:${operation.activityId}:${operation.dateKey}`;
+    if (operation.kind === 'completions') return `completions:${operation.batchId}`;
+    return `meal:${operation.meal.id}`;
+};
+
+const getErrorMessage = (error: unknown): string => {
+    if (error instanceof Error) return error.message;
+    if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+    return String(error);
+};
+
+// Failed fetches reject with browser-specific messages, which supabase-js passes on as e.g. "TypeError: Failed to fetch".
+// Other errors, with or without a Postgres code, count towards MAX_ATTEMPTS
+const isNetworkError = (error: unknown): boolean =>
+    /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(getErrorMessage(error));
+
+export function createMemoryStorage(): SyncStorage {
+    const entries = new Map<string, QueuedOperation>();
+
+    return {
+        async getAll() {
+            return Array.from(entries.values());
+        },
+        async put(entry) {
+            entries.set(entry.key, entry);
+        },
+        async remove(key, revision) {
+            if (entries.get(key)?.revision === revision) {
+                entries.delete(key);
+            }
+        },
+    };
+}
+
+export function createIndexedDbStorage(): SyncStorage {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+
+    const openDb = (): Promise<IDBDatabase> => {
+        if (!dbPromise) {
+            dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return dbPromise;
+    };
+
+    const runTransaction = async <T>(
+        mode: IDBTransactionMode,
+        run: (store: IDBObjectStore, finish: (value: T) => void) => void
+    ): Promise<T> => {
+        const db = await openDb();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(STORE_NAME, mode);
+            let result: T;
+            run(transaction.objectStore(STORE_NAME), value => {
+                result = value;
+            });
+            transaction.oncomplete = () => resolve(result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    };
+
+    return {
+        getAll() {
+            return runTransaction<QueuedOperation[]>('readonly', (store, finish) => {
+                const request = store.getAll();
+                request.onsuccess = () => finish(request.result as QueuedOperation[]);
+            });
+        },
+        put(entry) {
+            return runTransaction<void>('readwrite', store => {
+                store.put(entry);
+            });
+        },
+        remove(key, revision) {
+            return runTransaction<void>('readwrite', store => {
+                const request = store.get(key);
+                request.onsuccess = () => {
+                    if ((request.result as QueuedOperation | undefined)?.revision === revision) {
+                        store.delete(key);
+                    }
+                };
+            });
+        },
+    };
+}
+
+export function createSyncQueue({
+    client = supabase,
+    storage = createMemoryStorage(),
+    isOnline = () => true,
+    retryDelayMs = 30000,
+}: SyncQueueOptions = {}): SyncQueue {
+    let state: SyncState = { status: 'synced', pending: 0, lastError: null };
+    let flushing: Promise<void> | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    const listeners = new Set<(state: SyncState) => void>();
+    const rejectedListeners = new Set<(operation: SyncOperation, error: unknown) => void>();
+
+    const setState = (next: Partial<SyncState>) => {
+        state = { ...state, ...next };
+        listeners.forEach(listener => listener(state));
+    };
+
+    const scheduleRetry = () => {
+        if (retryTimer) return;
+        retryTimer = setTimeout(() => {
+            retryTimer = null;
+            void flush();
+        }, retryDelayMs);
+    };
+
+    const execute = async (operation: SyncOperation) => {
+        if (operation.kind === 'completion' && operation.skipped) {
+            await saveSkip(operation.userId, operation.activityId, operation.dateKey, operation.skipped.reason, client);
+        } else if (operation.kind === 'completion') {
+            await saveCompletion(
+                operation.userId,
+                { id: operation.activityId, measurementType: operation.measurementType },
+                operation.dateKey,
+                operation.value,
+                operation.note ?? null,
+                client
+            );
+        } else if (operation.kind === 'completions') {
+            await saveCompletionBatch(operation.userId, operation.changes, client);
+        } else {
+            await upsertMeal(operation.userId, operation.meal, client);
+        }
+    };
+
+    const runFlush = async () => {
+        const entries = (await storage.getAll()).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+        if (entries.length === 0) {
+            setState({ status: 'synced', pending: 0, lastError: null });
+            return;
+        }
+        if (!isOnline()) {
+            setState({ status: 'offline', pending: entries.length });
+            return;
+        }
+
+        setState({ status: 'syncing', pending: entries.length });
+        let lastError: string | null = null;
+
+        for (const entry of entries) {
+            try {
+                await execute(entry.operation);
+                await storage.remove(entry.key, entry.revision);
+            } catch (error) {
+                lastError = getErrorMessage(error);
+                if (!isOnline() || isNetworkError(error)) {
+                    // Connection dropped mid-replay: keep everything and try again later
+                    setState({ status: 'offline', pending: (await storage.getAll()).length, lastError });
+                    scheduleRetry();
+                    return;
+                }
+
+                const attempts = entry.attempts + 1;
+                if (attempts >= MAX_ATTEMPTS) {
+                    await storage.remove(entry.key, entry.revision);
+                    rejectedListeners.forEach(listener => listener(entry.operation, error));
+                } else {
+                    await storage.put({ ...entry, attempts });
+                }
+            }
+        }
+
+        const remaining = (await storage.getAll()).length;
+        if (remaining > 0) scheduleRetry();
+        setState({
+            status: remaining > 0 || lastError ? 'error' : 'synced',
+            pending: remaining,
+            lastError,
+        });
+    };
+
+    const flush = (): Promise<void> => {
+        if (!flushing) {
+            flushing = runFlush()
+                .catch(error => {
+                    console.error('Error replaying sync queue:', error);
+                    setState({ status: 'error', lastError: getErrorMessage(error) });
+                })
+                .finally(() => {
+                    flushing = null;
+                });
+        }
+        return flushing;
+    };
+
+    const enqueue = async (operation: SyncOperation) => {
+        const key = getOperationKey(operation);
+        try {
+            await storage.put({
+                key,
+                revision: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+                queuedAt: new Date().toISOString(),
+                attempts: 0,
+                operation,
+            });
+        } catch (error) {
+            // Without local storage the change can still be sent directly
+            console.error('Error saving change locally:', error);
+            await execute(operation);
+            return;
+        }
+
+        // A flush that is already running picked up its entries before this one, so chain another
+        const running = flushing;
+        if (running) {
+            await running;
+        }
+        await flush();
+    };
+
+    return {
+        enqueue,
+        flush,
+        getState: () => state,
+        async getPending() {
+            return (await storage.getAll()).map(entry => entry.operation);
+        },
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        onRejected(listener) {
+            rejectedListeners.add(listener);
+            return () => {
+                rejectedListeners.delete(listener);
+            };
+        },
+    };
+}
+
+let browserQueue: SyncQueue | null = null;
+
+// Shared queue for the app, backed by IndexedDB and replayed whenever the browser comes back online
+export function getSyncQueue(): SyncQueue {
+    if (!browserQueue) {
+        const hasIndexedDb = typeof indexedDB !== 'undefined';
+        browserQueue = createSyncQueue({
+            storage: hasIndexedDb ? createIndexedDbStorage() : createMemoryStorage(),
+            isOnline: () => typeof navigator === 'undefined' || navigator.onLine,
+        });
+
+        if (typeof window !== 'undefined') {
+            const queue = browserQueue;
+            window.addEventListener('online', () => void queue.flush());
+            window.addEventListener('offline', () => void queue.flush());
+            void queue.flush();
+        }
+    }
+    return browserQueue;
+}
@@ -0,0 +1,144 @@
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PushSubscriptionRecord, ReminderNotification } from '@/lib/reminders';
+import { createWebPushDelivery, type VapidKeys } from '@/lib/webPush';
+
+// Delivery never touches the database, so the shared browser client is never created
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+// Host names are resolved before each send; the tests choose what they resolve to
+const lookup = vi.hoisted(() => vi.fn());
+vi.mock('node:dns/promises', () => ({ lookup }));
+
+const ENDPOINT = 'https://fcm.googleapis.com/fcm/send/abc:123';
+
+// The server's VAPID key pair
+const vapidKeyPair = createECDH('prime256v1');
+vapidKeyPair.generateKeys();
+const vapidKeys: VapidKeys = {
+    publicKey: vapidKeyPair.getPublicKey().toString('base64url'),
+    privateKey: vapidKeyPair.getPrivateKey().toString('base64url'),
+    subject: 'mailto:admin@example.com',
+};
+
+// The browser's subscription keys, which only it knows the private half of
+const browserKeyPair = createECDH('prime256v1');
+browserKeyPair.generateKeys();
+const authSecret = randomBytes(16);
+const subscription: PushSubscriptionRecord = {
+    user_id: 'user-1',
+    endpoint: ENDPOINT,
+    p256dh: browserKeyPair.getPublicKey().toString('base64url'),
+    auth: authSecret.toString('base64url'),
+};
+
+const notification: ReminderNotification = {
+    title: 'Lunch',
+    body: 'Log your lunch 🥗',
+    url: '/food-diary',
+    tag: 'reminder-lunch',
+};
+
+// Decrypts an aes128gcm body the way the browser does (RFC 8291), independently of the code under test
+const decryptPayload = (body: Buffer): string => {
+    const salt = body.subarray(0, 16);
+    const keyIdLength = body.readUInt8(20);
+    const serverPublicKey = body.subarray(21, 21 + keyIdLength);
+    const record = body.subarray(21 + keyIdLength);
+
+    const sharedSecret = browserKeyPair.computeSecret(serverPublicKey);
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), browserKeyPair.getPublicKey(), serverPublicKey]);
+    const inputKey = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+    const contentKey = Buffer.from(
+        hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)
+    );
+    const nonce = Buffer.from(hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+    const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce);
+    decipher.setAuthTag(record.subarray(record.length - 16));
+    const padded = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()]);
+    // The last record ends with the 0x02 delimiter, optionally followed by zero padding
+    return padded.subarray(0, padded.lastIndexOf(2)).toString();
+};
+
+const fetchMock = vi.fn();
+
+beforeEach(() => {
+    lookup.mockResolvedValue([{ address: '142.250.74.42', family: 4 }]);
+    fetchMock.mockResolvedValue(new Response(null, { status: 201 }));
+    vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+});
+
+describe('createWebPushDelivery', () => {
+    it('encrypts the notification so the subscribed browser can read it', async () => {
+        expect(await createWebPushDelivery(vapidKeys).send(subscription, notification)).toBe('sent');
+
+        const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+        expect(url).toBe(ENDPOINT);
+        expect(init.headers).toMatchObject({ 'Content-Encoding': 'aes128gcm' });
+
+        const body = Buffer.from(init.body as Uint8Array);
+        expect(body.readUInt32BE(16)).toBe(4096);
+        expect(JSON.parse(decryptPayload(body))).toEqual(notification);
+    });
+
+    it('signs a VAPID token for the push service with the server key', async () => {
+        await createWebPushDelivery(vapidKeys).send(subscription, notification);
+
+        const { Authorization } = (fetchMock.mock.calls[0] as [string, RequestInit])[1].headers as Record<
+            string,
+            string
+        >;
+        const [, token, publicKey] = Authorization.match(/^vapid t=([^,]+), k=(.+)$/) ?? [];
+        expect(publicKey).toBe(vapidKeys.publicKey);
+
+        const [header, claims, signature] = (token ?? '').split('.');
+        const decode = (part = '') => JSON.parse(Buffer.from(part, 'base64url').toString());
+        expect(decode(header)).toEqual({ typ: 'JWT', alg: 'ES256' });
+        const { aud, exp, sub } = decode(claims);
+        expect({ aud, sub }).toEqual({ aud: 'https://fcm.googleapis.com', sub: 'mailto:admin@example.com' });
+        // Push services refuse tokens valid for more than 24 hours
+        expect(exp - Date.now() / 1000).toBeGreaterThan(0);
+        expect(exp - Date.now() / 1000).toBeLessThanOrEqual(24 * 60 * 60);
+
+        // ES256 signatures are the raw 64-byte r || s pair, not DER
+        const signatureBytes = Buffer.from(signature ?? '', 'base64url');
+        expect(signatureBytes).toHaveLength(64);
+        const point = Buffer.from(vapidKeys.publicKey, 'base64url');
+        const key = createPublicKey({
+            key: {
+                kty: 'EC',
+                crv: 'P-256',
+                x: point.subarray(1, 33).toString('base64url'),
+                y: point.subarray(33, 65).toString('base64url'),
+            },
+            format: 'jwk',
+        });
+        expect(
+            verify('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' }, signatureBytes)
+        ).toBe(true);
+    });
+
+    it('reports subscriptions the push service no longer knows as expired', async () => {
+        fetchMock.mockResolvedValue(new Response(null, { status: 410 }));
+        expect(await createWebPushDelivery(vapidKeys).send(subscription, notification)).toBe('expired');
+    });
+
+    it('refuses endpoints whose host resolves to an internal address', async () => {
+        lookup.mockResolvedValue([{ address: '10.0.0.5', family: 4 }]);
+        await expect(createWebPushDelivery(vapidKeys).send(subscription, notification)).rejects.toThrow(
+            'not a public push service'
+        );
+
+        lookup.mockResolvedValue([{ address: '::ffff:127.0.0.1', family: 6 }]);
+        await expect(createWebPushDelivery(vapidKeys).send(subscription, notification)).rejects.toThrow(
+            'not a public push service'
+        );
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,135 @@
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign } from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { BlockList } from 'node:net';
+import { isAllowedPushEndpoint, type ReminderDelivery } from '@/lib/reminders';
+
+/*
+ * Web Push delivery for the server: VAPID authentication (RFC 8292) and aes128gcm payload
+ * encryption (RFC 8291), so push services accept the message and only the browser can read it.
+ */
+
+export interface VapidKeys {
+    // Base64url-encoded uncompressed P-256 public key, the same one the browser subscribes with
+    publicKey: string;
+    // Base64url-encoded P-256 private scalar
+    privateKey: string;
+    // Contact for the push service, e.g. mailto:admin@example.com
+    subject: string;
+}
+
+// Push services keep undelivered reminders this long; a reminder is stale after that anyway
+const TTL_SECONDS = 60 * 60;
+const RECORD_SIZE = 4096;
+
+// Loopback, private, link-local, multicast and reserved ranges; IPv4-mapped IPv6 addresses are matched as IPv4
+const NON_PUBLIC_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+    ['0.0.0.0', 8, 'ipv4'],
+    ['10.0.0.0', 8, 'ipv4'],
+    ['100.64.0.0', 10, 'ipv4'],
+    ['127.0.0.0', 8, 'ipv4'],
+    ['169.254.0.0', 16, 'ipv4'],
+    ['172.16.0.0', 12, 'ipv4'],
+    ['192.168.0.0', 16, 'ipv4'],
+    ['224.0.0.0', 3, 'ipv4'],
+    ['::', 127, 'ipv6'],
+    ['fc00::', 7, 'ipv6'],
+    ['fe80::', 10, 'ipv6'],
+    ['ff00::', 8, 'ipv6'],
+];
+const NON_PUBLIC_ADDRESSES = new BlockList();
+NON_PUBLIC_RANGES.forEach(([address, prefix, type]) => NON_PUBLIC_ADDRESSES.addSubnet(address, prefix, type));
+
+// The stored endpoint was checked when it was saved, but its host could resolve to an internal address since
+const isPublicEndpoint = async (endpoint: string): Promise<boolean> => {
+    if (!isAllowedPushEndpoint(endpoint)) return false;
+    const addresses = await lookup(new URL(endpoint).hostname, { all: true });
+    return (
+        addresses.length > 0 &&
+        addresses.every(({ address, family }) => !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'))
+    );
+};
+
+const createVapidAuthorization = (endpoint: string, { publicKey, privateKey, subject }: VapidKeys): string => {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const unsignedToken = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+        sub: subject,
+    })}`;
+
+    const point = Buffer.from(publicKey, 'base64url');
+    const key = createPrivateKey({
+        key: {
+            kty: 'EC',
+            crv: 'P-256',
+            d: privateKey,
+            x: point.subarray(1, 33).toString('base64url'),
+            y: point.subarray(33, 65).toString('base64url'),
+        },
+        format: 'jwk',
+    });
+    const signature = sign('sha256', Buffer.from(unsignedToken), { key, dsaEncoding: 'ieee-p1363' });
+
+    return `vapid t=${unsignedToken}.${signature.toString('base64url')}, k=${publicKey}`;
+};
+
+const encryptPayload = (payload: string, p256dh: string, auth: string): Buffer => {
+    const browserPublicKey = Buffer.from(p256dh, 'base64url');
+    const authSecret = Buffer.from(auth, 'base64url');
+
+    const ecdh = createECDH('prime256v1');
+    const serverPublicKey = ecdh.generateKeys();
+    const sharedSecret = ecdh.computeSecret(browserPublicKey);
+    const salt = randomBytes(16);
+
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), browserPublicKey, serverPublicKey]);
+    const inputKey = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+    const contentKey = Buffer.from(
+        hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)
+    );
+    const nonce = Buffer.from(hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+    // A single record, ended by the 0x02 padding delimiter
+    const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+    const encrypted = Buffer.concat([
+        cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])),
+        cipher.final(),
+        cipher.getAuthTag(),
+    ]);
+
+    // Header: salt, record size, key id length and the server's public key as key id
+    const header = Buffer.alloc(21);
+    salt.copy(header, 0);
+    header.writeUInt32BE(RECORD_SIZE, 16);
+    header.writeUInt8(serverPublicKey.length, 20);
+
+    return Buffer.concat([header, serverPublicKey, encrypted]);
+};
+
+export const createWebPushDelivery = (keys: VapidKeys): ReminderDelivery => ({
+    send: async (subscription, notification) => {
+        if (!(await isPublicEndpoint(subscription.endpoint))) {
+            throw new Error(`Refusing to send to ${subscription.endpoint}, which is not a public push service`);
+        }
+        const response = await fetch(subscription.endpoint, {
+            // A redirect could lead to an internal address after all
+            redirect: 'error',
+            method: 'POST',
+            headers: {
+                Authorization: createVapidAuthorization(subscription.endpoint, keys),
+                'Content-Encoding': 'aes128gcm',
+                'Content-Type': 'application/octet-stream',
+                TTL: String(TTL_SECONDS),
+                Urgency: 'normal',
+            },
+            body: new Uint8Array(encryptPayload(JSON.stringify(notification), subscription.p256dh, subscription.auth)),
+        });
+
+        // The browser unsubscribed or the subscription ran out
+        if (response.status === 404 || response.status === 410) return 'expired';
+        if (!response.ok) {
+            throw new Error(`Push service responded with ${response.status}: ${await response.text()}`);
+        }
+        return 'sent';
+    },
+});
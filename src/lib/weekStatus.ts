@@ -0,0 +1,104 @@
+import { supabase } from '@/lib/supabase';
+import { normalizeDateKey } from '@/lib/dates';
+
+export interface WeekStatus {
+    // Monday of the ISO week (see getISOWeekKey), whichever day the user's weeks start on
+    weekStart: string;
+    // null while the week is open, including after it has been reopened
+    completedAt: string | null;
+    reopenedAt: string | null;
+    reopenCount: number;
+}
+
+export interface WeekStatusRecord {
+    user_id: string;
+    week_start: string;
+    completed_at: string | null;
+    reopened_at: string | null;
+    reopen_count: number;
+}
+
+const statusFromRecord = (record: WeekStatusRecord): WeekStatus => ({
+    weekStart: normalizeDateKey(record.week_start),
+    completedAt: record.completed_at,
+    reopenedAt: record.reopened_at,
+    reopenCount: record.reopen_count ?? 0,
+});
+
+// Completed weeks are read-only in the grid until they're reopened
+export const isWeekLocked = (status: WeekStatus | null): boolean => Boolean(status?.completedAt);
+
+export async function getWeekStatus(userId: string, weekStart: string): Promise<WeekStatus | null> {
+    const { data, error } = await supabase
+        .from('week_statuses')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('week_start', weekStart)
+        .maybeSingle();
+
+    if (error) {
+        if (error.code === '42P01' || error.code === 'PGRST205' || error.message?.includes('does not exist')) {
+            console.warn('week_statuses table does not exist yet. Please run the migration.');
+            return null;
+        }
+        console.error('Error fetching week status:', error);
+        throw error;
+    }
+
+    return data ? statusFromRecord(data as WeekStatusRecord) : null;
+}
+
+// Only the completion time is written, so an earlier reopen stays on record
+export async function markWeekCompleted(userId: string, weekStart: string): Promise<WeekStatus> {
+    const { data, error } = await supabase
+        .from('week_statuses')
+        .upsert(
+            { user_id: userId, week_start: weekStart, completed_at: new Date().toISOString() },
+            { onConflict: 'user_id,week_start' }
+        )
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Error completing week:', error);
+        throw error;
+    }
+
+    return statusFromRecord(data as WeekStatusRecord);
+}
+
+/**
+ * Unlocks a completed week for editing. The reopen is counted and the week's analysis is marked as stale,
+ * since it describes data that may now change.
+ */
+export async function reopenWeek(userId: string, status: WeekStatus): Promise<WeekStatus> {
+    const { data, error } = await supabase
+        .from('week_statuses')
+        .update({
+            completed_at: null,
+            reopened_at: new Date().toISOString(),
+            reopen_count: status.reopenCount + 1,
+        })
+        .eq('user_id', userId)
+        .eq('week_start', status.weekStart)
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Error reopening week:', error);
+        throw error;
+    }
+
+    const { error: analysisError } = await supabase
+        .from('weekly_analyses')
+        .update({ is_stale: true })
+        .eq('user_id', userId)
+        .eq('week_start', status.weekStart);
+
+    if (analysisError) {
+        console.error('Error marking analysis as stale:', analysisError);
+        throw analysisError;
+    }
+
+    return statusFromRecord(data as WeekStatusRecord);
+}
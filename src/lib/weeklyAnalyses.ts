@@ -0,0 +1,508 @@
+import { requestAi } from '@/lib/ai';
+import { supabase } from '@/lib/supabase';
+import {
+    formatActivityValue,
+    formatTarget,
+    getTargetProgress,
+    getUnitLabel,
+    isArchived,
+    isAvoidHabit,
+    isQuantitative,
+    isRowScheduledOn,
+    isSkippedOn,
+    sumDayValues,
+    type ActivityRow,
+    type HabitType,
+} from '@/lib/activities';
+import { getRowCompletionRate } from '@/lib/activityStats';
+import { formatDateKey, normalizeDateKey } from '@/lib/dates';
+import { isRestDay, type RestPeriod } from '@/lib/restDays';
+import { formatSchedule } from '@/lib/schedules';
+import { getActivityStreakStats } from '@/lib/streaks';
+import {
+    getRatingOption,
+    MAX_REVIEW_ANSWER_LENGTH,
+    reviewFromRecord,
+    type WeeklyReview,
+    type WeeklyReviewRecord,
+} from '@/lib/weeklyReviews';
+
+export interface WeeklyAnalysis {
+    // Monday of the ISO week (see getISOWeekKey), whichever day the user's weeks start on
+    weekStart: string;
+    // null while only the week's review has been saved
+    analysisText: string | null;
+    // The week was reopened after the analysis was written
+    isStale: boolean;
+    generatedAt: string | null;
+    review: WeeklyReview | null;
+}
+
+export interface WeeklyAnalysisRecord extends Partial<WeeklyReviewRecord> {
+    user_id: string;
+    week_start: string;
+    analysis_text: string | null;
+    is_stale?: boolean;
+    generated_at?: string | null;
+}
+
+// An analysis that was replaced when its week was regenerated
+export interface WeeklyAnalysisVersion {
+    id: string;
+    weekStart: string;
+    analysisText: string;
+    generatedAt: string | null;
+    replacedAt: string;
+}
+
+export interface WeeklyAnalysisVersionRecord {
+    id: string;
+    user_id: string;
+    week_start: string;
+    analysis_text: string;
+    generated_at: string | null;
+    replaced_at: string;
+}
+
+export interface WeekStats {
+    totalActivities: number;
+    activeDays: number;
+    targetsMet: string[];
+    targetsMissed: string[];
+}
+
+// One activity's week as the model sees it; avoid rows list slips instead of completed days
+export interface WeekActivitySummary {
+    name: string;
+    emoji: string;
+    habitType: HabitType;
+    completedDays?: string[];
+    totalThisWeek?: number;
+    slipDays?: string[];
+    slipsThisWeek?: number;
+    amountThisWeek?: string;
+    plannedDays: string;
+    completionRate: number | null;
+    restDaysThisWeek: number;
+    skippedDaysThisWeek: { date: string; reason: string | null }[];
+    notesThisWeek: { date: string; note: string }[];
+    currentStreak: number;
+    longestStreak: number;
+    weeklyTarget?: string;
+    targetMet?: boolean;
+}
+
+export interface WeekAnalysisData {
+    activities: WeekActivitySummary[];
+    weekStats: WeekStats & { currentStreak?: number; averagePerWeek?: number };
+    weekRange: string;
+    userReview?: { rating: string; wentWell: string | null; wouldChange: string | null; nextWeekFocus: string[] };
+}
+
+// What the browser sends to /api/ai/weekly-analysis: the week's data, already summarised from the user's rows
+export interface WeekAnalysisRequest {
+    data: WeekAnalysisData;
+}
+
+// Caps for what parseWeekAnalysisRequest lets through to the prompt
+const MAX_ANALYSIS_ACTIVITIES = 100;
+const MAX_SUMMARY_TEXT_LENGTH = 100;
+const MAX_NOTE_LENGTH = 500;
+
+export interface WeekAnalysisInput {
+    rows: ActivityRow[];
+    weekDates: Date[];
+    today: Date;
+    restPeriods: RestPeriod[];
+    freezesPerMonth: number;
+    review: WeeklyReview | null;
+    // The overall streak and weekly average as of today, so only given when analysing the current week
+    overall?: { currentStreak: number; averagePerWeek: number };
+}
+
+const analysisFromRecord = (record: WeeklyAnalysisRecord): WeeklyAnalysis => ({
+    weekStart: normalizeDateKey(record.week_start),
+    analysisText: record.analysis_text ?? null,
+    isStale: record.is_stale === true,
+    generatedAt: record.generated_at ?? null,
+    review: reviewFromRecord(record),
+});
+
+const versionFromRecord = (record: WeeklyAnalysisVersionRecord): WeeklyAnalysisVersion => ({
+    id: record.id,
+    weekStart: normalizeDateKey(record.week_start),
+    analysisText: record.analysis_text,
+    generatedAt: record.generated_at,
+    replacedAt: record.replaced_at,
+});
+
+const getDaysInWeek = (row: ActivityRow, weekDates: Date[]): string[] => {
+    const weekKeys = new Set(weekDates.map(date => formatDateKey(date)));
+    return row.completedDays.filter(day => weekKeys.has(day));
+};
+
+// Completions and active days count every build row, archived ones included; targets only count active rows
+export function getWeekStats(rows: ActivityRow[], weekDates: Date[], today: Date): WeekStats {
+    const buildRows = rows.filter(row => !isAvoidHabit(row));
+    const activeDays = new Set(buildRows.flatMap(row => getDaysInWeek(row, weekDates).map(normalizeDateKey)));
+    const stats: WeekStats = {
+        totalActivities: buildRows.reduce((total, row) => total + getDaysInWeek(row, weekDates).length, 0),
+        activeDays: activeDays.size,
+        targetsMet: [],
+        targetsMissed: [],
+    };
+
+    rows.filter(row => !isArchived(row)).forEach(row => {
+        const progress = getTargetProgress(row, weekDates, today);
+        if (!progress) return;
+        (progress.status === 'met' ? stats.targetsMet : stats.targetsMissed).push(row.name);
+    });
+    return stats;
+}
+
+const formatTargetSummary = ({ targetsMet, targetsMissed }: WeekStats): string => {
+    const total = targetsMet.length + targetsMissed.length;
+    if (total === 0) return '';
+    return `You hit ${targetsMet.length} of ${total} weekly targets${targetsMet.length > 0 ? ` (${targetsMet.join(', ')})` : ''}.`;
+};
+
+const getFocusNames = (rows: ActivityRow[], review: WeeklyReview | null): string[] =>
+    (review?.focusActivityIds ?? []).flatMap(rowId => {
+        const row = rows.find(candidate => candidate.id === rowId);
+        return row ? [`${row.emoji} ${row.name}`] : [];
+    });
+
+// A row is planned on a day when its schedule includes it, no rest day covers it and it wasn't skipped
+const isRowPlannedOn = (row: ActivityRow, date: Date, restPeriods: RestPeriod[]): boolean =>
+    isRowScheduledOn(row, date) &&
+    !isRestDay(restPeriods, row.id, formatDateKey(date)) &&
+    !isSkippedOn(row, formatDateKey(date));
+
+const buildWeekData = ({
+    rows,
+    weekDates,
+    today,
+    restPeriods,
+    freezesPerMonth,
+    review,
+    overall,
+}: WeekAnalysisInput): WeekAnalysisData => {
+    const stats = getWeekStats(rows, weekDates, today);
+    return {
+        activities: rows
+            .filter(row => !isArchived(row) || getDaysInWeek(row, weekDates).length > 0)
+            .map(row => {
+                const days = getDaysInWeek(row, weekDates);
+                const streaks = getActivityStreakStats(row, today, {
+                    isScheduled: date => isRowPlannedOn(row, date, restPeriods),
+                    freezesPerMonth,
+                });
+                return {
+                    name: row.name,
+                    emoji: row.emoji,
+                    habitType: row.habitType,
+                    ...(isAvoidHabit(row)
+                        ? { slipDays: days, slipsThisWeek: days.length }
+                        : { completedDays: days, totalThisWeek: days.length }),
+                    ...(isQuantitative(row) && {
+                        amountThisWeek: `${formatActivityValue(sumDayValues(row, days))} ${getUnitLabel(row)}`,
+                    }),
+                    plannedDays: formatSchedule(row.schedule),
+                    completionRate: getRowCompletionRate(row, weekDates, today, restPeriods),
+                    restDaysThisWeek: weekDates.filter(date => isRestDay(restPeriods, row.id, formatDateKey(date)))
+                        .length,
+                    skippedDaysThisWeek: weekDates
+                        .map(date => formatDateKey(date))
+                        .filter(dateKey => isSkippedOn(row, dateKey))
+                        .map(dateKey => ({ date: dateKey, reason: row.skippedDays[dateKey] })),
+                    notesThisWeek: days
+                        .filter(dateKey => row.dayNotes[dateKey])
+                        .map(dateKey => ({ date: dateKey, note: row.dayNotes[dateKey] })),
+                    currentStreak: streaks.current?.length ?? 0,
+                    longestStreak: streaks.longest?.length ?? 0,
+                    ...(row.weeklyTarget !== null && {
+                        weeklyTarget: formatTarget(row),
+                        targetMet: getTargetProgress(row, weekDates, today)?.status === 'met',
+                    }),
+                };
+            }),
+        weekStats: { ...stats, ...overall },
+        weekRange: `${weekDates[0]?.toLocaleDateString()} to ${weekDates[6]?.toLocaleDateString()}`,
+        ...(review && {
+            userReview: {
+                rating: `${review.rating}/5 (${getRatingOption(review.rating)?.label})`,
+                wentWell: review.wentWell,
+                wouldChange: review.toChange,
+                nextWeekFocus: getFocusNames(rows, review),
+            },
+        }),
+    };
+};
+
+export const buildWeekAnalysisRequest = (input: WeekAnalysisInput): WeekAnalysisRequest => ({
+    data: buildWeekData(input),
+});
+
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseText = (value: unknown, maxLength: number): string | null =>
+    typeof value === 'string' ? value.slice(0, maxLength) : null;
+
+// For text the user may leave out: null stays null, and undefined means the value is invalid
+const parseOptionalText = (value: unknown, maxLength: number): string | null | undefined =>
+    value === null ? null : (parseText(value, maxLength) ?? undefined);
+
+const parseCount = (value: unknown): number | null =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+
+const parseList = <T>(value: unknown, maxItems: number, parseItem: (item: unknown) => T | null): T[] | null => {
+    if (!Array.isArray(value) || value.length > maxItems) return null;
+    const items = value.map(parseItem);
+    return items.every(item => item !== null) ? (items as T[]) : null;
+};
+
+const parseDateKey = (value: unknown): string | null =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+
+const parseNote = (value: unknown) => {
+    if (!isFields(value)) return null;
+    const date = parseDateKey(value.date);
+    const note = parseText(value.note, MAX_NOTE_LENGTH);
+    return date !== null && note !== null ? { date, note } : null;
+};
+
+const parseSkip = (value: unknown) => {
+    if (!isFields(value)) return null;
+    const date = parseDateKey(value.date);
+    const reason = parseOptionalText(value.reason, MAX_NOTE_LENGTH);
+    return date !== null && reason !== undefined ? { date, reason } : null;
+};
+
+const parseActivitySummary = (value: unknown): WeekActivitySummary | null => {
+    if (!isFields(value)) return null;
+    const name = parseText(value.name, MAX_SUMMARY_TEXT_LENGTH);
+    const emoji = parseText(value.emoji, MAX_SUMMARY_TEXT_LENGTH);
+    const plannedDays = parseText(value.plannedDays, MAX_SUMMARY_TEXT_LENGTH);
+    const completionRate = value.completionRate === null ? null : parseCount(value.completionRate);
+    const restDaysThisWeek = parseCount(value.restDaysThisWeek);
+    const skippedDaysThisWeek = parseList(value.skippedDaysThisWeek, 7, parseSkip);
+    const notesThisWeek = parseList(value.notesThisWeek, 7, parseNote);
+    const currentStreak = parseCount(value.currentStreak);
+    const longestStreak = parseCount(value.longestStreak);
+    if (
+        name === null ||
+        emoji === null ||
+        (value.habitType !== 'build' && value.habitType !== 'avoid') ||
+        plannedDays === null ||
+        (completionRate === null && value.completionRate !== null) ||
+        restDaysThisWeek === null ||
+        skippedDaysThisWeek === null ||
+        notesThisWeek === null ||
+        currentStreak === null ||
+        longestStreak === null
+    ) {
+        return null;
+    }
+
+    const isAvoid = value.habitType === 'avoid';
+    const days = parseList(isAvoid ? value.slipDays : value.completedDays, 7, parseDateKey);
+    if (days === null) return null;
+    const amountThisWeek = parseText(value.amountThisWeek, MAX_SUMMARY_TEXT_LENGTH);
+    const weeklyTarget = parseText(value.weeklyTarget, MAX_SUMMARY_TEXT_LENGTH);
+
+    return {
+        name,
+        emoji,
+        habitType: value.habitType,
+        ...(isAvoid
+            ? { slipDays: days, slipsThisWeek: days.length }
+            : { completedDays: days, totalThisWeek: days.length }),
+        ...(amountThisWeek !== null && { amountThisWeek }),
+        plannedDays,
+        completionRate,
+        restDaysThisWeek,
+        skippedDaysThisWeek,
+        notesThisWeek,
+        currentStreak,
+        longestStreak,
+        ...(weeklyTarget !== null && { weeklyTarget, targetMet: value.targetMet === true }),
+    };
+};
+
+const parseWeekStats = (value: unknown): WeekAnalysisData['weekStats'] | null => {
+    if (!isFields(value)) return null;
+    const totalActivities = parseCount(value.totalActivities);
+    const activeDays = parseCount(value.activeDays);
+    const parseName = (item: unknown) => parseText(item, MAX_SUMMARY_TEXT_LENGTH);
+    const targetsMet = parseList(value.targetsMet, MAX_ANALYSIS_ACTIVITIES, parseName);
+    const targetsMissed = parseList(value.targetsMissed, MAX_ANALYSIS_ACTIVITIES, parseName);
+    if (totalActivities === null || activeDays === null || targetsMet === null || targetsMissed === null) return null;
+
+    const currentStreak = parseCount(value.currentStreak);
+    const averagePerWeek = parseCount(value.averagePerWeek);
+    return {
+        totalActivities,
+        activeDays,
+        targetsMet,
+        targetsMissed,
+        ...(currentStreak !== null && averagePerWeek !== null && { currentStreak, averagePerWeek }),
+    };
+};
+
+const parseUserReview = (value: unknown): WeekAnalysisData['userReview'] | null => {
+    if (!isFields(value)) return null;
+    const rating = parseText(value.rating, MAX_SUMMARY_TEXT_LENGTH);
+    const wentWell = parseOptionalText(value.wentWell, MAX_REVIEW_ANSWER_LENGTH);
+    const wouldChange = parseOptionalText(value.wouldChange, MAX_REVIEW_ANSWER_LENGTH);
+    const nextWeekFocus = parseList(value.nextWeekFocus, MAX_ANALYSIS_ACTIVITIES, item =>
+        parseText(item, MAX_SUMMARY_TEXT_LENGTH)
+    );
+    if (rating === null || wentWell === undefined || wouldChange === undefined || nextWeekFocus === null) return null;
+    return { rating, wentWell, wouldChange, nextWeekFocus };
+};
+
+/**
+ * Checks a request body against the shape buildWeekAnalysisRequest sends and rebuilds it from the known fields
+ * only, with text cut to the lengths the app allows. Returns null for anything else, so the route can't be used
+ * to send arbitrary text to the model.
+ */
+export const parseWeekAnalysisRequest = (body: unknown): WeekAnalysisRequest | null => {
+    const data = isFields(body) ? body.data : null;
+    if (!isFields(data)) return null;
+
+    const activities = parseList(data.activities, MAX_ANALYSIS_ACTIVITIES, parseActivitySummary);
+    const weekStats = parseWeekStats(data.weekStats);
+    const weekRange = parseText(data.weekRange, MAX_SUMMARY_TEXT_LENGTH);
+    const userReview = data.userReview === undefined ? undefined : parseUserReview(data.userReview);
+    if (activities === null || weekStats === null || weekRange === null || userReview === null) return null;
+
+    return { data: { activities, weekStats, weekRange, ...(userReview && { userReview }) } };
+};
+
+// Built on the server, so the instructions can't be changed from the browser
+export const buildWeekAnalysisPrompt = ({ data }: WeekAnalysisRequest): string => {
+    const hasReview = data.userReview !== undefined;
+    const reviewInstructions = hasReview
+        ? " The user reviewed the week themselves in userReview: acknowledge their rating, build on what they said went well, respond to what they want to change, and give one concrete tip for next week's focus activities if they picked any. Don't contradict their own account of the week."
+        : '';
+    return `Analyze this week's activity data and provide a brief, motivational summary (2-3 sentences${hasReview ? ', or up to 4 when responding to their review' : ''}). Focus on patterns, achievements, and encouragement. Be positive and specific about what they accomplished.${reviewInstructions} Data: ${JSON.stringify(data)}`;
+};
+
+// A plain summary for when no AI model is configured or the request fails
+export const buildFallbackAnalysis = ({ rows, weekDates, today, review, overall }: WeekAnalysisInput): string => {
+    const stats = getWeekStats(rows, weekDates, today);
+    const focusNames = getFocusNames(rows, review);
+    return [
+        `This week you completed ${stats.totalActivities} activities across ${stats.activeDays} days.`,
+        overall ? `Your average is ${overall.averagePerWeek} activities per week.` : '',
+        formatTargetSummary(stats),
+        overall && overall.currentStreak > 0 ? `You're on a ${overall.currentStreak}-day streak! 🔥` : '',
+        stats.activeDays >= 5 ? 'Great consistency!' : 'Keep building those healthy habits!',
+        focusNames.length > 0 ? `Next week's focus: ${focusNames.join(', ')}.` : '',
+    ]
+        .filter(Boolean)
+        .join(' ');
+};
+
+// Asks the server for the week's summary. Throws when the request fails, so callers can fall back
+export async function requestWeekAnalysis(input: WeekAnalysisInput): Promise<string> {
+    const { analysis } = await requestAi<{ analysis: string }>('weekly-analysis', buildWeekAnalysisRequest(input));
+    return analysis;
+}
+
+export async function getWeeklyAnalysis(userId: string, weekStart: string): Promise<WeeklyAnalysis | null> {
+    const { data, error } = await supabase
+        .from('weekly_analyses')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('week_start', weekStart)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching weekly analysis:', error);
+        throw error;
+    }
+
+    return data ? analysisFromRecord(data as WeeklyAnalysisRecord) : null;
+}
+
+// Every week with an analysis, newest first
+export async function getWeeklyAnalyses(userId: string): Promise<WeeklyAnalysis[]> {
+    const { data, error } = await supabase
+        .from('weekly_analyses')
+        .select('*')
+        .eq('user_id', userId)
+        .not('analysis_text', 'is', null)
+        .order('week_start', { ascending: false });
+
+    if (error) {
+        console.error('Error fetching weekly analyses:', error);
+        throw error;
+    }
+
+    return ((data || []) as WeeklyAnalysisRecord[]).map(analysisFromRecord);
+}
+
+/**
+ * Saves a freshly generated analysis, which is up to date again. The analysis it replaces is moved to
+ * weekly_analysis_versions by a database trigger.
+ */
+export async function saveWeeklyAnalysis(
+    userId: string,
+    weekStart: string,
+    analysisText: string
+): Promise<WeeklyAnalysis> {
+    const { data, error } = await supabase
+        .from('weekly_analyses')
+        .upsert(
+            { user_id: userId, week_start: weekStart, analysis_text: analysisText, is_stale: false },
+            { onConflict: 'user_id,week_start' }
+        )
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Error saving weekly analysis:', error);
+        throw error;
+    }
+
+    return analysisFromRecord(data as WeeklyAnalysisRecord);
+}
+
+// Earlier analyses of a week, most recently replaced first
+export async function getWeeklyAnalysisVersions(userId: string, weekStart: string): Promise<WeeklyAnalysisVersion[]> {
+    const { data, error } = await supabase
+        .from('weekly_analysis_versions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('week_start', weekStart)
+        .order('replaced_at', { ascending: false });
+
+    if (error) {
+        if (error.code === '42P01' || error.code === 'PGRST205' || error.message?.includes('does not exist')) {
+            console.warn('weekly_analysis_versions table does not exist yet. Please run the migration.');
+            return [];
+        }
+        console.error('Error fetching analysis versions:', error);
+        throw error;
+    }
+
+    return ((data || []) as WeeklyAnalysisVersionRecord[]).map(versionFromRecord);
+}
+
+// Matches every search word against the analysis and the user's review answers, e.g. "sleep" or "gym tired"
+export const searchWeeklyAnalyses = (analyses: WeeklyAnalysis[], query: string): WeeklyAnalysis[] => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return analyses;
+
+    return analyses.filter(analysis => {
+        const text = [analysis.analysisText, analysis.review?.wentWell, analysis.review?.toChange]
+            .filter(Boolean)
+            .join(' ')
+            .toLowerCase();
+        return words.every(word => text.includes(word));
+    });
+};
@@ -0,0 +1,82 @@
+import { supabase } from '@/lib/supabase';
+
+// What the user said about a week when completing it
+export interface WeeklyReview {
+    // 1 (rough) to 5 (great)
+    rating: number;
+    wentWell: string | null;
+    toChange: string | null;
+    // Activities to focus on in the following week
+    focusActivityIds: string[];
+}
+
+// The review columns of a weekly_analyses record
+export interface WeeklyReviewRecord {
+    rating: number | null;
+    went_well: string | null;
+    to_change: string | null;
+    focus_activity_ids: string[] | null;
+}
+
+export const MAX_REVIEW_ANSWER_LENGTH = 1000;
+
+export const RATING_OPTIONS = [
+    { value: 1, emoji: '😞', label: 'Rough' },
+    { value: 2, emoji: '😕', label: 'Meh' },
+    { value: 3, emoji: '😐', label: 'Okay' },
+    { value: 4, emoji: '🙂', label: 'Good' },
+    { value: 5, emoji: '😄', label: 'Great' },
+];
+
+export const getRatingOption = (rating: number) => RATING_OPTIONS.find(option => option.value === rating);
+
+// Weeks completed before reviews existed, or whose review was never finished, have no rating
+export const reviewFromRecord = (record: Partial<WeeklyReviewRecord>): WeeklyReview | null => {
+    if (typeof record.rating !== 'number') return null;
+    return {
+        rating: record.rating,
+        wentWell: record.went_well ?? null,
+        toChange: record.to_change ?? null,
+        focusActivityIds: record.focus_activity_ids ?? [],
+    };
+};
+
+export async function getWeeklyReview(userId: string, weekStart: string): Promise<WeeklyReview | null> {
+    const { data, error } = await supabase
+        .from('weekly_analyses')
+        .select('rating, went_well, to_change, focus_activity_ids')
+        .eq('user_id', userId)
+        .eq('week_start', weekStart)
+        .maybeSingle();
+
+    if (error) {
+        if (error.code === '42P01' || error.code === 'PGRST205' || error.message?.includes('does not exist')) {
+            console.warn('weekly review columns do not exist yet. Please run the migration.');
+            return null;
+        }
+        console.error('Error fetching weekly review:', error);
+        throw error;
+    }
+
+    return data ? reviewFromRecord(data as WeeklyReviewRecord) : null;
+}
+
+// Only the review columns are written, so a saved analysis is kept until it's regenerated
+export async function saveWeeklyReview(userId: string, weekStart: string, review: WeeklyReview): Promise<void> {
+    const { error } = await supabase.from('weekly_analyses').upsert(
+        {
+            user_id: userId,
+            week_start: weekStart,
+            rating: review.rating,
+            went_well: review.wentWell,
+            to_change: review.toChange,
+            focus_activity_ids: review.focusActivityIds,
+        },
+        { onConflict: 'user_id,week_start' }
+    );
+
+    if (error) {
+        console.error('Error saving weekly review:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,6 @@
+-- Quantitative activity logging: each row has a measurement type and stores a value per day
+alter table public.activity_rows
+    add column if not exists measurement_type text not null default 'boolean'
+        check (measurement_type in ('boolean', 'count', 'minutes', 'distance', 'custom')),
+    add column if not exists unit text,
+    add column if not exists day_values jsonb not null default '{}'::jsonb;
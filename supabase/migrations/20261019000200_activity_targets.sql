@@ -0,0 +1,4 @@
+-- Optional weekly target per activity row, counted either in days or in the row's logged amount
+alter table public.activity_rows
+    add column if not exists weekly_target numeric check (weekly_target is null or weekly_target > 0),
+    add column if not exists target_type text not null default 'days' check (target_type in ('days', 'amount'));
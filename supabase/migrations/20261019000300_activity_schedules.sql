@@ -0,0 +1,3 @@
+-- Recurrence rule per activity row, e.g. {"type":"weekly","days":[1,3,5]} or {"type":"interval","every":2,"startDate":"2026-10-19"}
+alter table public.activity_rows
+    add column if not exists schedule jsonb not null default '{"type":"daily"}'::jsonb;
@@ -0,0 +1,3 @@
+-- Archived rows are hidden from the weekly grid but keep their completion history
+alter table public.activity_rows
+    add column if not exists archived_at timestamptz;
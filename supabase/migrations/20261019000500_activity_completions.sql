@@ -0,0 +1,54 @@
+-- One record per activity per day, so a toggle is a single insert or delete instead of rewriting the whole row
+create table if not exists public.activity_completions (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    activity_id text not null references public.activity_rows (id) on delete cascade,
+    completed_on date not null,
+    -- Logged amount for quantitative rows; null for done / not done rows
+    value numeric,
+    created_at timestamptz not null default now(),
+    unique (activity_id, completed_on)
+);
+
+create index if not exists activity_completions_user_day_idx
+    on public.activity_completions (user_id, completed_on);
+
+alter table public.activity_completions enable row level security;
+
+create policy "Users can view their own completions"
+    on public.activity_completions for select
+    using (auth.uid() = user_id);
+
+create policy "Users can insert their own completions"
+    on public.activity_completions for insert
+    with check (auth.uid() = user_id);
+
+create policy "Users can update their own completions"
+    on public.activity_completions for update
+    using (auth.uid() = user_id);
+
+create policy "Users can delete their own completions"
+    on public.activity_completions for delete
+    using (auth.uid() = user_id);
+
+-- Backfill from the array columns. Only plain YYYY-MM-DD entries are copied here. Older clients also stored full
+-- timestamps such as '2026-02-03T00:30:00+03:00' and read them back in the browser's time zone, which may not be
+-- the date in the string or in UTC, so the app moves those itself on first load (backfillLegacyCompletions)
+insert into public.activity_completions (user_id, activity_id, completed_on, value)
+select
+    rows.user_id,
+    rows.id,
+    day::date,
+    case
+        when rows.measurement_type <> 'boolean' then (rows.day_values ->> day)::numeric
+    end
+from public.activity_rows rows
+cross join lateral unnest(rows.completed_days) as day
+where day ~ '^\d{4}-\d{2}-\d{2}$'
+on conflict (activity_id, completed_on) do nothing;
+
+-- completed_days and day_values are no longer written by the app, apart from dropping timestamp entries once
+-- they're moved. They are kept as a fallback until every client reads from activity_completions, and can be
+-- dropped in a later migration.
+alter table public.activity_rows
+    alter column completed_days set default '{}';
@@ -0,0 +1,16 @@
+-- Publish the tables the app subscribes to, so changes made on one device show up live on the others
+do $$
+declare
+    table_name text;
+begin
+    foreach table_name in array array['activity_rows', 'activity_completions', 'meals', 'saved_meals', 'user_preferences']
+    loop
+        if not exists (
+            select 1
+            from pg_publication_tables
+            where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = table_name
+        ) then
+            execute format('alter publication supabase_realtime add table public.%I', table_name);
+        end if;
+    end loop;
+end $$;
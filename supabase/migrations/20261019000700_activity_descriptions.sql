@@ -0,0 +1,3 @@
+-- Free-text description shown and edited on the activity detail page
+alter table public.activity_rows
+    add column if not exists description text;
@@ -0,0 +1,34 @@
+-- Rest days and vacations: days that neither extend nor break streaks and are left out of completion rates
+create table if not exists public.rest_periods (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    start_date date not null,
+    end_date date not null,
+    -- null covers every activity
+    activity_ids text[],
+    reason text,
+    created_at timestamptz not null default now(),
+    check (end_date >= start_date)
+);
+
+create index if not exists rest_periods_user_dates_idx
+    on public.rest_periods (user_id, start_date, end_date);
+
+alter table public.rest_periods enable row level security;
+
+create policy "Users can view their own rest periods"
+    on public.rest_periods for select
+    using (auth.uid() = user_id);
+
+create policy "Users can insert their own rest periods"
+    on public.rest_periods for insert
+    with check (auth.uid() = user_id);
+
+create policy "Users can delete their own rest periods"
+    on public.rest_periods for delete
+    using (auth.uid() = user_id);
+
+-- Missed scheduled days forgiven per activity per calendar month before a streak breaks
+alter table public.user_preferences
+    add column if not exists streak_freezes_per_month integer not null default 0
+        check (streak_freezes_per_month >= 0);
@@ -0,0 +1,22 @@
+-- Week start day (Date#getDay numbering: 1 = Monday, 0 = Sunday, 6 = Saturday) and IANA time zone per user
+alter table public.user_preferences
+    add column if not exists week_start smallint not null default 1
+        check (week_start in (0, 1, 6)),
+    add column if not exists timezone text;
+
+-- Group meals into days by the user's own time zone instead of UTC.
+-- Users without a stored time zone keep the previous UTC grouping.
+drop view if exists public.meal_daily_totals;
+
+create view public.meal_daily_totals
+with (security_invoker = true) as
+select
+    m.user_id,
+    (m.meal_time at time zone coalesce(p.timezone, 'UTC'))::date as meal_day,
+    sum(m.calories) as total_calories,
+    sum(m.protein) as total_protein,
+    sum(m.carbs) as total_carbs,
+    sum(m.fats) as total_fats
+from public.meals m
+left join public.user_preferences p on p.user_id = m.user_id
+group by m.user_id, (m.meal_time at time zone coalesce(p.timezone, 'UTC'))::date;
@@ -0,0 +1,17 @@
+-- Badges a user has unlocked; the rules themselves live in src/lib/achievements.ts
+create table if not exists public.user_achievements (
+    user_id uuid not null references auth.users (id) on delete cascade,
+    achievement_id text not null,
+    unlocked_at timestamptz not null default now(),
+    primary key (user_id, achievement_id)
+);
+
+alter table public.user_achievements enable row level security;
+
+create policy "Users can view their own achievements"
+    on public.user_achievements for select
+    using (auth.uid() = user_id);
+
+create policy "Users can insert their own achievements"
+    on public.user_achievements for insert
+    with check (auth.uid() = user_id);
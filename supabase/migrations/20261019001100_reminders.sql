@@ -0,0 +1,66 @@
+-- Reminder notifications, sent by the /api/reminders/dispatch route through web push
+create table if not exists public.reminders (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    kind text not null check (kind in ('activity', 'meal', 'target')),
+    activity_id text,
+    label text not null default '',
+    -- Wall-clock time in the user's time zone (user_preferences.timezone)
+    time time not null,
+    -- Weekdays in Date#getDay numbering (0 = Sunday); empty means every day
+    days smallint[] not null default '{}',
+    enabled boolean not null default true,
+    last_sent_on date,
+    created_at timestamptz not null default now(),
+    check (kind <> 'activity' or activity_id is not null)
+);
+
+create index if not exists reminders_enabled_idx on public.reminders (enabled) where enabled;
+
+alter table public.reminders enable row level security;
+
+create policy "Users can view their own reminders"
+    on public.reminders for select
+    using (auth.uid() = user_id);
+
+create policy "Users can insert their own reminders"
+    on public.reminders for insert
+    with check (auth.uid() = user_id);
+
+create policy "Users can update their own reminders"
+    on public.reminders for update
+    using (auth.uid() = user_id);
+
+create policy "Users can delete their own reminders"
+    on public.reminders for delete
+    using (auth.uid() = user_id);
+
+-- One row per browser that enabled notifications
+create table if not exists public.push_subscriptions (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    endpoint text not null unique,
+    p256dh text not null,
+    auth text not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists push_subscriptions_user_idx on public.push_subscriptions (user_id);
+
+alter table public.push_subscriptions enable row level security;
+
+create policy "Users can view their own push subscriptions"
+    on public.push_subscriptions for select
+    using (auth.uid() = user_id);
+
+create policy "Users can insert their own push subscriptions"
+    on public.push_subscriptions for insert
+    with check (auth.uid() = user_id);
+
+create policy "Users can update their own push subscriptions"
+    on public.push_subscriptions for update
+    using (auth.uid() = user_id);
+
+create policy "Users can delete their own push subscriptions"
+    on public.push_subscriptions for delete
+    using (auth.uid() = user_id);
@@ -0,0 +1,7 @@
+-- 'build' rows are ticked when done; 'avoid' rows count unticked days as clean and a tick logs a slip
+alter table public.activity_rows
+    add column if not exists habit_type text not null default 'build' check (habit_type in ('build', 'avoid'));
+
+-- First day an avoid row counts clean days from
+alter table public.activity_rows
+    add column if not exists tracked_since date;
@@ -0,0 +1,7 @@
+-- A day is either done or skipped (excused, e.g. because of an injury); there is still one record per activity per day
+alter table public.activity_completions
+    add column if not exists status text not null default 'done' check (status in ('done', 'skipped'));
+
+-- Optional reason given for a skip
+alter table public.activity_completions
+    add column if not exists note text;
@@ -0,0 +1,3 @@
+-- User-defined section of the activity grid, e.g. Health or Chores; null for ungrouped rows
+alter table public.activity_rows
+    add column if not exists group_name text;
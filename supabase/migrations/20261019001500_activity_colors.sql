@@ -0,0 +1,3 @@
+-- Optional hex color per activity, shown behind its emoji and in charts; null keeps the default look
+alter table public.activity_rows
+    add column if not exists color text check (color is null or color ~ '^#[0-9a-fA-F]{6}$');
@@ -0,0 +1,5 @@
+-- The note now also holds a short journal entry for a logged day (e.g. "5x5 squats at 80 kg"), next to skip reasons
+alter table public.activity_completions
+    drop constraint if exists activity_completions_note_length;
+alter table public.activity_completions
+    add constraint activity_completions_note_length check (note is null or char_length(note) <= 500);
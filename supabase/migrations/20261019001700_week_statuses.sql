@@ -0,0 +1,28 @@
+-- Completed weeks are read-only in the grid until they're reopened; reopening is recorded and marks the
+-- week's analysis as stale, so completing the week again regenerates it
+create table if not exists public.week_statuses (
+    user_id uuid not null references auth.users (id) on delete cascade,
+    week_start date not null,
+    -- null while the week is open
+    completed_at timestamptz,
+    reopened_at timestamptz,
+    reopen_count integer not null default 0 check (reopen_count >= 0),
+    primary key (user_id, week_start)
+);
+
+alter table public.week_statuses enable row level security;
+
+create policy "Users can view their own week statuses"
+    on public.week_statuses for select
+    using (auth.uid() = user_id);
+
+create policy "Users can insert their own week statuses"
+    on public.week_statuses for insert
+    with check (auth.uid() = user_id);
+
+create policy "Users can update their own week statuses"
+    on public.week_statuses for update
+    using (auth.uid() = user_id);
+
+alter table public.weekly_analyses
+    add column if not exists is_stale boolean not null default false;
@@ -0,0 +1,11 @@
+-- Answers to the weekly review, stored on the week's analysis row and passed into the analysis prompt.
+-- The review is saved before the analysis is generated, so the analysis text can be missing for a while
+alter table public.weekly_analyses
+    alter column analysis_text drop not null;
+
+alter table public.weekly_analyses
+    add column if not exists rating smallint check (rating between 1 and 5),
+    add column if not exists went_well text check (went_well is null or char_length(went_well) <= 1000),
+    add column if not exists to_change text check (to_change is null or char_length(to_change) <= 1000),
+    -- Activities picked to focus on in the following week
+    add column if not exists focus_activity_ids text[] not null default '{}';
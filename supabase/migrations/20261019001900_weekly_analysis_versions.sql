@@ -0,0 +1,52 @@
+-- Earlier analyses of a week, kept when the week's analysis is regenerated
+create table if not exists public.weekly_analysis_versions (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    week_start date not null,
+    analysis_text text not null,
+    -- When the replaced analysis was generated, if known
+    generated_at timestamptz,
+    replaced_at timestamptz not null default now()
+);
+
+create index if not exists weekly_analysis_versions_user_week_idx
+    on public.weekly_analysis_versions (user_id, week_start, replaced_at desc);
+
+alter table public.weekly_analysis_versions enable row level security;
+
+create policy "Users can view their own analysis versions"
+    on public.weekly_analysis_versions for select
+    using (auth.uid() = user_id);
+
+create policy "Users can insert their own analysis versions"
+    on public.weekly_analysis_versions for insert
+    with check (auth.uid() = user_id);
+
+alter table public.weekly_analyses
+    add column if not exists generated_at timestamptz;
+
+-- Stamps each new analysis and archives the one it replaces, so no client can overwrite history
+create or replace function public.archive_weekly_analysis()
+returns trigger
+language plpgsql
+as $$
+begin
+    if tg_op = 'INSERT' then
+        if new.analysis_text is not null then
+            new.generated_at := now();
+        end if;
+    elsif new.analysis_text is distinct from old.analysis_text then
+        if old.analysis_text is not null then
+            insert into public.weekly_analysis_versions (user_id, week_start, analysis_text, generated_at)
+            values (old.user_id, old.week_start, old.analysis_text, old.generated_at);
+        end if;
+        new.generated_at := now();
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists weekly_analyses_archive on public.weekly_analyses;
+create trigger weekly_analyses_archive
+    before insert or update on public.weekly_analyses
+    for each row execute function public.archive_weekly_analysis();
@@ -0,0 +1,53 @@
+-- AI requests per user, so the /api/ai route handlers can rate-limit each user
+create table if not exists public.ai_requests (
+    id bigint generated always as identity primary key,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    endpoint text not null,
+    requested_at timestamptz not null default now()
+);
+
+create index if not exists ai_requests_user_endpoint_idx
+    on public.ai_requests (user_id, endpoint, requested_at desc);
+
+-- No policies: the table is only reached through consume_ai_request
+alter table public.ai_requests enable row level security;
+
+-- Records a request for the calling user unless they already made `max_requests` to the endpoint within the window.
+-- Returns whether the request is allowed
+create or replace function public.consume_ai_request(endpoint_name text, max_requests integer, window_seconds integer)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    current_user_id uuid := auth.uid();
+    recent_count integer;
+begin
+    if current_user_id is null then
+        return false;
+    end if;
+
+    -- Concurrent requests from the same user are counted one at a time
+    perform pg_advisory_xact_lock(hashtext(current_user_id::text || ':' || endpoint_name));
+
+    delete from public.ai_requests
+    where user_id = current_user_id and requested_at < now() - interval '1 day';
+
+    select count(*) into recent_count
+    from public.ai_requests
+    where user_id = current_user_id
+        and endpoint = endpoint_name
+        and requested_at > now() - make_interval(secs => window_seconds);
+
+    if recent_count >= max_requests then
+        return false;
+    end if;
+
+    insert into public.ai_requests (user_id, endpoint) values (current_user_id, endpoint_name);
+    return true;
+end;
+$$;
+
+revoke all on function public.consume_ai_request(text, integer, integer) from public;
+grant execute on function public.consume_ai_request(text, integer, integer) to authenticated;
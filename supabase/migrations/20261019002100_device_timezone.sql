@@ -0,0 +1,19 @@
+-- Time zone of the device the user last opened the app on. While `timezone` is left on "This device"
+-- the browser groups days by its own zone, so server-side grouping follows the same zone instead of UTC.
+alter table public.user_preferences
+    add column if not exists device_timezone text;
+
+drop view if exists public.meal_daily_totals;
+
+create view public.meal_daily_totals
+with (security_invoker = true) as
+select
+    m.user_id,
+    (m.meal_time at time zone coalesce(p.timezone, p.device_timezone, 'UTC'))::date as meal_day,
+    sum(m.calories) as total_calories,
+    sum(m.protein) as total_protein,
+    sum(m.carbs) as total_carbs,
+    sum(m.fats) as total_fats
+from public.meals m
+left join public.user_preferences p on p.user_id = m.user_id
+group by m.user_id, (m.meal_time at time zone coalesce(p.timezone, p.device_timezone, 'UTC'))::date;
@@ -0,0 +1,25 @@
+-- Week statuses, reviews and analyses are keyed by the Monday of the ISO week a displayed week falls in,
+-- so changing the week start setting doesn't unlock completed weeks or hide their reviews and analyses.
+-- Rows saved under a Sunday or Saturday week start move to that Monday; date_trunc('week') rounds to
+-- Monday, and a week's middle day (start + 3) always lies in the ISO week the grid labels it with.
+update public.week_statuses s
+set week_start = date_trunc('week', s.week_start::date + 3)::date
+where extract(isodow from s.week_start::date) <> 1
+    and not exists (
+        select 1 from public.week_statuses other
+        where other.user_id = s.user_id
+            and other.week_start::date = date_trunc('week', s.week_start::date + 3)::date
+    );
+
+update public.weekly_analyses a
+set week_start = date_trunc('week', a.week_start::date + 3)::date
+where extract(isodow from a.week_start::date) <> 1
+    and not exists (
+        select 1 from public.weekly_analyses other
+        where other.user_id = a.user_id
+            and other.week_start::date = date_trunc('week', a.week_start::date + 3)::date
+    );
+
+update public.weekly_analysis_versions
+set week_start = date_trunc('week', week_start + 3)::date
+where extract(isodow from week_start) <> 1;
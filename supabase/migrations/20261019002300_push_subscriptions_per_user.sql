@@ -0,0 +1,10 @@
+-- A browser's push endpoint can belong to more than one account when several people sign in on the same
+-- browser. Keying on the endpoint alone let the first account's row block everyone after it under RLS.
+alter table public.push_subscriptions
+    drop constraint if exists push_subscriptions_endpoint_key;
+
+alter table public.push_subscriptions
+    drop constraint if exists push_subscriptions_user_endpoint_key;
+
+alter table public.push_subscriptions
+    add constraint push_subscriptions_user_endpoint_key unique (user_id, endpoint);
@@ -0,0 +1,14 @@
+-- Skip reasons get their own column, so skipping a logged day no longer overwrites its journal note
+alter table public.activity_completions
+    add column if not exists skip_reason text;
+
+alter table public.activity_completions
+    drop constraint if exists activity_completions_skip_reason_length;
+alter table public.activity_completions
+    add constraint activity_completions_skip_reason_length
+    check (skip_reason is null or char_length(skip_reason) <= 500);
+
+-- Until now a skipped day's note was its reason
+update public.activity_completions
+set skip_reason = note, note = null
+where status = 'skipped' and skip_reason is null and note is not null;
@@ -0,0 +1,18 @@
+-- The reminder dispatcher posts to each stored endpoint from the server, so only public HTTPS push services are
+-- accepted: a host name (no IP address or credentials) that isn't localhost or an internal name.
+-- Mirrors isAllowedPushEndpoint in src/lib/reminders.ts; rows that fail it could never have received a reminder.
+delete from public.push_subscriptions
+where not (
+    endpoint ~* '^https://[a-z0-9-]+(\.[a-z0-9-]+)+\.?(:[0-9]+)?/'
+    and endpoint !~ '^https://[0-9.]+(:[0-9]+)?/'
+    and endpoint !~* '^https://([a-z0-9-]+\.)*(localhost|local|internal)\.?(:[0-9]+)?/'
+);
+
+alter table public.push_subscriptions
+    drop constraint if exists push_subscriptions_endpoint_public;
+alter table public.push_subscriptions
+    add constraint push_subscriptions_endpoint_public check (
+        endpoint ~* '^https://[a-z0-9-]+(\.[a-z0-9-]+)+\.?(:[0-9]+)?/'
+        and endpoint !~ '^https://[0-9.]+(:[0-9]+)?/'
+        and endpoint !~* '^https://([a-z0-9-]+\.)*(localhost|local|internal)\.?(:[0-9]+)?/'
+    );
@@ -0,0 +1,49 @@
+-- consume_ai_request took its limits from the caller, and signed-in users can call it directly, so the limits
+-- now live here. Keep them in line with AI_RATE_LIMITS in src/lib/ai.ts, which only words the error message.
+drop function if exists public.consume_ai_request(text, integer, integer);
+
+-- Records a request for the calling user unless they already reached the endpoint's limit within its window.
+-- Returns whether the request is allowed; unknown endpoints never are
+create or replace function public.consume_ai_request(endpoint_name text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    current_user_id uuid := auth.uid();
+    max_requests integer;
+    window_seconds integer := 60 * 60;
+    recent_count integer;
+begin
+    max_requests := case endpoint_name
+        when 'weekly-analysis' then 10
+        when 'meal-estimate' then 30
+    end;
+    if current_user_id is null or max_requests is null then
+        return false;
+    end if;
+
+    -- Concurrent requests from the same user are counted one at a time
+    perform pg_advisory_xact_lock(hashtext(current_user_id::text || ':' || endpoint_name));
+
+    delete from public.ai_requests
+    where user_id = current_user_id and requested_at < now() - interval '1 day';
+
+    select count(*) into recent_count
+    from public.ai_requests
+    where user_id = current_user_id
+        and endpoint = endpoint_name
+        and requested_at > now() - make_interval(secs => window_seconds);
+
+    if recent_count >= max_requests then
+        return false;
+    end if;
+
+    insert into public.ai_requests (user_id, endpoint) values (current_user_id, endpoint_name);
+    return true;
+end;
+$$;
+
+revoke all on function public.consume_ai_request(text) from public;
+grant execute on function public.consume_ai_request(text) to authenticated;